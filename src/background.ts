@@ -1,13 +1,51 @@
-import type { CustomerProfile, AutomationSettings, FilterSettings } from "~/types"
-import { saveProfile, getAutomationSettings, getProfiles, getFilterSettings } from "~/utils/storage"
-import { initializeOpenAI } from "~/services/openai"
+import type {
+  CustomerProfile,
+  AutomationSettings,
+  FilterSettings,
+  EngineHeartbeat,
+  MessageDraft,
+  OutreachQueueItem,
+  SequenceStepRef
+} from "~/types"
+import {
+  getAutomationSettings,
+  getProfile,
+  getProfilesMatching,
+  getFilterSettings,
+  getOutreachQueue,
+  getSequences,
+  getSuppressionList,
+  saveEngineHeartbeat
+} from "~/utils/storage"
+import { getProviderProblem, isProviderConfigured } from "~/services/llmProviders"
 import { MessageDeliveryService } from "~/services/messageDelivery"
-import { filterProfiles } from "~/utils/filter"
-import { extractProfileFromPage, extractProfileUrlsFromDirectory } from "~/services/profileCollector"
+import { dequeueDue, enqueueProfiles, peekDue, rescheduleItem } from "~/services/outreachQueue"
+import {
+  addDraftForReview,
+  getPendingDrafts,
+  markDraftApproved,
+  markDraftDeliveryFailed
+} from "~/services/reviewInbox"
+import { getActiveSequence, getNextStep, isStepDue, findStep, isRetryDue } from "~/services/sequences"
+import { recordScannedThreads, scanInboxForReplies } from "~/services/replyDetection"
+import { findSuppression, profileKeys } from "~/services/suppression"
+import {
+  collectProfilesFromUrls,
+  resumeProfileCollection,
+  cancelProfileCollection,
+  storeCollectedProfile
+} from "~/services/profileCollector"
+import { extractProfileFromTab } from "~/services/extractor"
+import { runMigrations } from "~/utils/migrations"
 import { serializeProfile, deserializeProfile } from "~/utils/serialization"
 
 let messageDeliveryService: MessageDeliveryService | null = null
-let automationInterval: NodeJS.Timeout | null = null
+
+// Alarms survive the service worker being killed; setInterval does not
+const AUTOMATION_ALARM = "automation-cycle"
+const RATE_LIMIT_ALARM = "rate-limit-windows"
+const SEND_ALARM_PREFIX = "scheduled-send:"
+const REPLY_SCAN_ALARM = "reply-scan"
 
 // Initialize on startup
 chrome.runtime.onInstalled.addListener(async () => {
@@ -19,15 +57,18 @@ chrome.runtime.onStartup.addListener(async () => {
   await initializeServices()
 })
 
+// The worker may have been killed mid-batch; pick up any unfinished collection queue
+resumeProfileCollection().catch((error) => {
+  console.error("Error resuming profile collection:", error)
+})
+
 async function initializeServices() {
+  await runMigrations()
   const settings = await getAutomationSettings()
 
   // Initialize message delivery service
-  if (settings.openaiApiKey) {
-    initializeOpenAI(settings.openaiApiKey)
-    const service = new MessageDeliveryService(settings)
-    await service.ready
-    messageDeliveryService = service
+  if (isProviderConfigured(settings)) {
+    await ensureDeliveryService(settings)
   }
 
   if (settings.enabled) {
@@ -35,28 +76,37 @@ async function initializeServices() {
   }
 }
 
+/**
+ * Rebuilds the delivery service from stored settings.
+ * Module state is lost whenever Chrome stops the worker, so every alarm goes through here.
+ */
+async function ensureDeliveryService(settings: AutomationSettings): Promise<MessageDeliveryService> {
+  if (!messageDeliveryService) {
+    const service = new MessageDeliveryService(settings)
+    await service.ready
+    messageDeliveryService = service
+  } else {
+    messageDeliveryService.updateSettings(settings)
+  }
+  return messageDeliveryService
+}
+
 async function sendTestMessage(profileData: any, customMessage?: string): Promise<{ success: boolean; message?: string; error?: string }> {
   try {
     const settings = await getAutomationSettings()
-
-    if (!settings.openaiApiKey) {
-      return { success: false, error: "OpenAI API key not configured. Please set it in Settings tab." }
-    }
+    const service = await ensureDeliveryService(settings)
 
     // Deserialize profile
     const profile = deserializeProfile(profileData)
 
-    // Initialize OpenAI if not already done
-    if (!messageDeliveryService) {
-      initializeOpenAI(settings.openaiApiKey)
-      messageDeliveryService = new MessageDeliveryService(settings)
-    } else {
-      // Update settings in case they changed
-      messageDeliveryService.updateSettings(settings)
+    // Template-only drafting works without a key
+    const problem = getProviderProblem(settings)
+    if (problem && !customMessage && (await service.needsAI(undefined, profile))) {
+      return { success: false, error: `${problem}. Please set it in Settings tab.` }
     }
 
     // Send the message
-    const result = await messageDeliveryService.sendMessage(profile, customMessage)
+    const result = await service.sendMessage(profile, customMessage ? { text: customMessage } : undefined)
 
     return result
   } catch (error) {
@@ -71,25 +121,64 @@ async function sendTestMessage(profileData: any, customMessage?: string): Promis
 async function generateDraft(profileData: any): Promise<{ success: boolean; message?: string; error?: string }> {
   try {
     const settings = await getAutomationSettings()
+    const service = await ensureDeliveryService(settings)
+
+    const profile = deserializeProfile(profileData)
 
-    if (!settings.openaiApiKey) {
-      return { success: false, error: "OpenAI API key not configured." }
+    const problem = getProviderProblem(settings)
+    if (problem && (await service.needsAI(undefined, profile))) {
+      return { success: false, error: `${problem}.` }
     }
+    const draft = await service.generateDraft(profile)
 
-    const profile = deserializeProfile(profileData)
+    return { success: true, message: draft.text }
+  } catch (error) {
+    console.error("Error generating draft:", error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+}
 
-    if (!messageDeliveryService) {
-      initializeOpenAI(settings.openaiApiKey)
-      messageDeliveryService = new MessageDeliveryService(settings)
-    } else {
-      messageDeliveryService.updateSettings(settings)
+/**
+ * Sends a reviewed draft. The draft stays pending with the error if delivery fails,
+ * so it can be retried from the review inbox.
+ */
+async function approveReviewDraft(draftId: string, editedMessage?: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const draft = (await getPendingDrafts()).find((d) => d.id === draftId)
+    if (!draft) {
+      return { success: false, error: "Draft not found or already decided" }
     }
 
-    const message = await messageDeliveryService.generateDraft(profile)
+    const profile = await getProfile(draft.profileId)
+    if (!profile) {
+      return { success: false, error: `Profile ${draft.profileName} no longer exists` }
+    }
+    if (profile.lastReplyAt) {
+      return { success: false, error: `${profile.name} has already replied; reject this draft instead` }
+    }
 
-    return { success: true, message }
+    const settings = await getAutomationSettings()
+    const service = await ensureDeliveryService(settings)
+    const message = editedMessage?.trim() || draft.message
+    // The model's facts and the draft's source only describe the text it wrote
+    const unedited = message === draft.originalMessage
+    const result = await service.sendMessage(
+      profile,
+      { text: message, facts: unedited ? draft.facts : undefined, source: unedited ? draft.source : undefined },
+      draft.step
+    )
+
+    if (result.success) {
+      await markDraftApproved(draftId)
+    } else {
+      await markDraftDeliveryFailed(draftId, result.error || "Unknown error")
+    }
+    return { success: result.success, error: result.error }
   } catch (error) {
-    console.error("Error generating draft:", error)
+    console.error("Error approving draft:", error)
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error"
@@ -132,6 +221,45 @@ chrome.runtime.onMessage.addListener(async (request, sender, sendResponse) => {
     return true
   }
 
+  if (request.action === "collectProfiles") {
+    const urls: string[] = Array.isArray(request.urls) ? request.urls : []
+    if (urls.length === 0) {
+      sendResponse({ success: false, error: "No profile URLs provided" })
+      return true
+    }
+    // Runs in the background; progress is persisted in the collection queue
+    collectProfilesFromUrls(urls).catch((error) => {
+      console.error("Error collecting profiles:", error)
+    })
+    sendResponse({ success: true, queued: urls.length })
+    return true
+  }
+
+  if (request.action === "cancelCollection") {
+    cancelProfileCollection().then(() => {
+      sendResponse({ success: true })
+    })
+    return true
+  }
+
+  if (request.action === "threadsScanned") {
+    recordScannedThreads(request.threads || []).then((newReplies) => {
+      sendResponse({ success: true, newReplies })
+    }).catch((error) => {
+      sendResponse({ success: false, error: error.message })
+    })
+    return true
+  }
+
+  if (request.action === "scanInbox") {
+    scanInboxForReplies().then((result) => {
+      sendResponse({ success: true, ...result })
+    }).catch((error) => {
+      sendResponse({ success: false, error: error.message })
+    })
+    return true
+  }
+
   if (request.action === "startAutomation") {
     startAutomation(request.settings)
     sendResponse({ success: true })
@@ -160,15 +288,18 @@ chrome.runtime.onMessage.addListener(async (request, sender, sendResponse) => {
     return true
   }
 
+  if (request.action === "approveDraft") {
+    approveReviewDraft(request.draftId, request.message).then((result) => {
+      sendResponse(result)
+    })
+    return true
+  }
+
   if (request.action === "updateApiKey") {
-    if (request.apiKey) {
-      initializeOpenAI(request.apiKey)
-      const settings = await getAutomationSettings()
-      messageDeliveryService = new MessageDeliveryService(settings)
-      sendResponse({ success: true })
-    } else {
-      sendResponse({ success: false, error: "No API key provided" })
-    }
+    // Credentials live in settings; rebuild the service so it picks them up
+    const settings = await getAutomationSettings()
+    messageDeliveryService = new MessageDeliveryService(settings)
+    sendResponse({ success: true })
     return true
   }
 
@@ -179,13 +310,21 @@ async function handleProfileExtracted(profileData: any) {
   try {
     // Deserialize profile
     const profile = deserializeProfile(profileData)
-    await saveProfile(profile)
-    console.log("Profile saved:", profile.name)
+    if (await storeCollectedProfile(profile)) {
+      console.log("Profile saved:", profile.name)
+    }
   } catch (error) {
     console.error("Error saving profile:", error)
   }
 }
 
+// Manual extraction reports a listed profile to the popup instead of dropping it silently
+async function storeOrReject(profile: CustomerProfile) {
+  if (!(await storeCollectedProfile(profile))) {
+    throw new Error(`${profile.name} is on the do-not-contact list. Remove them from it in Options to collect them again.`)
+  }
+}
+
 async function extractCurrentProfile(): Promise<CustomerProfile | null> {
   console.log("[Profile Extraction] ===== STARTING EXTRACTION =====")
   try {
@@ -231,7 +370,7 @@ async function extractCurrentProfile(): Promise<CustomerProfile | null> {
       if (response?.profile) {
         console.log("[Profile Extraction] Profile extracted via content script")
         const profile = deserializeProfile(response.profile)
-        await saveProfile(profile)
+        await storeOrReject(profile)
         console.log("[Profile Extraction] Profile saved:", profile.name)
         return profile
       } else {
@@ -241,189 +380,21 @@ async function extractCurrentProfile(): Promise<CustomerProfile | null> {
       console.warn("[Profile Extraction] Content script not available, using direct extraction:", contentScriptError)
     }
 
-    // Fallback: Extract directly using injected script
+    // Fallback: inject the shared extraction engine directly
     console.log("[Profile Extraction] Step 3: Using direct script injection...")
-    let results
+    let profile: CustomerProfile | null
     try {
-      results = await chrome.scripting.executeScript({
-        target: { tabId: tab.id },
-        func: async () => {
-          console.log("[Profile Extraction] Injected script running...")
-          // Direct extraction logic (simplified version)
-          try {
-            const waitFor = (fn: () => boolean, timeout = 12000, interval = 400) =>
-              new Promise<boolean>((resolve) => {
-                const start = Date.now()
-                const tick = () => {
-                  if (fn()) return resolve(true)
-                  if (Date.now() - start > timeout) return resolve(false)
-                  setTimeout(tick, interval)
-                }
-                tick()
-              })
-
-            await waitFor(() => Boolean(document.querySelector("h1") || document.querySelector(".css-y9z691")))
-
-            const nameSelectors = ["h1", ".profile-name", "[data-name]", ".user-name", ".name"]
-            let name = "Unknown"
-            for (const selector of nameSelectors) {
-              const element = document.querySelector(selector)
-              if (element?.textContent?.trim()) {
-                name = element.textContent.trim()
-                break
-              }
-            }
-
-            if (name === "Unknown") {
-              return null
-            }
-
-            const locationSelectors = [
-              ".location",
-              ".country",
-              "[data-country]",
-              ".profile-location",
-              "[title='Location']",
-              ".css-1jvurm9"
-            ]
-            let country: string | undefined
-            for (const selector of locationSelectors) {
-              const element = document.querySelector(selector)
-              if (element?.textContent?.trim()) {
-                country = element.textContent.trim()
-                const parts = country.split(",")
-                if (parts.length > 1) {
-                  country = parts[parts.length - 1].trim()
-                }
-                break
-              }
-            }
-
-            let age: number | undefined
-            const ageEl = document.querySelector('[title="Age"]')
-            if (ageEl?.textContent) {
-              const match = ageEl.textContent.match(/(\d{1,3})/)
-              if (match) age = parseInt(match[1], 10)
-            }
-
-            const bioSelectors = [
-              ".bio",
-              ".description",
-              "[data-bio]",
-              ".profile-bio",
-              ".about",
-              ".about-section",
-              ".profile-about",
-              ".cofounder-card__description",
-              ".profile-description",
-              ".user-description",
-              ".summary",
-              "[data-testid='about']",
-              "[data-testid='bio']",
-              ".css-1tp1ukf",
-              ".css-vqx3x2",
-              ".css-ruq4fr",
-              ".css-106je9h"
-            ]
-            let bio: string | undefined
-            const bioChunks = bioSelectors
-              .flatMap((selector) => Array.from(document.querySelectorAll(selector)))
-              .map((el) => el.textContent?.trim() || "")
-              .filter((text) => text.length > 0)
-            if (bioChunks.length > 0) {
-              const combined = Array.from(new Set(bioChunks)).join("\n\n")
-              bio = combined.length > 6000 ? combined.substring(0, 6000) + "..." : combined
-            }
-            if (!bio) {
-              const metaDesc =
-                document.querySelector("meta[name='description']")?.getAttribute("content") ||
-                document.querySelector("meta[property='og:description']")?.getAttribute("content")
-              if (metaDesc?.trim()) {
-                const trimmed = metaDesc.trim()
-                bio = trimmed.length > 4000 ? trimmed.substring(0, 4000) + "..." : trimmed
-              }
-            }
-            if (!bio) {
-              const paragraph = Array.from(document.querySelectorAll("p"))
-                .map((el) => el.textContent?.trim() || "")
-                .filter((t) => t.length >= 60 && t.length <= 5000)
-                .sort((a, b) => b.length - a.length)[0]
-              if (paragraph) {
-                bio = paragraph.length > 4000 ? paragraph.substring(0, 4000) + "..." : paragraph
-              }
-            }
-
-            const interestSelectors = [
-              ".interest",
-              ".tag",
-              ".badge",
-              ".skill",
-              ".topics li",
-              ".skills li",
-              ".interests li",
-              ".tags li",
-              ".css-1iujaz8",
-              ".css-17813s4"
-            ]
-            const interests: string[] = []
-            for (const selector of interestSelectors) {
-              const elements = document.querySelectorAll(selector)
-              if (elements.length > 0) {
-                Array.from(elements).slice(0, 10).forEach((el) => {
-                  const text = el.textContent?.trim()
-                  if (text && text.length < 50) {
-                    interests.push(text)
-                  }
-                })
-                break
-              }
-            }
-
-            const profileUrl = window.location.href
-            // Extract ID from URL - handle both /candidate/ID and /users/ID formats
-            let profileId = profileUrl.split("/").filter(Boolean).pop() || `profile-${Date.now()}`
-            // If it's a candidate URL, get the candidate ID
-            if (profileUrl.includes("/cofounder-matching/candidate/")) {
-              const match = profileUrl.match(/\/candidate\/([^\/\?]+)/)
-              if (match && match[1]) {
-                profileId = match[1]
-              }
-            }
-
-            return {
-              id: profileId,
-              name,
-              country,
-              age,
-              bio,
-              interests: interests.slice(0, 10),
-              profileUrl,
-              collectedAt: new Date().toISOString(),
-              messageCount: 0
-            }
-          } catch (error) {
-            console.error("[Profile Extraction] Error in injected script:", error)
-            return null
-          }
-        }
-      })
+      profile = await extractProfileFromTab(tab.id)
       console.log("[Profile Extraction] Script injection completed")
     } catch (injectionError) {
       console.error("[Profile Extraction] ERROR: Script injection failed:", injectionError)
       throw new Error(`Failed to inject script: ${injectionError instanceof Error ? injectionError.message : "Unknown error"}`)
     }
 
-    console.log("[Profile Extraction] Script execution results:", results)
-
-    if (results && results[0]?.result) {
-      const profileData = results[0].result
-      console.log("[Profile Extraction] Extracted profile data:", profileData)
-      if (profileData) {
-        const profile = deserializeProfile(profileData)
-        await saveProfile(profile)
-        console.log("[Profile Extraction] Profile saved via direct extraction:", profile.name)
-        return profile
-      }
+    if (profile) {
+      await storeOrReject(profile)
+      console.log("[Profile Extraction] Profile saved via direct extraction:", profile.name)
+      return profile
     }
 
     console.error("[Profile Extraction] No profile data extracted")
@@ -452,6 +423,7 @@ async function extractProfileUrls(): Promise<string[]> {
       func: () => {
         const profileUrls: string[] = []
         const linkSelectors = [
+          'a[href*="/cofounder-matching/candidate/"]',
           'a[href*="/users/"]',
           'a[href*="/profile/"]',
           'a[href*="/user/"]',
@@ -465,7 +437,13 @@ async function extractProfileUrls(): Promise<string[]> {
           const elements = document.querySelectorAll<HTMLAnchorElement>(selector)
           elements.forEach((el) => {
             const href = el.href
-            if (href && (href.includes("/users/") || href.includes("/profile/") || href.includes("/user/"))) {
+            if (
+              href &&
+              (href.includes("/cofounder-matching/candidate/") ||
+                href.includes("/users/") ||
+                href.includes("/profile/") ||
+                href.includes("/user/"))
+            ) {
               try {
                 const url = new URL(href)
                 links.add(url.href)
@@ -492,64 +470,301 @@ async function extractProfileUrls(): Promise<string[]> {
 }
 
 async function startAutomation(settings: AutomationSettings) {
-  stopAutomation() // Stop any existing automation
+  await stopAutomation() // Stop any existing automation
 
   if (!settings.enabled) {
     return
   }
 
-  messageDeliveryService = new MessageDeliveryService(settings)
+  await ensureDeliveryService(settings)
 
-  // Run automation loop
-  automationInterval = setInterval(async () => {
-    await runAutomationCycle(settings)
-  }, settings.rateLimit.delayBetweenMessages || 60000)
+  // Chrome does not fire alarms more often than every 30 seconds
+  const periodInMinutes = Math.max(0.5, (settings.rateLimit.delayBetweenMessages || 60000) / 60000)
+  chrome.alarms.create(AUTOMATION_ALARM, { periodInMinutes })
+  chrome.alarms.create(RATE_LIMIT_ALARM, { periodInMinutes: 5 })
+  // Catch replies even if the user never opens the inbox, before the next follow-up goes out
+  chrome.alarms.create(REPLY_SCAN_ALARM, { periodInMinutes: 60 })
+  await syncSendAlarms()
 
   // Run immediately
-  await runAutomationCycle(settings)
+  await runAutomationCycle("start")
+}
+
+async function stopAutomation() {
+  const alarms = await chrome.alarms.getAll()
+  await Promise.all(
+    alarms
+      .filter(
+        (alarm) =>
+          alarm.name === AUTOMATION_ALARM ||
+          alarm.name === REPLY_SCAN_ALARM ||
+          alarm.name.startsWith(SEND_ALARM_PREFIX)
+      )
+      .map((alarm) => chrome.alarms.clear(alarm.name))
+  )
 }
 
-function stopAutomation() {
-  if (automationInterval) {
-    clearInterval(automationInterval)
-    automationInterval = null
+/**
+ * Keeps one alarm per queued send at its scheduled time, so a send fires on time
+ * even if the periodic cycle is far apart or the worker was asleep.
+ * Overdue sends (say, after a browser restart) are spread out by the message delay
+ * instead of all firing in the same second.
+ */
+async function syncSendAlarms() {
+  const queue = await getOutreachQueue()
+  const settings = await getAutomationSettings()
+  const delay = settings.rateLimit.delayBetweenMessages || 60000
+  const wanted = new Map<string, number>(
+    queue.paused
+      ? []
+      : queue.items
+          .filter((item) => item.status === "pending")
+          .sort((a, b) => a.scheduledAt - b.scheduledAt)
+          .map((item) => [`${SEND_ALARM_PREFIX}${item.id}`, item.scheduledAt] as const)
+  )
+
+  const existing = await chrome.alarms.getAll()
+  for (const alarm of existing) {
+    if (alarm.name.startsWith(SEND_ALARM_PREFIX) && !wanted.has(alarm.name)) {
+      await chrome.alarms.clear(alarm.name)
+    }
   }
+
+  let earliest = Date.now() + 1000
+  for (const [name, when] of wanted) {
+    const target = Math.max(when, earliest)
+    const current = existing.find((alarm) => alarm.name === name)
+    // A send already pushed back by an earlier sync keeps its slot rather than moving again
+    const keep = current && (current.scheduledTime === target || (when < target && current.scheduledTime >= target))
+    const at = keep ? current.scheduledTime : target
+    if (!keep) {
+      chrome.alarms.create(name, { when: at })
+    }
+    earliest = at + delay
+  }
+}
+
+async function recordHeartbeat(trigger: string, outcome: EngineHeartbeat["outcome"], detail?: string) {
+  await saveEngineHeartbeat({ lastRunAt: Date.now(), trigger, outcome, detail })
 }
 
-async function runAutomationCycle(settings: AutomationSettings) {
+chrome.alarms.onAlarm.addListener(async (alarm) => {
   try {
-    const profiles = await getProfiles()
-    const filtered = filterProfiles(profiles, await getFilterSettings())
-
-    // Find profiles that haven't been messaged or haven't been messaged recently
-    const eligibleProfiles = filtered.filter((profile) => {
-      if (profile.messageCount === 0) return true
-      if (!profile.lastMessageSent) return true
-
-      // Don't message same person more than once per week
-      const daysSinceLastMessage =
-        (Date.now() - new Date(profile.lastMessageSent).getTime()) / (1000 * 60 * 60 * 24)
-      return daysSinceLastMessage >= 7
-    })
+    // Rehydrate: the worker may have just been restarted to deliver this alarm
+    const settings = await getAutomationSettings()
+
+    if (alarm.name === RATE_LIMIT_ALARM) {
+      if (isProviderConfigured(settings) || messageDeliveryService) {
+        const service = await ensureDeliveryService(settings)
+        await service.refreshRateLimits()
+      }
+      return
+    }
 
-    if (eligibleProfiles.length === 0) {
-      console.log("No eligible profiles found")
+    if (alarm.name === REPLY_SCAN_ALARM) {
+      if (settings.enabled) {
+        const { newReplies } = await scanInboxForReplies()
+        if (newReplies > 0) console.log(`Inbox scan found ${newReplies} new replies`)
+      }
       return
     }
 
-    // Pick a random profile
-    const profile = eligibleProfiles[Math.floor(Math.random() * eligibleProfiles.length)]
+    if (alarm.name === AUTOMATION_ALARM || alarm.name.startsWith(SEND_ALARM_PREFIX)) {
+      if (!settings.enabled) {
+        await stopAutomation()
+        return
+      }
+      await runAutomationCycle(alarm.name)
+    }
+  } catch (error) {
+    console.error(`Error handling alarm ${alarm.name}:`, error)
+  }
+})
+
+// How many profiles are drafted and queued at once when the queue runs dry
+const QUEUE_REFILL_SIZE = 5
+// Review mode stops drafting while this many drafts are waiting for a decision
+const REVIEW_INBOX_LIMIT = 20
+
+/**
+ * Profiles whose next sequence step is due, paired with that step. Profiles whose last sends
+ * failed wait out their backoff, and drop out once their retries are used up.
+ */
+async function getEligibleProfiles(
+  settings: AutomationSettings
+): Promise<{ profile: CustomerProfile; due: NonNullable<ReturnType<typeof getNextStep>> }[]> {
+  const filtered = await getProfilesMatching(await getFilterSettings())
+  const awaitingReview = new Set((await getPendingDrafts()).map((d) => d.profileId))
+  const suppressed = await getSuppressionList()
+  const sequence = await getActiveSequence(settings)
+  const now = Date.now()
+
+  return filtered
+    .filter((profile) => !awaitingReview.has(profile.id))
+    .filter((profile) => !findSuppression(suppressed, profileKeys(profile)))
+    .filter((profile) => isRetryDue(profile, settings.retryAttempts, now))
+    .map((profile) => ({ profile, due: getNextStep(profile, sequence) }))
+    .filter((entry) => isStepDue(entry.due, now))
+}
 
+/**
+ * Tops up the outreach queue with the next eligible profiles, drafting their messages up front
+ * so the popup can show what goes out next
+ */
+async function refillOutreachQueue(settings: AutomationSettings) {
+  const queue = await getOutreachQueue()
+  if (queue.paused || queue.items.length > 0) return
+
+  const eligible = await getEligibleProfiles(settings)
+  if (eligible.length === 0) return
+
+  // Never-messaged first, then whichever follow-up has been due longest
+  const batch = eligible
+    .sort((a, b) => a.due.dueAt - b.due.dueAt)
+    .slice(0, QUEUE_REFILL_SIZE)
+
+  const drafts: Record<string, MessageDraft> = {}
+  const steps: Record<string, SequenceStepRef> = {}
+  for (const { profile, due } of batch) {
+    steps[profile.id] = { sequenceId: due.sequenceId, stepIndex: due.stepIndex }
     if (messageDeliveryService) {
-      const result = await messageDeliveryService.sendMessage(profile)
+      try {
+        drafts[profile.id] = await messageDeliveryService.generateDraft(profile, due.step)
+      } catch (error) {
+        // Left empty; the message is generated at send time instead
+        console.warn(`Could not draft message for ${profile.name}:`, error)
+      }
+    }
+  }
+
+  await enqueueProfiles(
+    batch.map((entry) => entry.profile),
+    settings.rateLimit.delayBetweenMessages || 60000,
+    drafts,
+    steps
+  )
+}
+
+/**
+ * Dequeues the next due item and loads its profile.
+ * Items for deleted profiles, or profiles that replied or left their sequence since
+ * being queued, are dropped.
+ */
+async function takeDueItem(trigger: string): Promise<{ item: OutreachQueueItem; profile: CustomerProfile } | null> {
+  const item = await dequeueDue()
+  if (!item) {
+    await recordHeartbeat(trigger, "idle")
+    return null
+  }
+
+  const profile = await getProfile(item.profileId)
+  if (!profile) {
+    console.warn(`Queued profile ${item.profileName} no longer exists, skipping`)
+    await recordHeartbeat(trigger, "idle", `Skipped missing profile ${item.profileName}`)
+    return null
+  }
+
+  const stopped = profile.sequenceState?.stoppedReason
+  if (profile.lastReplyAt || stopped === "replied" || stopped === "manual") {
+    console.log(`Skipping ${profile.name}: sequence stopped (${stopped || "replied"})`)
+    await recordHeartbeat(trigger, "idle", `Skipped ${profile.name}, sequence stopped`)
+    return null
+  }
+
+  return { item, profile }
+}
+
+/**
+ * Review mode: turns the next due queue item into a draft in the review inbox instead of sending it
+ */
+async function draftNextForReview(settings: AutomationSettings, trigger: string) {
+  const pending = await getPendingDrafts()
+  if (pending.length >= REVIEW_INBOX_LIMIT) {
+    await recordHeartbeat(trigger, "idle", `Review inbox full (${pending.length} drafts waiting)`)
+    return
+  }
+
+  const due = await takeDueItem(trigger)
+  if (!due) return
+  const { item, profile } = due
+
+  const step = item.step ? findStep(await getSequences(), item.step) : undefined
+  const draft = item.draft
+    ? { text: item.draft, facts: item.draftFacts, source: item.draftSource }
+    : await messageDeliveryService!.generateDraft(profile, step)
+  await addDraftForReview(profile, draft, item.step)
+  console.log(`Draft for ${profile.name} added to review inbox`)
+  await recordHeartbeat(trigger, "drafted", profile.name)
+}
+
+// Cycles run one at a time: overlapping ones would each pass the rate limiter before either had sent
+let cycleChain: Promise<void> = Promise.resolve()
+
+/**
+ * Queues a cycle behind any that is running. Settings are read when the cycle starts,
+ * so one queued behind a long send sees changes made in the meantime.
+ */
+function runAutomationCycle(trigger: string): Promise<void> {
+  const run = cycleChain.then(async () => {
+    const settings = await getAutomationSettings()
+    if (!settings.enabled) return
+    await ensureDeliveryService(settings)
+    await automationCycle(settings, trigger)
+  })
+  cycleChain = run.catch((error) => {
+    console.error("Error starting automation cycle:", error)
+  })
+  return cycleChain
+}
+
+async function automationCycle(settings: AutomationSettings, trigger: string) {
+  try {
+    await refillOutreachQueue(settings)
+
+    // Nothing is sent in review mode, so the rate limiter only applies once a draft is approved
+    if (settings.mode === "review" && messageDeliveryService) {
+      await draftNextForReview(settings, trigger)
+      return
+    }
+
+    const next = await peekDue()
+    if (!next) {
+      console.log("No queued sends due")
+      await recordHeartbeat(trigger, "idle")
+      return
+    }
+
+    // Leave the item queued until the limiter clears instead of burning it on a blocked send
+    if (messageDeliveryService) {
+      const decision = await messageDeliveryService.checkRateLimit(next.profileId)
+      if (!decision.allowed) {
+        if (decision.clearsAt) {
+          await rescheduleItem(next.id, decision.clearsAt)
+        }
+        console.log(`Send to ${next.profileName} held by ${decision.rule} rule: ${decision.reason}`)
+        await recordHeartbeat(trigger, "idle", `Held by ${decision.rule} limit`)
+        return
+      }
+    }
+
+    const due = await takeDueItem(trigger)
+    if (!due) return
+    const { item, profile } = due
+
+    if (messageDeliveryService) {
+      const draft = item.draft ? { text: item.draft, facts: item.draftFacts, source: item.draftSource } : undefined
+      const result = await messageDeliveryService.sendMessage(profile, draft, item.step)
       if (result.success) {
         console.log(`Message sent to ${profile.name}`)
+        await recordHeartbeat(trigger, "sent", profile.name)
       } else {
         console.error(`Failed to send message: ${result.error}`)
+        await recordHeartbeat(trigger, "failed", result.error)
       }
     }
   } catch (error) {
     console.error("Error in automation cycle:", error)
+    await recordHeartbeat(trigger, "error", error instanceof Error ? error.message : "Unknown error")
   }
 }
 
@@ -558,11 +773,18 @@ async function runAutomationCycle(settings: AutomationSettings) {
 chrome.storage.onChanged.addListener((changes, areaName) => {
   if (areaName === "local" && changes.automationSettings) {
     const newSettings = changes.automationSettings.newValue as AutomationSettings
-    if (newSettings.enabled) {
+    if (newSettings?.enabled) {
       startAutomation(newSettings)
     } else {
       stopAutomation()
     }
   }
+
+  // Queue edits from the popup (reorder, pause, skip) move the per-send alarms
+  if (areaName === "local" && changes.outreachQueue) {
+    getAutomationSettings().then((settings) => {
+      if (settings.enabled) syncSendAlarms()
+    })
+  }
 })
 
@@ -0,0 +1,185 @@
+import type { PlasmoCSConfig } from "plasmo"
+import type { DeliveryResult } from "~/types"
+
+export const config: PlasmoCSConfig = {
+  matches: [
+    "https://www.startupschool.org/cofounder-matching/*",
+    "https://startupschool.org/cofounder-matching/*"
+  ]
+}
+
+const COMPOSER_SELECTORS = [
+  "textarea[name='message']",
+  "textarea[name='body']",
+  "textarea[placeholder*='message' i]",
+  "textarea[placeholder*='invite' i]",
+  ".invite-message textarea",
+  ".message-composer textarea",
+  "form textarea",
+  "[contenteditable='true'][role='textbox']"
+]
+
+// Buttons that reveal the composer on candidate pages ("Invite to connect", "Message")
+const OPENER_PATTERN = /invite to connect|send (a )?message|^message$/i
+const SUBMIT_PATTERN = /send|invite|submit/i
+
+const ERROR_SELECTORS = [
+  "[role='alert']",
+  ".alert-danger",
+  ".error-message",
+  ".flash-error",
+  ".form-error"
+]
+
+type ComposerElement = HTMLTextAreaElement | HTMLElement
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
+
+async function waitFor<T>(fn: () => T | null | undefined, timeoutMs: number, intervalMs = 250): Promise<T | null> {
+  const start = Date.now()
+  while (Date.now() - start < timeoutMs) {
+    const value = fn()
+    if (value) return value
+    await sleep(intervalMs)
+  }
+  return null
+}
+
+function isVisible(el: Element): boolean {
+  const rect = el.getBoundingClientRect()
+  return rect.width > 0 && rect.height > 0
+}
+
+function findComposer(): ComposerElement | null {
+  for (const selector of COMPOSER_SELECTORS) {
+    const el = Array.from(document.querySelectorAll<HTMLElement>(selector)).find(isVisible)
+    if (el) return el
+  }
+  return null
+}
+
+function findOpener(): HTMLElement | null {
+  return (
+    Array.from(document.querySelectorAll<HTMLElement>("button, a[role='button']")).find(
+      (el) => isVisible(el) && OPENER_PATTERN.test(el.textContent?.trim() || "")
+    ) || null
+  )
+}
+
+function findSubmitButton(composer: ComposerElement): HTMLButtonElement | null {
+  const scope = composer.closest("form") || composer.closest("[role='dialog']") || document.body
+  const explicit = scope.querySelector<HTMLButtonElement>("button[type='submit']")
+  if (explicit && isVisible(explicit)) return explicit
+
+  return (
+    Array.from(scope.querySelectorAll<HTMLButtonElement>("button")).find(
+      (el) => isVisible(el) && SUBMIT_PATTERN.test(el.textContent?.trim() || "")
+    ) || null
+  )
+}
+
+function readPageError(): string | null {
+  for (const selector of ERROR_SELECTORS) {
+    const el = Array.from(document.querySelectorAll(selector)).find(
+      (node) => isVisible(node) && node.textContent?.trim()
+    )
+    if (el) return el.textContent!.trim()
+  }
+  return null
+}
+
+function readComposerValue(composer: ComposerElement): string {
+  return composer instanceof HTMLTextAreaElement ? composer.value : composer.textContent || ""
+}
+
+/**
+ * Sets the composer text in a way React-controlled inputs pick up:
+ * the native value setter plus synthetic input/change events
+ */
+function fillComposer(composer: ComposerElement, text: string): void {
+  composer.focus()
+
+  if (composer instanceof HTMLTextAreaElement) {
+    const setter = Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, "value")?.set
+    setter ? setter.call(composer, text) : (composer.value = text)
+  } else {
+    composer.textContent = text
+  }
+
+  composer.dispatchEvent(new Event("input", { bubbles: true }))
+  composer.dispatchEvent(new Event("change", { bubbles: true }))
+}
+
+function isDisabled(button: HTMLButtonElement): boolean {
+  return button.disabled || button.getAttribute("aria-disabled") === "true"
+}
+
+async function deliverMessage(message: string): Promise<DeliveryResult> {
+  try {
+    let composer = findComposer()
+
+    if (!composer) {
+      const opener = findOpener()
+      if (opener) {
+        opener.click()
+      }
+      composer = await waitFor(findComposer, 10000)
+    }
+
+    if (!composer) {
+      return { success: false, reason: "composer_not_found", error: "Message box not found on page" }
+    }
+
+    fillComposer(composer, message)
+    // Give the page a moment to enable the submit button after the input event
+    await sleep(300)
+
+    const submit = findSubmitButton(composer)
+    if (!submit) {
+      return { success: false, reason: "composer_not_found", error: "Send button not found next to message box" }
+    }
+    if (isDisabled(submit)) {
+      return { success: false, reason: "submit_disabled", error: "Send button is disabled" }
+    }
+
+    const snippet = message.trim().slice(0, 40)
+    submit.click()
+
+    // Success: composer closed or cleared, or the sent text shows up in the thread.
+    // Failure: an error banner appears.
+    const outcome = await waitFor<"sent" | { error: string }>(() => {
+      const error = readPageError()
+      if (error) return { error }
+
+      if (!composer!.isConnected || !isVisible(composer!)) return "sent"
+      if (readComposerValue(composer!).trim() === "") return "sent"
+
+      const threadText = Array.from(document.querySelectorAll("p, li, .message, [data-message]"))
+        .filter((el) => !composer!.contains(el))
+        .some((el) => el.textContent?.includes(snippet))
+      return threadText ? "sent" : null
+    }, 10000)
+
+    if (outcome === "sent") {
+      return { success: true }
+    }
+    if (outcome && typeof outcome === "object") {
+      return { success: false, reason: "page_error", error: outcome.error }
+    }
+    return { success: false, reason: "page_error", error: "No confirmation after submitting message" }
+  } catch (error) {
+    console.error("[Composer] Delivery error:", error)
+    return {
+      success: false,
+      reason: "page_error",
+      error: error instanceof Error ? error.message : "Unknown error"
+    }
+  }
+}
+
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+  if (request.action === "deliverMessage") {
+    deliverMessage(request.message).then(sendResponse)
+    return true
+  }
+})
@@ -0,0 +1,210 @@
+import type { PlasmoCSConfig } from "plasmo"
+import type { MessageDirection, ScannedMessage, ScannedThread } from "~/types"
+
+export const config: PlasmoCSConfig = {
+  matches: [
+    "https://www.startupschool.org/cofounder-matching/*",
+    "https://startupschool.org/cofounder-matching/*"
+  ]
+}
+
+const CANDIDATE_LINK = "a[href*='/cofounder-matching/candidate/']"
+
+const MESSAGE_SELECTORS = [
+  "[data-message]",
+  "[data-testid*='message' i]",
+  ".message",
+  "[class*='message-bubble' i]",
+  "[class*='chat-message' i]"
+]
+
+// Inbox rows: one per conversation, linking to the candidate
+const THREAD_ROW_SELECTORS = [
+  "[class*='thread' i]",
+  "[class*='conversation' i]",
+  "[role='row']",
+  "li"
+]
+
+// The latest-message snippet inside an inbox row, without the name or the relative time
+const PREVIEW_SELECTORS = [
+  "[data-preview]",
+  "[class*='preview' i]",
+  "[class*='snippet' i]",
+  "[class*='last-message' i]",
+  "[class*='excerpt' i]"
+]
+
+const OUTBOUND_CLASS = /\b(outgoing|outbound|sent|self|mine|own|from-me|is-me)\b/i
+const INBOUND_CLASS = /\b(incoming|inbound|received|other|their|from-them)\b/i
+const AUTHOR_SELECTORS = [".author", ".sender", "[data-author]", "[data-sender]"]
+
+const RESCAN_DELAY = 1500
+
+function textOf(el: Element | null | undefined): string {
+  return el?.textContent?.replace(/\s+/g, " ").trim() || ""
+}
+
+function readTimestamp(el: Element): number | undefined {
+  const time = el.querySelector("time[datetime]")
+  const raw = time?.getAttribute("datetime") || el.querySelector("[title]")?.getAttribute("title")
+  if (!raw) return undefined
+  const parsed = Date.parse(raw)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+// Preview text with any nested timestamp left out, so rescans read the same text
+function previewText(el: Element): string {
+  const copy = el.cloneNode(true) as Element
+  copy.querySelectorAll("time").forEach((time) => time.remove())
+  return textOf(copy)
+}
+
+/**
+ * Decides who wrote a message bubble. Only positive evidence counts;
+ * bubbles that can't be attributed are left out rather than guessed.
+ */
+function readDirection(el: Element, candidateName?: string): MessageDirection | null {
+  let node: Element | null = el
+  for (let depth = 0; node && depth < 4; depth++, node = node.parentElement) {
+    const marker = `${node.className || ""} ${node.getAttribute("data-direction") || ""}`
+    if (OUTBOUND_CLASS.test(marker)) return "outbound"
+    if (INBOUND_CLASS.test(marker)) return "inbound"
+  }
+
+  for (const selector of AUTHOR_SELECTORS) {
+    const authorEl = el.querySelector(selector)
+    const author = authorEl?.getAttribute("data-author") || authorEl?.getAttribute("data-sender") || textOf(authorEl)
+    if (!author) continue
+    if (/^you$/i.test(author)) return "outbound"
+    if (candidateName && author.toLowerCase().includes(candidateName.toLowerCase().split(" ")[0])) {
+      return "inbound"
+    }
+  }
+
+  return null
+}
+
+/**
+ * Splits an inbox preview's "Author: text" prefix. "You" is us, the candidate's first
+ * name is them; without either the preview element's markers decide, or nothing does.
+ */
+function readPreview(previewEl: Element, candidateName: string): ScannedMessage | null {
+  const preview = previewText(previewEl)
+  const colon = preview.indexOf(":")
+  const author = colon > 0 ? preview.slice(0, colon).trim().toLowerCase() : ""
+  const firstName = candidateName.split(" ")[0].toLowerCase()
+
+  let direction: MessageDirection | null
+  let text = preview
+  if (author === "you" || (firstName && author === firstName)) {
+    direction = author === "you" ? "outbound" : "inbound"
+    text = preview.slice(colon + 1).trim()
+  } else {
+    direction = readDirection(previewEl, candidateName)
+  }
+  return direction && text ? { text, direction } : null
+}
+
+/**
+ * Open conversation: the candidate is the page itself or the header link
+ */
+function scanConversation(): ScannedThread | null {
+  const onCandidatePage = window.location.pathname.includes("/cofounder-matching/candidate/")
+  const headerLink = document.querySelector<HTMLAnchorElement>(CANDIDATE_LINK)
+  const profileUrl = onCandidatePage ? window.location.href : headerLink?.href
+  if (!profileUrl) return null
+
+  const candidateName = onCandidatePage ? textOf(document.querySelector("h1")) : textOf(headerLink)
+
+  const bubbles = new Set<Element>()
+  for (const selector of MESSAGE_SELECTORS) {
+    document.querySelectorAll(selector).forEach((el) => {
+      // Skip the composer and nested matches of an outer bubble
+      if (el.closest("form") || Array.from(bubbles).some((b) => b.contains(el))) return
+      bubbles.add(el)
+    })
+  }
+
+  const messages: ScannedMessage[] = []
+  for (const bubble of bubbles) {
+    const text = textOf(bubble)
+    const direction = readDirection(bubble, candidateName)
+    if (!text || !direction) continue
+    messages.push({ text, direction, sentAt: readTimestamp(bubble) })
+  }
+
+  return messages.length > 0 ? { profileUrl, profileName: candidateName || undefined, messages } : null
+}
+
+/**
+ * Inbox list: each row shows the latest message. Rows without a preview element,
+ * or whose author can't be told, are left out.
+ */
+function scanInboxRows(): ScannedThread[] {
+  const threads = new Map<string, ScannedThread>()
+
+  document.querySelectorAll<HTMLAnchorElement>(CANDIDATE_LINK).forEach((link) => {
+    let row: Element | null = null
+    for (const selector of THREAD_ROW_SELECTORS) {
+      row = link.closest(selector)
+      if (row) break
+    }
+    if (!row || threads.has(link.href)) return
+
+    const previewEl = PREVIEW_SELECTORS.map((selector) => row!.querySelector(selector)).find(Boolean)
+    if (!previewEl) return
+
+    const name = textOf(link)
+    const message = readPreview(previewEl, name)
+    if (!message) return
+
+    threads.set(link.href, {
+      profileUrl: link.href,
+      profileName: name || undefined,
+      messages: [{ ...message, sentAt: readTimestamp(row) }]
+    })
+  })
+
+  return Array.from(threads.values())
+}
+
+function isInboxList(): boolean {
+  return /\/cofounder-matching\/(inbox|messages)\/?$/.test(window.location.pathname)
+}
+
+function scanPage(): ScannedThread[] {
+  if (isInboxList()) return scanInboxRows()
+  const thread = scanConversation()
+  return thread ? [thread] : []
+}
+
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+  if (request.action === "scanInbox") {
+    // Give a freshly opened inbox time to render its rows
+    setTimeout(() => sendResponse({ threads: scanPage() }), RESCAN_DELAY)
+    return true
+  }
+})
+
+// Report replies whenever the user browses their conversations
+let lastReported = ""
+let rescanTimer: ReturnType<typeof setTimeout> | undefined
+
+function reportThreads() {
+  const threads = scanPage()
+  const signature = JSON.stringify(threads)
+  if (threads.length === 0 || signature === lastReported) return
+  lastReported = signature
+  chrome.runtime.sendMessage({ action: "threadsScanned", threads }).catch(() => {
+    // Extension reloaded; nothing to report to
+  })
+}
+
+window.addEventListener("load", () => {
+  reportThreads()
+  new MutationObserver(() => {
+    clearTimeout(rescanTimer)
+    rescanTimer = setTimeout(reportThreads, RESCAN_DELAY)
+  }).observe(document.body, { childList: true, subtree: true })
+})
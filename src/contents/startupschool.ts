@@ -1,6 +1,7 @@
 import type { PlasmoCSConfig } from "plasmo"
-import { extractProfileFromPage } from "~/services/profileCollector"
+import { extractProfileFromDocument } from "~/services/extractor"
 import { serializeProfile } from "~/utils/serialization"
+import { getSelectorPack } from "~/utils/storage"
 
 export const config: PlasmoCSConfig = {
   matches: [
@@ -13,9 +14,10 @@ export const config: PlasmoCSConfig = {
 
 // Listen for messages from background script
 async function waitForProfile(timeoutMs = 12000, intervalMs = 500) {
+  const { selectors } = await getSelectorPack()
   const start = Date.now()
   while (Date.now() - start < timeoutMs) {
-    const profile = extractProfileFromPage(document)
+    const profile = extractProfileFromDocument(document, selectors)
     if (profile) return profile
     await new Promise((r) => setTimeout(r, intervalMs))
   }
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react"
 import "./style.css"
 import { getProfiles, getMessageHistory } from "~/utils/storage"
+import { PROFILES_REVISION_KEY } from "~/utils/profileStore"
 
 function IndexNewtab() {
   const [profilesCount, setProfilesCount] = useState(0)
@@ -14,7 +15,7 @@ function IndexNewtab() {
     load()
 
     const listener = (changes: any, area: string) => {
-      if (area === "local" && (changes.profiles || changes.messageHistory)) {
+      if (area === "local" && (changes[PROFILES_REVISION_KEY] || changes.conversations)) {
         load()
       }
     }
@@ -1,34 +1,1654 @@
 import { useState, useEffect } from "react"
 import "./style.css"
-import type { AutomationSettings } from "~/types"
-import { getAutomationSettings, saveAutomationSettings, clearAllData } from "~/utils/storage"
-import { initializeOpenAI } from "~/services/openai"
-import { OPENAI_MODELS } from "~/utils/constants"
+import type {
+  AutomationSettings,
+  Backup,
+  BackupImportMode,
+  BackupPreview,
+  CustomerProfile,
+  Experiment,
+  ExperimentVariant,
+  LibraryTemplate,
+  LLMProviderId,
+  MessageCheckAction,
+  MessageCheckRule,
+  MessageCheckSettings,
+  ProfileConflictPolicy,
+  ProfileCsvImportResult,
+  ProfileCsvMapping,
+  ProfileField,
+  PromptField,
+  PromptProfile,
+  SelectorPack,
+  SelectorTestReport,
+  Sequence,
+  SequenceStep,
+  SuppressionEntry
+} from "~/types"
+import {
+  getAutomationSettings,
+  saveAutomationSettings,
+  clearAllData,
+  getSelectorPack,
+  saveSelectorPack,
+  resetSelectorPack,
+  getSequences,
+  saveSequences,
+  getProfiles,
+  getTemplateLibrary,
+  saveTemplateLibrary,
+  getExperiments,
+  saveExperiments,
+  getSuppressionList
+} from "~/utils/storage"
+import { getProviderId, getProviderSettings } from "~/services/llmProviders"
+import {
+  parseSelectorPack,
+  serializeSelectorPack,
+  findStartupSchoolTab,
+  testSelectorPackOnTab
+} from "~/services/selectorPacks"
+import { createBackup, importBackup, parseBackup, previewBackupImport, serializeBackup } from "~/services/backup"
+import { createExperiment, createExperimentVariant } from "~/services/experiments"
+import { getCheckSettings } from "~/services/messageChecks"
+import { guessCsvMapping, importCsvProfiles, readCsvProfiles } from "~/services/profileCsv"
+import { addSuppression, removeSuppression } from "~/services/suppression"
+import {
+  PROMPT_VARIABLES,
+  commitPromptVersion,
+  createPromptProfile,
+  currentVersion,
+  getActivePrompt,
+  getPromptProfiles,
+  isSamePrompt,
+  toPromptDraft,
+  type PromptDraft
+} from "~/services/prompts"
+import { createSequence, createSequenceStep } from "~/services/sequences"
+import {
+  TEMPLATE_VARIABLES,
+  createLibraryTemplate,
+  renderTemplate,
+  validateTemplate
+} from "~/utils/templateEngine"
+import { parseCsv } from "~/utils/csv"
+import {
+  LLM_PROVIDERS,
+  MESSAGE_CHECK_RULES,
+  PROFILE_FIELDS,
+  PROMPT_FIELDS,
+  PROFILE_CSV_COLUMNS,
+  PROFILE_CSV_IMPORT_FIELDS,
+  DEFAULT_MESSAGE_CHECKS,
+  DEFAULT_SELECTOR_PACK
+} from "~/utils/constants"
+
+const FIELD_LABELS: Record<ProfileField, string> = {
+  name: "Name",
+  location: "Location",
+  age: "Age",
+  bio: "Bio",
+  interests: "Interests",
+  email: "Email"
+}
+
+const PROMPT_FIELD_LABELS: Record<PromptField, string> = {
+  name: "Name",
+  country: "Location",
+  ageGroup: "Age group",
+  interests: "Interests",
+  bio: "Bio",
+  analysis: "Tone & key points"
+}
+
+function downloadJson(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/json" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function SelectorPackSection() {
+  const [pack, setPack] = useState<SelectorPack | null>(null)
+  const [drafts, setDrafts] = useState<Record<ProfileField, string> | null>(null)
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+  const [report, setReport] = useState<SelectorTestReport | null>(null)
+  const [testedUrl, setTestedUrl] = useState<string | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+
+  const loadPack = (p: SelectorPack) => {
+    setPack(p)
+    const next = {} as Record<ProfileField, string>
+    for (const field of PROFILE_FIELDS) {
+      next[field] = p.selectors[field].join("\n")
+    }
+    setDrafts(next)
+  }
+
+  useEffect(() => {
+    getSelectorPack().then(loadPack)
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  // Editor state as a pack, without persisting it
+  const currentPack = (): SelectorPack => {
+    const selectors = { ...pack!.selectors }
+    for (const field of PROFILE_FIELDS) {
+      selectors[field] = drafts![field].split("\n").map((s) => s.trim()).filter(Boolean)
+    }
+    return { ...pack!, selectors }
+  }
+
+  const handleSave = async () => {
+    const saved = await saveSelectorPack(currentPack())
+    loadPack(saved)
+    flash('ok', `Saved revision ${saved.revision}`)
+  }
+
+  const handleReset = async () => {
+    if (!confirm("Replace your selectors with the built-in defaults?")) return
+    await resetSelectorPack()
+    loadPack(DEFAULT_SELECTOR_PACK)
+    setReport(null)
+    flash('ok', "Restored built-in selectors")
+  }
+
+  const handleExport = () => {
+    const current = currentPack()
+    downloadJson(`selector-pack-r${current.revision}.json`, serializeSelectorPack(current))
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseSelectorPack(JSON.parse(await file.text()))
+      loadPack(imported)
+      flash('ok', `Loaded "${imported.name}". Review and save to apply.`)
+    } catch (error) {
+      flash('err', error instanceof Error ? error.message : "Invalid selector pack")
+    }
+  }
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    setReport(null)
+    try {
+      const tab = await findStartupSchoolTab()
+      if (!tab?.id) {
+        flash('err', "Open a startupschool.org candidate page in another tab first")
+        return
+      }
+      setReport(await testSelectorPackOnTab(tab.id, currentPack()))
+      setTestedUrl(tab.url || null)
+    } catch (error) {
+      flash('err', error instanceof Error ? error.message : "Test failed")
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  if (!pack || !drafts) return null
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Selector Pack</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            {pack.name} • revision {pack.revision} • format v{pack.formatVersion}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="btn-secondary px-3 py-2 text-xs">Export</button>
+          <label className="btn-secondary px-3 py-2 text-xs cursor-pointer">
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleImport(file)
+                e.target.value = ""
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-500 font-medium">
+        One CSS selector per line, tried top to bottom. Hashed class names like <code>.css-1jvurm9</code> break when Startup School redeploys; prefer attributes and structure.
+      </p>
+
+      <div className="grid grid-cols-1 gap-4">
+        {PROFILE_FIELDS.map((field) => {
+          const fieldReport = report?.[field]
+          return (
+            <div key={field} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest">{FIELD_LABELS[field]}</label>
+                {fieldReport && (
+                  <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${fieldReport.hit ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'}`}>
+                    {fieldReport.hit ? 'Hit' : 'Miss'}
+                  </span>
+                )}
+              </div>
+              <textarea
+                value={drafts[field]}
+                onChange={(e) => setDrafts({ ...drafts, [field]: e.target.value })}
+                rows={Math.min(6, Math.max(2, drafts[field].split("\n").length))}
+                className="input-field font-mono text-xs"
+              />
+              {fieldReport && (
+                <div className="text-[11px] space-y-1 bg-slate-50 border border-slate-100 rounded-lg p-3">
+                  {fieldReport.value && (
+                    <p className="text-slate-700 font-medium truncate">
+                      <span className="font-black text-slate-400 uppercase mr-1">Value</span>
+                      {fieldReport.value}
+                    </p>
+                  )}
+                  {fieldReport.selectors.map((hit) => (
+                    <p key={hit.selector} className={`font-mono truncate ${hit.matches > 0 ? 'text-emerald-700' : 'text-slate-400'}`}>
+                      {hit.matches > 0 ? '✓' : '✗'} {hit.selector} {hit.matches > 0 && `(${hit.matches})`}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {testedUrl && <p className="text-[11px] text-slate-400 font-medium truncate">Tested against {testedUrl}</p>}
+
+      <div className="pt-2 flex items-center gap-3">
+        <button onClick={handleSave} className="btn-primary px-6 py-2.5">Save Selectors</button>
+        <button onClick={handleTest} disabled={isTesting} className="btn-secondary px-6 py-2.5">
+          {isTesting ? "Testing..." : "Test on Current Tab"}
+        </button>
+        <button onClick={handleReset} className="ml-auto text-xs font-black uppercase tracking-widest text-rose-600 hover:text-rose-800">
+          Reset
+        </button>
+      </div>
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
+
+function SequenceSection() {
+  const [sequences, setSequences] = useState<Sequence[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [library, setLibrary] = useState<LibraryTemplate[]>([])
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    getSequences().then((list) => {
+      setSequences(list)
+      setSelectedId(list[0]?.id || null)
+    })
+    getTemplateLibrary().then(setLibrary)
+
+    const listener = (changes: any, area: string) => {
+      if (area === "local" && changes.templateLibrary) {
+        setLibrary(changes.templateLibrary.newValue || [])
+      }
+    }
+    chrome.storage.onChanged.addListener(listener)
+    return () => chrome.storage.onChanged.removeListener(listener)
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const selected = sequences.find((s) => s.id === selectedId)
+
+  const updateSelected = (fn: (sequence: Sequence) => Sequence) => {
+    setSequences(sequences.map((s) => (s.id === selectedId ? fn(s) : s)))
+  }
+
+  const updateStep = (index: number, patch: Partial<SequenceStep>) => {
+    updateSelected((s) => ({
+      ...s,
+      steps: s.steps.map((step, i) => (i === index ? { ...step, ...patch } : step))
+    }))
+  }
+
+  const moveStep = (index: number, delta: number) => {
+    updateSelected((s) => {
+      const steps = [...s.steps]
+      const [moved] = steps.splice(index, 1)
+      steps.splice(index + delta, 0, moved)
+      return { ...s, steps }
+    })
+  }
+
+  const handleAddSequence = () => {
+    const sequence = createSequence(`Sequence ${sequences.length + 1}`)
+    setSequences([...sequences, sequence])
+    setSelectedId(sequence.id)
+  }
+
+  const handleDeleteSequence = () => {
+    if (sequences.length <= 1) {
+      flash('err', "At least one sequence is required")
+      return
+    }
+    if (!confirm(`Delete "${selected?.name}"? Profiles in it continue with the active sequence.`)) return
+    const remaining = sequences.filter((s) => s.id !== selectedId)
+    setSequences(remaining)
+    setSelectedId(remaining[0].id)
+  }
+
+  const handleSave = async () => {
+    const invalid = sequences.find((s) => !s.name.trim() || s.steps.length === 0)
+    if (invalid) {
+      flash('err', `"${invalid.name || "Untitled"}" needs a name and at least one step`)
+      return
+    }
+    await saveSequences(sequences)
+    flash('ok', "Sequences saved")
+  }
+
+  if (!selected) return null
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Follow-up Sequences</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Each step waits its delay after the previous one. A detected reply stops the sequence.
+          </p>
+        </div>
+        <button onClick={handleAddSequence} className="btn-secondary px-3 py-2 text-xs">New Sequence</button>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {sequences.map((s) => (
+          <button
+            key={s.id}
+            onClick={() => setSelectedId(s.id)}
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${s.id === selectedId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}>
+            {s.name || "Untitled"}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Name</label>
+        <input
+          value={selected.name}
+          onChange={(e) => updateSelected((s) => ({ ...s, name: e.target.value }))}
+          className="input-field"
+        />
+      </div>
+
+      <div className="space-y-4">
+        {selected.steps.map((step, index) => (
+          <div key={step.id} className="border border-slate-200 rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Step {index + 1}</span>
+              <div className="flex items-center gap-1 text-[10px] font-black uppercase">
+                <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="px-2 py-1 rounded hover:bg-slate-100 text-slate-500 disabled:opacity-30">↑</button>
+                <button onClick={() => moveStep(index, 1)} disabled={index === selected.steps.length - 1} className="px-2 py-1 rounded hover:bg-slate-100 text-slate-500 disabled:opacity-30">↓</button>
+                <button
+                  onClick={() => updateSelected((s) => ({ ...s, steps: s.steps.filter((_, i) => i !== index) }))}
+                  disabled={selected.steps.length === 1}
+                  className="px-2 py-1 rounded hover:bg-rose-50 text-rose-600 disabled:opacity-30">
+                  Remove
+                </button>
+              </div>
+            </div>
+            {index > 0 && (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={step.delayDays}
+                  onChange={(e) => updateStep(index, { delayDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="input-field w-24"
+                />
+                <span className="text-xs text-slate-500 font-medium">days after step {index}</span>
+              </div>
+            )}
+            <textarea
+              value={step.prompt || ""}
+              onChange={(e) => updateStep(index, { prompt: e.target.value || undefined })}
+              placeholder="Extra instructions for the AI at this step (optional)"
+              rows={2}
+              className="input-field text-xs"
+            />
+            <select
+              value={step.templateId || ""}
+              onChange={(e) => updateStep(index, { templateId: e.target.value || undefined })}
+              className="input-field text-xs">
+              <option value="">No library template (use the message source)</option>
+              {library.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            {!step.templateId && (
+              <textarea
+                value={step.template || ""}
+                onChange={(e) => updateStep(index, { template: e.target.value || undefined })}
+                placeholder="Fixed message instead of AI (optional). [Recipient] and [Your Name] are filled in."
+                rows={2}
+                className="input-field text-xs"
+              />
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => updateSelected((s) => ({ ...s, steps: [...s.steps, createSequenceStep()] }))}
+          className="btn-secondary px-4 py-2 text-xs">
+          Add Step
+        </button>
+      </div>
+
+      <div className="pt-2 flex items-center gap-3">
+        <button onClick={handleSave} className="btn-primary px-6 py-2.5">Save Sequences</button>
+        <button onClick={handleDeleteSequence} className="ml-auto text-xs font-black uppercase tracking-widest text-rose-600 hover:text-rose-800">
+          Delete Sequence
+        </button>
+      </div>
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
+
+function TemplateLibrarySection() {
+  const [templates, setTemplates] = useState<LibraryTemplate[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [profiles, setProfiles] = useState<CustomerProfile[]>([])
+  const [previewProfileId, setPreviewProfileId] = useState<string>("")
+  const [senderName, setSenderName] = useState("")
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    getTemplateLibrary().then((list) => {
+      setTemplates(list)
+      setSelectedId(list[0]?.id || null)
+    })
+    getProfiles().then((list) => {
+      setProfiles(list)
+      setPreviewProfileId(list[0]?.id || "")
+    })
+    getAutomationSettings().then((s) => setSenderName(s.senderName || ""))
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const selected = templates.find((t) => t.id === selectedId)
+  const errors = selected ? validateTemplate(selected.body) : []
+  const previewProfile = profiles.find((p) => p.id === previewProfileId)
+
+  let preview = ""
+  if (selected && previewProfile && errors.length === 0) {
+    preview = renderTemplate(selected.body, previewProfile, { senderName })
+  }
+
+  const updateSelected = (patch: Partial<LibraryTemplate>) => {
+    setTemplates(templates.map((t) => (t.id === selectedId ? { ...t, ...patch, updatedAt: Date.now() } : t)))
+  }
+
+  const handleAdd = () => {
+    const template = createLibraryTemplate(`Template ${templates.length + 1}`)
+    setTemplates([...templates, template])
+    setSelectedId(template.id)
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete "${selected?.name}"? Steps and settings using it fall back to the AI.`)) return
+    const remaining = templates.filter((t) => t.id !== selectedId)
+    setTemplates(remaining)
+    setSelectedId(remaining[0]?.id || null)
+  }
+
+  const handleSave = async () => {
+    const unnamed = templates.find((t) => !t.name.trim() || !t.body.trim())
+    if (unnamed) {
+      flash('err', `"${unnamed.name || "Untitled"}" needs a name and a body`)
+      return
+    }
+    const broken = templates.find((t) => validateTemplate(t.body).length > 0)
+    if (broken) {
+      flash('err', `"${broken.name}" has errors: ${validateTemplate(broken.body).join("; ")}`)
+      return
+    }
+    await saveTemplateLibrary(templates)
+    flash('ok', "Templates saved")
+  }
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Message Templates</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Pick a template as the message source in Settings, or attach one to a sequence step.
+          </p>
+        </div>
+        <button onClick={handleAdd} className="btn-secondary px-3 py-2 text-xs">New Template</button>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">No templates yet.</p>
+      ) : (
+        <div className="flex gap-2 flex-wrap">
+          {templates.map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setSelectedId(t.id)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${t.id === selectedId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}>
+              {t.name || "Untitled"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <>
+          <div className="space-y-2">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Name</label>
+            <input
+              value={selected.name}
+              onChange={(e) => updateSelected({ name: e.target.value })}
+              className="input-field"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Body</label>
+            <textarea
+              value={selected.body}
+              onChange={(e) => updateSelected({ body: e.target.value })}
+              rows={8}
+              className="input-field font-mono text-xs"
+            />
+            <p className="text-[11px] text-slate-500 font-medium">
+              Variables: {TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(", ")}. Wrap optional text in{" "}
+              <code>{"{{#if bio_snippet}}...{{else}}...{{/if}}"}</code>; it is left out when the variable is empty.
+            </p>
+            {errors.length > 0 && (
+              <ul className="text-xs font-bold text-rose-600 space-y-0.5">
+                {errors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Preview</label>
+            {profiles.length === 0 ? (
+              <p className="text-xs text-slate-400 font-medium">Collect a profile to preview templates against it.</p>
+            ) : (
+              <>
+                <select
+                  value={previewProfileId}
+                  onChange={(e) => setPreviewProfileId(e.target.value)}
+                  className="input-field text-xs">
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}{profile.country ? ` (${profile.country})` : ""}
+                    </option>
+                  ))}
+                </select>
+                <pre className="whitespace-pre-wrap text-xs bg-slate-50 border border-slate-200 rounded-xl p-4 text-slate-700 font-sans">
+                  {errors.length > 0 ? "Fix the errors above to see a preview." : preview}
+                </pre>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="pt-2 flex items-center gap-3">
+        <button onClick={handleSave} className="btn-primary px-6 py-2.5">Save Templates</button>
+        {selected && (
+          <button onClick={handleDelete} className="ml-auto text-xs font-black uppercase tracking-widest text-rose-600 hover:text-rose-800">
+            Delete Template
+          </button>
+        )}
+      </div>
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
+
+function PromptSection() {
+  const [profiles, setProfiles] = useState<PromptProfile[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<PromptDraft | null>(null)
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    getAutomationSettings().then((s) => {
+      const active = getActivePrompt(s)
+      setProfiles(getPromptProfiles(s))
+      setActiveId(active.profile.id)
+      setSelectedId(active.profile.id)
+      setDraft(toPromptDraft(active.version))
+    })
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const selected = profiles.find((p) => p.id === selectedId)
+  if (!selected || !draft) return null
+
+  const latest = currentVersion(selected)
+  const isDirty = !isSamePrompt(toPromptDraft(latest), draft)
+  const errors = [
+    ...validateTemplate(draft.systemPrompt, PROMPT_VARIABLES).map((e) => `System prompt: ${e}`),
+    ...validateTemplate(draft.userTemplate, PROMPT_VARIABLES).map((e) => `User prompt: ${e}`)
+  ]
+
+  const updateDraft = (patch: Partial<PromptDraft>) => setDraft({ ...draft, ...patch })
+
+  const toggleField = (field: PromptField) => {
+    updateDraft({
+      fields: draft.fields.includes(field)
+        ? draft.fields.filter((f) => f !== field)
+        : PROMPT_FIELDS.filter((f) => f === field || draft.fields.includes(f))
+    })
+  }
+
+  const selectProfile = (profile: PromptProfile) => {
+    if (isDirty && !confirm("Discard unsaved prompt changes?")) return
+    setSelectedId(profile.id)
+    setDraft(toPromptDraft(currentVersion(profile)))
+  }
+
+  const handleAdd = () => {
+    const profile = createPromptProfile(`Prompt ${profiles.length + 1}`, draft)
+    setProfiles([...profiles, profile])
+    setSelectedId(profile.id)
+  }
+
+  const handleDelete = () => {
+    if (profiles.length <= 1) {
+      flash('err', "At least one prompt is required")
+      return
+    }
+    if (!confirm(`Delete "${selected.name}"? Its version labels stay in message history.`)) return
+    const remaining = profiles.filter((p) => p.id !== selected.id)
+    setProfiles(remaining)
+    setSelectedId(remaining[0].id)
+    setDraft(toPromptDraft(currentVersion(remaining[0])))
+    if (activeId === selected.id) setActiveId(remaining[0].id)
+  }
+
+  const handleSave = async () => {
+    if (errors.length > 0) {
+      flash('err', "Fix the prompt errors first")
+      return
+    }
+    if (!selected.name.trim()) {
+      flash('err', "The prompt needs a name")
+      return
+    }
+    const committed = commitPromptVersion(selected, draft)
+    const updated = profiles.map((p) => (p.id === selected.id ? committed : p))
+    // Re-read so settings changed elsewhere aren't overwritten
+    const current = await getAutomationSettings()
+    await saveAutomationSettings({ ...current, promptProfiles: updated, activePromptProfileId: activeId || undefined })
+    setProfiles(updated)
+    flash('ok', committed === selected ? "Prompts saved" : `Saved as version ${currentVersion(committed).version}`)
+  }
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">AI Prompts</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Saving a change creates a new version. Each message records the version that wrote it.
+          </p>
+        </div>
+        <button onClick={handleAdd} className="btn-secondary px-3 py-2 text-xs">New Prompt</button>
+      </div>
+
+      <div className="flex gap-2 flex-wrap">
+        {profiles.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => selectProfile(p)}
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${p.id === selectedId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}>
+            {p.name || "Untitled"}{p.id === activeId ? " (active)" : ""}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Name</label>
+          <input
+            value={selected.name}
+            onChange={(e) => setProfiles(profiles.map((p) => (p.id === selected.id ? { ...p, name: e.target.value } : p)))}
+            className="input-field"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Version</label>
+          <select
+            value=""
+            onChange={(e) => {
+              const version = selected.versions.find((v) => v.version === parseInt(e.target.value))
+              if (version) setDraft(toPromptDraft(version))
+            }}
+            className="input-field">
+            <option value="">
+              v{latest.version}{isDirty ? " + unsaved changes" : ""}
+            </option>
+            {selected.versions.slice(0, -1).reverse().map((v) => (
+              <option key={v.version} value={v.version}>
+                Load v{v.version}{v.createdAt ? ` (${new Date(v.createdAt).toLocaleDateString()})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">System Prompt</label>
+        <textarea
+          value={draft.systemPrompt}
+          onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+          rows={8}
+          className="input-field font-mono text-xs"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">User Prompt</label>
+        <textarea
+          value={draft.userTemplate}
+          onChange={(e) => updateDraft({ userTemplate: e.target.value })}
+          rows={6}
+          className="input-field font-mono text-xs"
+        />
+        <p className="text-[11px] text-slate-500 font-medium">
+          {"{{profile_details}}"} lists the fields checked below; {"{{length_target}}"} is the length target.
+          Template variables and {"{{#if}}"} blocks work here too. Sequence step instructions are added at the end.
+        </p>
+        {errors.length > 0 && (
+          <ul className="text-xs font-bold text-rose-600 space-y-0.5">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex gap-4 flex-wrap">
+        {PROMPT_FIELDS.map((field) => (
+          <label key={field} className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.fields.includes(field)}
+              onChange={() => toggleField(field)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            {PROMPT_FIELD_LABELS[field]}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Temperature</label>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={draft.temperature}
+            onChange={(e) => updateDraft({ temperature: Math.min(2, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            className="input-field"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Max Tokens</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.maxTokens}
+            onChange={(e) => updateDraft({ maxTokens: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="input-field"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Length Target</label>
+          <input
+            value={draft.lengthTarget}
+            onChange={(e) => updateDraft({ lengthTarget: e.target.value })}
+            placeholder="2-3 sentences"
+            className="input-field"
+          />
+        </div>
+      </div>
+
+      <div className="pt-2 flex items-center gap-3">
+        <button onClick={handleSave} className="btn-primary px-6 py-2.5">Save Prompt</button>
+        <button
+          onClick={() => setActiveId(selected.id)}
+          disabled={activeId === selected.id}
+          className="btn-secondary px-4 py-2.5 text-xs disabled:opacity-50">
+          {activeId === selected.id ? "In Use" : "Use for New Messages"}
+        </button>
+        <button onClick={handleDelete} className="ml-auto text-xs font-black uppercase tracking-widest text-rose-600 hover:text-rose-800">
+          Delete Prompt
+        </button>
+      </div>
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
+
+function ExperimentSection() {
+  const [experiments, setExperiments] = useState<Experiment[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [promptProfiles, setPromptProfiles] = useState<PromptProfile[]>([])
+  const [library, setLibrary] = useState<LibraryTemplate[]>([])
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    Promise.all([getExperiments(), getAutomationSettings(), getTemplateLibrary()]).then(([list, s, templates]) => {
+      setExperiments(list)
+      setSelectedId(s.activeExperimentId || list[0]?.id || null)
+      setActiveId(s.activeExperimentId || null)
+      setPromptProfiles(getPromptProfiles(s))
+      setLibrary(templates)
+    })
+
+    const listener = (changes: any, area: string) => {
+      if (area !== "local") return
+      if (changes.templateLibrary) setLibrary(changes.templateLibrary.newValue || [])
+      if (changes.automationSettings?.newValue) setPromptProfiles(getPromptProfiles(changes.automationSettings.newValue))
+    }
+    chrome.storage.onChanged.addListener(listener)
+    return () => chrome.storage.onChanged.removeListener(listener)
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const selected = experiments.find((e) => e.id === selectedId)
+  const isRunning = Boolean(selected && selected.id === activeId && !selected.endedAt)
+  const isLocked = Boolean(selected?.startedAt)
+
+  const updateSelected = (fn: (experiment: Experiment) => Experiment) => {
+    setExperiments(experiments.map((e) => (e.id === selectedId ? fn(e) : e)))
+  }
+
+  const updateVariant = (index: number, patch: Partial<ExperimentVariant>) => {
+    updateSelected((e) => ({
+      ...e,
+      variants: e.variants.map((v, i) => (i === index ? { ...v, ...patch } : v))
+    }))
+  }
+
+  const persist = async (next: Experiment[], nextActiveId: string | null) => {
+    await saveExperiments(next)
+    const current = await getAutomationSettings()
+    await saveAutomationSettings({ ...current, activeExperimentId: nextActiveId || undefined })
+    setExperiments(next)
+    setActiveId(nextActiveId)
+  }
+
+  const validate = (experiment: Experiment): string | null => {
+    if (!experiment.name.trim()) return "The experiment needs a name"
+    if (experiment.variants.length < 2) return "An experiment needs at least two variants"
+    if (experiment.variants.some((v) => !v.promptProfileId && !v.templateId)) {
+      return "Each variant needs a prompt or a template"
+    }
+    const signatures = experiment.variants.map((v) => `${v.promptProfileId || ""}|${v.templateId || ""}`)
+    if (new Set(signatures).size !== signatures.length) return "Two variants are identical"
+    return null
+  }
+
+  const handleAdd = () => {
+    const experiment = createExperiment(`Experiment ${experiments.length + 1}`)
+    setExperiments([...experiments, experiment])
+    setSelectedId(experiment.id)
+  }
+
+  const handleSave = async () => {
+    const invalid = experiments.find((e) => !e.startedAt && validate(e))
+    if (invalid) {
+      flash('err', `"${invalid.name || "Untitled"}": ${validate(invalid)}`)
+      return
+    }
+    await persist(experiments, activeId)
+    flash('ok', "Experiments saved")
+  }
+
+  const handleStart = async () => {
+    if (!selected) return
+    const error = validate(selected)
+    if (error) {
+      flash('err', error)
+      return
+    }
+    const running = experiments.find((e) => e.id === activeId && !e.endedAt)
+    if (running && !confirm(`Stop "${running.name}" and start this experiment instead?`)) return
+
+    const now = Date.now()
+    const next = experiments.map((e) => {
+      if (e.id === selected.id) return { ...e, startedAt: now }
+      if (running && e.id === running.id) return { ...e, endedAt: now }
+      return e
+    })
+    await persist(next, selected.id)
+    flash('ok', "Experiment started. New drafts are split between its variants.")
+  }
+
+  const handleStop = async () => {
+    if (!selected || !confirm(`Stop "${selected.name}"? Its results stay available.`)) return
+    await persist(experiments.map((e) => (e.id === selected.id ? { ...e, endedAt: Date.now() } : e)), null)
+    flash('ok', "Experiment stopped")
+  }
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete "${selected.name}"? Messages keep their variant tags.`)) return
+    const remaining = experiments.filter((e) => e.id !== selected.id)
+    await persist(remaining, isRunning ? null : activeId)
+    setSelectedId(remaining[0]?.id || null)
+  }
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">A/B Experiments</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Each profile is assigned to one variant for good. Reply rates show on the popup dashboard.
+          </p>
+        </div>
+        <button onClick={handleAdd} className="btn-secondary px-3 py-2 text-xs">New Experiment</button>
+      </div>
+
+      {experiments.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">No experiments yet.</p>
+      ) : (
+        <div className="flex gap-2 flex-wrap">
+          {experiments.map((e) => (
+            <button
+              key={e.id}
+              onClick={() => setSelectedId(e.id)}
+              className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${e.id === selectedId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}>
+              {e.name || "Untitled"}{e.id === activeId && !e.endedAt ? " (running)" : e.endedAt ? " (ended)" : ""}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <>
+          <div className="space-y-2">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Name</label>
+            <input
+              value={selected.name}
+              onChange={(e) => updateSelected((x) => ({ ...x, name: e.target.value }))}
+              className="input-field"
+            />
+          </div>
+
+          {isLocked && (
+            <p className="text-xs text-slate-500 font-medium">
+              Variants are fixed once an experiment has started. Create a new experiment to test other variants.
+            </p>
+          )}
+
+          <div className="space-y-3">
+            {selected.variants.map((variant, index) => (
+              <div key={variant.id} className="border border-slate-200 rounded-xl p-4 grid grid-cols-3 gap-3 items-center">
+                <input
+                  value={variant.name}
+                  onChange={(e) => updateVariant(index, { name: e.target.value })}
+                  className="input-field text-xs"
+                />
+                <select
+                  value={variant.promptProfileId || ""}
+                  disabled={isLocked}
+                  onChange={(e) => updateVariant(index, { promptProfileId: e.target.value || undefined })}
+                  className="input-field text-xs">
+                  <option value="">No prompt override</option>
+                  {promptProfiles.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={variant.templateId || ""}
+                    disabled={isLocked}
+                    onChange={(e) => updateVariant(index, { templateId: e.target.value || undefined })}
+                    className="input-field text-xs">
+                    <option value="">No template</option>
+                    {library.map((t) => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                  {!isLocked && selected.variants.length > 2 && (
+                    <button
+                      onClick={() => updateSelected((x) => ({ ...x, variants: x.variants.filter((_, i) => i !== index) }))}
+                      className="text-[10px] font-black uppercase text-rose-600 hover:text-rose-800">
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {!isLocked && (
+              <button
+                onClick={() => updateSelected((x) => ({
+                  ...x,
+                  variants: [...x.variants, createExperimentVariant(String.fromCharCode(65 + x.variants.length))]
+                }))}
+                className="btn-secondary px-4 py-2 text-xs">
+                Add Variant
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="pt-2 flex items-center gap-3">
+        <button onClick={handleSave} className="btn-primary px-6 py-2.5">Save Experiments</button>
+        {selected && !selected.startedAt && (
+          <button onClick={handleStart} className="btn-secondary px-4 py-2.5 text-xs">Start</button>
+        )}
+        {isRunning && (
+          <button onClick={handleStop} className="btn-secondary px-4 py-2.5 text-xs">Stop</button>
+        )}
+        {selected && (
+          <button onClick={handleDelete} className="ml-auto text-xs font-black uppercase tracking-widest text-rose-600 hover:text-rose-800">
+            Delete Experiment
+          </button>
+        )}
+      </div>
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
+
+function MessageCheckSection() {
+  const [config, setConfig] = useState<MessageCheckSettings>(DEFAULT_MESSAGE_CHECKS)
+  const [bannedText, setBannedText] = useState("")
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    getAutomationSettings().then((s) => {
+      const checks = getCheckSettings(s)
+      setConfig(checks)
+      setBannedText(checks.bannedPhrases.join("\n"))
+    })
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const setAction = (rule: MessageCheckRule, action: MessageCheckAction) => {
+    setConfig({ ...config, actions: { ...config.actions, [rule]: action } })
+  }
+
+  const handleSave = async () => {
+    if (config.minLength < 0 || config.maxLength <= config.minLength) {
+      flash('err', "The maximum length must be above the minimum")
+      return
+    }
+    const next: MessageCheckSettings = {
+      ...config,
+      bannedPhrases: bannedText.split("\n").map((p) => p.trim()).filter(Boolean)
+    }
+    const current = await getAutomationSettings()
+    await saveAutomationSettings({ ...current, messageChecks: next })
+    setConfig(next)
+    flash('ok', "Checks saved")
+  }
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div>
+        <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Pre-send Checks</h2>
+        <p className="text-xs text-slate-500 font-medium mt-1">
+          Run on every message before it is sent. Blocked messages are recorded as failed; flagged ones are sent and marked.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {(Object.keys(MESSAGE_CHECK_RULES) as MessageCheckRule[]).map((rule) => (
+          <div key={rule} className="flex items-center justify-between gap-4">
+            <span className="text-sm text-slate-600 font-medium">{MESSAGE_CHECK_RULES[rule]}</span>
+            <select
+              value={config.actions[rule]}
+              onChange={(e) => setAction(rule, e.target.value as MessageCheckAction)}
+              className="input-field text-xs w-32">
+              <option value="block">Block</option>
+              <option value="flag">Flag</option>
+              <option value="off">Off</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Min Length</label>
+          <input
+            type="number"
+            min={0}
+            value={config.minLength}
+            onChange={(e) => setConfig({ ...config, minLength: Number(e.target.value) })}
+            className="input-field"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Max Length</label>
+          <input
+            type="number"
+            min={1}
+            value={config.maxLength}
+            onChange={(e) => setConfig({ ...config, maxLength: Number(e.target.value) })}
+            className="input-field"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Duplicate at</label>
+          <input
+            type="number"
+            min={50}
+            max={100}
+            value={Math.round(config.duplicateThreshold * 100)}
+            onChange={(e) => setConfig({ ...config, duplicateThreshold: Number(e.target.value) / 100 })}
+            className="input-field"
+          />
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400 font-medium -mt-3">
+        Lengths are in characters. A message counts as a duplicate at this percent similarity to one of the last 100 sent.
+      </p>
+
+      <div className="space-y-2">
+        <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Banned Phrases</label>
+        <textarea
+          value={bannedText}
+          onChange={(e) => setBannedText(e.target.value)}
+          placeholder="One phrase per line"
+          rows={4}
+          className="input-field text-xs"
+        />
+      </div>
+
+      <div className="pt-2 flex items-center gap-3">
+        <button onClick={handleSave} className="btn-primary px-6 py-2.5">Save Checks</button>
+        {status && (
+          <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+        )}
+      </div>
+    </section>
+  )
+}
+
+function DoNotContactSection() {
+  const [entries, setEntries] = useState<SuppressionEntry[]>([])
+  const [urlInput, setUrlInput] = useState("")
+  const [emailInput, setEmailInput] = useState("")
+  const [noteInput, setNoteInput] = useState("")
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    getSuppressionList().then(setEntries)
+
+    const listener = (changes: any, area: string) => {
+      if (area === "local" && changes.suppressionList) setEntries(changes.suppressionList.newValue || [])
+    }
+    chrome.storage.onChanged.addListener(listener)
+    return () => chrome.storage.onChanged.removeListener(listener)
+  }, [])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const handleAdd = async () => {
+    const profileUrl = urlInput.trim()
+    const email = emailInput.trim()
+    if (!profileUrl && !email) {
+      flash('err', "Enter a profile URL, an email, or both")
+      return
+    }
+    if (profileUrl) {
+      try {
+        new URL(profileUrl)
+      } catch {
+        flash('err', "The profile URL is not a valid URL")
+        return
+      }
+    }
+    await addSuppression({ profileUrl: profileUrl || undefined, email: email || undefined }, "manual", noteInput.trim() || undefined)
+    setUrlInput("")
+    setEmailInput("")
+    setNoteInput("")
+    flash('ok', "Added to the do-not-contact list")
+  }
+
+  const handleRemove = async (entry: SuppressionEntry) => {
+    const label = entry.name || entry.profileUrl || entry.email
+    if (!confirm(`Remove ${label} from the do-not-contact list? They can be collected and messaged again.`)) return
+    await removeSuppression(entry.id)
+  }
+
+  const sorted = [...entries].sort((a, b) => b.addedAt - a.addedAt)
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div>
+        <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Do Not Contact</h2>
+        <p className="text-xs text-slate-500 font-medium mt-1">
+          Listed people are never collected or messaged. Replies like "not interested" or "stop" add the sender automatically.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          value={urlInput}
+          onChange={(e) => setUrlInput(e.target.value)}
+          placeholder="Profile URL"
+          className="input-field text-xs"
+        />
+        <input
+          value={emailInput}
+          onChange={(e) => setEmailInput(e.target.value)}
+          placeholder="Email"
+          className="input-field text-xs"
+        />
+        <input
+          value={noteInput}
+          onChange={(e) => setNoteInput(e.target.value)}
+          placeholder="Note (optional)"
+          className="input-field text-xs col-span-2"
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <button onClick={handleAdd} className="btn-secondary px-4 py-2 text-xs">Add to List</button>
+        {status && (
+          <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+        )}
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">Nobody is on the list.</p>
+      ) : (
+        <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl max-h-80 overflow-y-auto">
+          {sorted.map((entry) => (
+            <div key={entry.id} className="px-4 py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">{entry.name || entry.profileUrl || entry.email}</p>
+                <p className="text-[11px] text-slate-400 font-medium truncate">
+                  {[entry.name && entry.profileUrl, entry.email].filter(Boolean).join(" • ")}
+                </p>
+                <p className="text-[11px] text-slate-500 font-medium">
+                  {entry.reason === "opt_out" ? "Opted out" : "Added manually"} • {new Date(entry.addedAt).toLocaleDateString()}
+                  {entry.note && ` • ${entry.note}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRemove(entry)}
+                className="text-[10px] font-black uppercase text-rose-600 hover:text-rose-800 shrink-0">
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
+
+function ProfileCsvSection() {
+  const [rows, setRows] = useState<string[][] | null>(null)
+  const [fileName, setFileName] = useState("")
+  const [mapping, setMapping] = useState<ProfileCsvMapping>({})
+  const [preview, setPreview] = useState<ProfileCsvImportResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    if (!rows) {
+      setPreview(null)
+      return
+    }
+    readCsvProfiles(rows, mapping).then(setPreview)
+  }, [rows, mapping])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const handleFile = async (file: File) => {
+    const parsed = parseCsv(await file.text())
+    if (parsed.length < 2) {
+      flash('err', "The file needs a header row and at least one profile")
+      return
+    }
+    setRows(parsed)
+    setFileName(file.name)
+    setMapping(guessCsvMapping(parsed[0]))
+  }
+
+  const handleImport = async () => {
+    if (!rows) return
+    setIsBusy(true)
+    try {
+      const result = await importCsvProfiles(rows, mapping)
+      setRows(null)
+      flash('ok', `Imported ${result.profiles.length} profiles`)
+    } catch (error) {
+      flash('err', error instanceof Error ? error.message : "Import failed")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const canImport = mapping.name !== undefined && mapping.profileUrl !== undefined && (preview?.profiles.length || 0) > 0
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Import Profiles from CSV</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Each row needs a name and a profile URL. Rows matching a stored profile's ID or URL, or the do-not-contact list, are skipped.
+          </p>
+        </div>
+        <label className="btn-secondary px-3 py-2 text-xs cursor-pointer shrink-0">
+          Choose CSV
+          <input
+            type="file"
+            accept="text/csv,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ""
+            }}
+          />
+        </label>
+      </div>
+
+      {rows && (
+        <div className="space-y-4 bg-slate-50 border border-slate-100 rounded-xl p-4">
+          <p className="text-xs text-slate-500 font-medium">{fileName} • {rows.length - 1} rows</p>
+          <div className="grid grid-cols-2 gap-3">
+            {PROFILE_CSV_IMPORT_FIELDS.map((field) => (
+              <div key={field} className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">
+                  {PROFILE_CSV_COLUMNS[field]}{(field === "name" || field === "profileUrl") && " *"}
+                </label>
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === "" ? undefined : Number(e.target.value) })}
+                  className="input-field text-xs">
+                  <option value="">Not imported</option>
+                  {rows[0].map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-400 font-medium">
+            Countries are matched to the known list, interests to the built-in categories, and the age group is worked out from the age. Without an ID column, IDs come from the profile URL.
+          </p>
+
+          {preview && (
+            <div className="text-xs text-slate-600 font-medium space-y-1">
+              <p>
+                {preview.profiles.length} new • {preview.duplicates} already stored or repeated • {preview.suppressed} on the do-not-contact list • {preview.invalid.length} invalid
+              </p>
+              {preview.invalid.slice(0, 5).map((problem) => (
+                <p key={problem.row} className="text-rose-600">Row {problem.row}: {problem.reason}</p>
+              ))}
+              {preview.invalid.length > 5 && <p className="text-rose-600">and {preview.invalid.length - 5} more</p>}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button onClick={handleImport} disabled={isBusy || !canImport} className="btn-primary px-4 py-2 text-xs">
+              {isBusy ? "Importing..." : `Import ${preview?.profiles.length || 0} Profiles`}
+            </button>
+            <button onClick={() => setRows(null)} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
+
+function BackupSection() {
+  const [backup, setBackup] = useState<Backup | null>(null)
+  const [fileName, setFileName] = useState("")
+  const [mode, setMode] = useState<BackupImportMode>("merge")
+  const [policy, setPolicy] = useState<ProfileConflictPolicy>("keep_newer")
+  const [preview, setPreview] = useState<BackupPreview | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: 'ok' | 'err', msg: string } | null>(null)
+
+  useEffect(() => {
+    if (!backup) {
+      setPreview(null)
+      return
+    }
+    previewBackupImport(backup, mode, policy).then(setPreview)
+  }, [backup, mode, policy])
+
+  const flash = (type: 'ok' | 'err', msg: string) => {
+    setStatus({ type, msg })
+    setTimeout(() => setStatus(null), 4000)
+  }
+
+  const handleExport = async () => {
+    const created = await createBackup()
+    downloadJson(`automated-messaging-backup-${created.exportedAt.slice(0, 10)}.json`, serializeBackup(created))
+  }
+
+  const handleFile = async (file: File) => {
+    try {
+      setBackup(parseBackup(JSON.parse(await file.text())))
+      setFileName(file.name)
+    } catch (error) {
+      setBackup(null)
+      flash('err', error instanceof Error ? error.message : "Invalid backup file")
+    }
+  }
+
+  const handleImport = async () => {
+    if (!backup) return
+    if (mode === "replace" && !confirm("Replace all stored profiles, messages and settings with this backup?")) return
+    setIsBusy(true)
+    try {
+      const result = await importBackup(backup, mode, policy)
+      // Rebuild the delivery service so it rereads settings and stats
+      chrome.runtime.sendMessage({ action: "updateApiKey" })
+      setBackup(null)
+      flash('ok', `Imported ${result.profiles.added} new profiles and ${result.messages.added} messages`)
+    } catch (error) {
+      flash('err', error instanceof Error ? error.message : "Import failed")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <section className="card p-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-black text-slate-800 uppercase tracking-tight">Backup</h2>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            Profiles, conversations, templates, sequences, experiments, the do-not-contact list and settings in one file. API keys are never exported.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="btn-secondary px-3 py-2 text-xs">Export</button>
+          <label className="btn-secondary px-3 py-2 text-xs cursor-pointer">
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleFile(file)
+                e.target.value = ""
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {backup && (
+        <div className="space-y-4 bg-slate-50 border border-slate-100 rounded-xl p-4">
+          <p className="text-xs text-slate-500 font-medium">
+            {fileName} • exported {backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : "at an unknown time"}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Mode</label>
+              <select value={mode} onChange={(e) => setMode(e.target.value as BackupImportMode)} className="input-field text-xs">
+                <option value="merge">Merge into current data</option>
+                <option value="replace">Replace current data</option>
+              </select>
+            </div>
+            {mode === "merge" && (
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Same profile in both</label>
+                <select value={policy} onChange={(e) => setPolicy(e.target.value as ProfileConflictPolicy)} className="input-field text-xs">
+                  <option value="keep_newer">Keep the more recently active</option>
+                  <option value="keep_existing">Keep mine</option>
+                  <option value="use_imported">Use the backup's</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {preview && (
+            <div className="text-xs text-slate-600 font-medium space-y-1">
+              <p>
+                Profiles: {preview.profiles.added} new, {preview.profiles.conflicting} different, {preview.profiles.unchanged} unchanged
+                {preview.mode === "replace" && `, ${preview.profiles.removed} removed`}
+              </p>
+              <p>
+                Messages: {preview.messages.added} new{preview.mode === "replace" && `, ${preview.messages.removed} removed`}
+              </p>
+              <p>
+                Templates, sequences, experiments and do-not-contact entries: {preview.items.added} new
+                {preview.mode === "replace" && `, ${preview.items.removed} removed`}
+              </p>
+              <p>{preview.replacesSettings ? "Settings and filters are replaced; API keys and the automation switch stay as they are." : "Settings and filters stay as they are."}</p>
+              {preview.mode === "merge" && preview.conflicts.length > 0 && (
+                <p className="text-amber-700">
+                  Differ from the backup: {preview.conflicts.slice(0, 10).map((c) => c.name).join(", ")}
+                  {preview.conflicts.length > 10 && ` and ${preview.conflicts.length - 10} more`}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button onClick={handleImport} disabled={isBusy || !preview} className="btn-primary px-4 py-2 text-xs">
+              {isBusy ? "Importing..." : mode === "replace" ? "Replace Data" : "Merge Data"}
+            </button>
+            <button onClick={() => setBackup(null)} className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-slate-600">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <p className={`text-sm font-bold ${status.type === 'ok' ? 'text-emerald-600' : 'text-rose-600'}`}>{status.msg}</p>
+      )}
+    </section>
+  )
+}
 
 function IndexOptions() {
   const [settings, setSettings] = useState<AutomationSettings | null>(null)
+  const [providerId, setProviderId] = useState<LLMProviderId>("openai")
   const [apiKeyInput, setApiKeyInput] = useState("")
+  const [baseUrlInput, setBaseUrlInput] = useState("")
   const [senderNameInput, setSenderNameInput] = useState("")
   const [saveStatus, setSaveStatus] = useState<string | null>(null)
   const [isResetting, setIsResetting] = useState(false)
 
+  const loadProvider = (s: AutomationSettings, id: LLMProviderId) => {
+    setProviderId(id)
+    setApiKeyInput(getProviderSettings(s, id).apiKey || "")
+    setBaseUrlInput(getProviderSettings(s, id).baseUrl || "")
+  }
+
   useEffect(() => {
     getAutomationSettings().then((s) => {
       setSettings(s)
-      setApiKeyInput(s.openaiApiKey || "")
+      loadProvider(s, getProviderId(s))
       setSenderNameInput(s.senderName || "")
     })
   }, [])
 
   const handleSave = async () => {
     if (!settings) return
+    // Sections below save their own parts of the settings; start from what is stored now
+    const current = await getAutomationSettings()
     const updated = {
-      ...settings,
-      openaiApiKey: apiKeyInput.trim(),
+      ...current,
+      provider: providerId,
+      providers: {
+        ...current.providers,
+        [providerId]: {
+          ...getProviderSettings(current, providerId),
+          apiKey: apiKeyInput.trim() || undefined,
+          baseUrl: baseUrlInput.trim() || undefined
+        }
+      },
       senderName: senderNameInput.trim()
     }
     await saveAutomationSettings(updated)
-    if (updated.openaiApiKey) initializeOpenAI(updated.openaiApiKey)
+    setSettings(updated)
     setSaveStatus("Settings saved successfully")
     setTimeout(() => setSaveStatus(null), 3000)
   }
@@ -58,16 +1678,46 @@ function IndexOptions() {
         <main className="grid grid-cols-1 gap-6">
           <section className="card p-8 space-y-6">
             <div className="space-y-2">
-              <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">OpenAI API Key</label>
-              <input
-                type="password"
-                value={apiKeyInput}
-                onChange={(e) => setApiKeyInput(e.target.value)}
-                className="input-field py-3 text-lg"
-                placeholder="sk-..."
-              />
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">AI Provider</label>
+              <select
+                value={providerId}
+                onChange={(e) => loadProvider(settings, e.target.value as LLMProviderId)}
+                className="input-field py-3">
+                {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map((id) => (
+                  <option key={id} value={id}>{LLM_PROVIDERS[id].label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 font-medium">Pick the model from the popup's Settings tab.</p>
             </div>
 
+            {LLM_PROVIDERS[providerId].needsBaseUrl && (
+              <div className="space-y-2">
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Base URL</label>
+                <input
+                  type="text"
+                  value={baseUrlInput}
+                  onChange={(e) => setBaseUrlInput(e.target.value)}
+                  className="input-field py-3 text-lg"
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+            )}
+
+            {providerId !== "mock" && (
+              <div className="space-y-2">
+                <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">
+                  {LLM_PROVIDERS[providerId].label} API Key{LLM_PROVIDERS[providerId].needsApiKey ? "" : " (optional)"}
+                </label>
+                <input
+                  type="password"
+                  value={apiKeyInput}
+                  onChange={(e) => setApiKeyInput(e.target.value)}
+                  className="input-field py-3 text-lg"
+                  placeholder={providerId === "anthropic" ? "sk-ant-..." : "sk-..."}
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <label className="text-xs font-black text-slate-400 uppercase tracking-widest block">Sign-off Identity</label>
               <input
@@ -89,6 +1739,24 @@ function IndexOptions() {
             </div>
           </section>
 
+          <SelectorPackSection />
+
+          <PromptSection />
+
+          <TemplateLibrarySection />
+
+          <SequenceSection />
+
+          <ExperimentSection />
+
+          <MessageCheckSection />
+
+          <DoNotContactSection />
+
+          <ProfileCsvSection />
+
+          <BackupSection />
+
           <section className="card p-8 bg-rose-50/20 border-rose-100">
             <h2 className="text-sm font-black text-rose-700 uppercase tracking-tight mb-2">Danger Zone</h2>
             <p className="text-sm text-slate-500 mb-6 font-medium">Permanently clear all cached profiles, message history, and server credentials.</p>
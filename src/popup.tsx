@@ -5,7 +5,21 @@ import type {
   FilterSettings,
   CustomerProfile,
   MessageStats,
-  MessageHistory
+  DeliveryFailureReason,
+  CollectionQueue,
+  OutreachQueue,
+  EngineHeartbeat,
+  ReviewDraft,
+  Sequence,
+  ConversationStore,
+  ConversationThread,
+  LibraryTemplate,
+  MessageSource,
+  Experiment,
+  LLMProviderId,
+  ProfileCsvColumn,
+  ProviderSettings,
+  SuppressionEntry
 } from "~/types"
 import {
   getAutomationSettings,
@@ -13,18 +27,86 @@ import {
   getFilterSettings,
   saveFilterSettings,
   getProfiles,
-  getMessageHistory,
+  getProfile,
+  getConversations,
   getMessageStats,
+  getCollectionQueue,
+  getOutreachQueue,
+  getEngineHeartbeat,
+  getReviewInbox,
+  getSequences,
+  getTemplateLibrary,
+  getExperiments,
+  getSuppressionList,
   clearAllData
 } from "~/utils/storage"
-import { initializeOpenAI } from "~/services/openai"
+import {
+  createProvider,
+  getActiveModel,
+  getProviderId,
+  getProviderSettings,
+  isProviderConfigured
+} from "~/services/llmProviders"
 import { MessageDeliveryService } from "~/services/messageDelivery"
+import { getCollectionProgress } from "~/services/profileCollector"
+import { enrichProfile } from "~/services/profileEnrichment"
+import {
+  enqueueProfiles,
+  reorderItem,
+  setItemPaused,
+  setQueuePaused,
+  skipItem,
+  updateItemDraft
+} from "~/services/outreachQueue"
+import { editDraft, rejectDraft } from "~/services/reviewInbox"
+import { compareLeaders, computeExperimentResults } from "~/services/experiments"
+import { diversityScore } from "~/services/similarityIndex"
+import { findSuppression, profileKeys, removeSuppression, suppressProfile } from "~/services/suppression"
+import { profilesToCsv } from "~/services/profileCsv"
+import {
+  getNextStep,
+  markProfileReplied,
+  resumeSequence,
+  stopSequence
+} from "~/services/sequences"
 import { filterProfiles } from "~/utils/filter"
-import { COUNTRIES, AGE_GROUPS, INTERESTS, OPENAI_MODELS } from "~/utils/constants"
+import { getLowConfidenceFields } from "~/utils/confidence"
+import {
+  COUNTRIES,
+  AGE_GROUPS,
+  INTERESTS,
+  LLM_PROVIDERS,
+  MESSAGE_CHECK_RULES,
+  PROFILE_CSV_COLUMNS,
+  RATE_LIMIT_DEFAULTS,
+  DAY_MS
+} from "~/utils/constants"
 import { serializeProfile } from "~/utils/serialization"
+import { PROFILES_REVISION_KEY } from "~/utils/profileStore"
 import { createPortal } from "react-dom"
 
-type Tab = "dashboard" | "profiles" | "messages" | "settings"
+type Tab = "dashboard" | "profiles" | "queue" | "review" | "messages" | "settings"
+
+// Boolean settings switched straight from the Settings tab
+type ToggleSetting = "enrichProfiles" | "backfillInterests" | "messageVariation"
+
+const FAILURE_REASON_LABELS: Record<DeliveryFailureReason, string> = {
+  composer_not_found: "Composer not found",
+  submit_disabled: "Send disabled",
+  page_error: "Page error",
+  blocked_by_check: "Blocked by checks"
+}
+
+const DEFAULT_CSV_COLUMNS: ProfileCsvColumn[] = ["name", "email", "country", "ageGroup", "interests", "profileUrl", "messageCount"]
+
+function downloadCsv(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
 
 function formatDateTime(value: Date | string | number | null | undefined) {
   const d = value instanceof Date ? value : value ? new Date(value) : null
@@ -38,6 +120,40 @@ function formatDateTime(value: Date | string | number | null | undefined) {
   }).format(d)
 }
 
+function describeSequenceStatus(profile: CustomerProfile, sequence: Sequence | undefined): string {
+  if (profile.lastReplyAt) return `Replied ${formatDateTime(profile.lastReplyAt)}`
+  const state = profile.sequenceState
+  if (state?.stoppedReason === "manual") return "Stopped manually"
+  if (!sequence) return "No active sequence"
+  if (state?.sequenceId === sequence.id && state.stoppedReason === "completed") {
+    return `Completed ${sequence.name}`
+  }
+
+  const next = getNextStep(profile, sequence)
+  if (!next) return `Completed ${sequence.name}`
+  const label = `Step ${next.stepIndex + 1} of ${sequence.steps.length}`
+  return next.dueAt <= Date.now() ? `${label} due now` : `${label} due ${formatDateTime(next.dueAt)}`
+}
+
+/**
+ * Template-only drafting doesn't need an AI provider
+ */
+function canDraft(settings: AutomationSettings | null): boolean {
+  if (!settings) return false
+  return isProviderConfigured(settings) || (settings.messageSource === "template" && Boolean(settings.templateId))
+}
+
+function withProviderSettings(
+  settings: AutomationSettings,
+  patch: Partial<ProviderSettings>,
+  id: LLMProviderId = getProviderId(settings)
+): AutomationSettings {
+  return {
+    ...settings,
+    providers: { ...settings.providers, [id]: { ...getProviderSettings(settings, id), ...patch } }
+  }
+}
+
 function IndexPopup() {
   const [activeTab, setActiveTab] = useState<Tab>("dashboard")
   const [automationSettings, setAutomationSettings] = useState<AutomationSettings | null>(null)
@@ -47,6 +163,8 @@ function IndexPopup() {
   const [stats, setStats] = useState<MessageStats | null>(null)
   const [messageDelivery, setMessageDelivery] = useState<MessageDeliveryService | null>(null)
   const [apiKeyInput, setApiKeyInput] = useState("")
+  const [baseUrlInput, setBaseUrlInput] = useState("")
+  const [isListingModels, setIsListingModels] = useState(false)
   const [senderNameInput, setSenderNameInput] = useState("")
   const [showApiKey, setShowApiKey] = useState(false)
   const [saveStatus, setSaveStatus] = useState<string | null>(null)
@@ -54,11 +172,21 @@ function IndexPopup() {
   const [resetStatus, setResetStatus] = useState<string | null>(null)
   const [isCollecting, setIsCollecting] = useState(false)
   const [collectionStatus, setCollectionStatus] = useState<{ type: 'ok' | 'err' | 'info', msg: string } | null>(null)
+  const [foundProfileUrls, setFoundProfileUrls] = useState<string[]>([])
+  const [collectionQueue, setCollectionQueue] = useState<CollectionQueue | null>(null)
+  const [outreachQueue, setOutreachQueue] = useState<OutreachQueue>({ items: [], paused: false })
+  const [heartbeat, setHeartbeat] = useState<EngineHeartbeat | null>(null)
+  const [reviewInbox, setReviewInbox] = useState<ReviewDraft[]>([])
+  const [sequences, setSequences] = useState<Sequence[]>([])
+  const [templateLibrary, setTemplateLibrary] = useState<LibraryTemplate[]>([])
+  const [experiments, setExperiments] = useState<Experiment[]>([])
+  const [suppressionList, setSuppressionList] = useState<SuppressionEntry[]>([])
   const [isSending, setIsSending] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [draftMessage, setDraftMessage] = useState<string | null>(null)
   const [sendStatus, setSendStatus] = useState<{ type: 'ok' | 'err' | 'info', msg: string } | null>(null)
-  const [messageHistory, setMessageHistory] = useState<MessageHistory[]>([])
+  const [conversations, setConversations] = useState<ConversationStore>({})
   const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null)
   const [modalProfile, setModalProfile] = useState<CustomerProfile | null>(null)
   const [isModalOpen, setIsModalOpen] = useState(false)
@@ -71,11 +199,35 @@ function IndexPopup() {
       if (area === "local" && changes.messageStats) {
         setStats(changes.messageStats.newValue)
       }
-      if (area === "local" && changes.messageHistory) {
-        setMessageHistory(changes.messageHistory.newValue)
+      if (area === "local" && changes.conversations) {
+        setConversations(changes.conversations.newValue || {})
+      }
+      if (area === "local" && changes[PROFILES_REVISION_KEY]) {
+        getProfiles().then(setProfiles)
+      }
+      if (area === "local" && changes.collectionQueue) {
+        setCollectionQueue(changes.collectionQueue.newValue || null)
+      }
+      if (area === "local" && changes.engineHeartbeat) {
+        setHeartbeat(changes.engineHeartbeat.newValue || null)
+      }
+      if (area === "local" && changes.outreachQueue) {
+        setOutreachQueue(changes.outreachQueue.newValue || { items: [], paused: false })
       }
-      if (area === "local" && changes.profiles) {
-        setProfiles(changes.profiles.newValue)
+      if (area === "local" && changes.reviewInbox) {
+        setReviewInbox(changes.reviewInbox.newValue || [])
+      }
+      if (area === "local" && changes.sequences) {
+        getSequences().then(setSequences)
+      }
+      if (area === "local" && changes.templateLibrary) {
+        setTemplateLibrary(changes.templateLibrary.newValue || [])
+      }
+      if (area === "local" && changes.experiments) {
+        setExperiments(changes.experiments.newValue || [])
+      }
+      if (area === "local" && changes.suppressionList) {
+        setSuppressionList(changes.suppressionList.newValue || [])
       }
     }
     chrome.storage.onChanged.addListener(listener)
@@ -84,7 +236,7 @@ function IndexPopup() {
 
   useEffect(() => {
     if (activeTab === "messages") {
-      getMessageHistory().then(setMessageHistory)
+      getConversations().then(setConversations)
     }
   }, [activeTab])
 
@@ -105,19 +257,36 @@ function IndexPopup() {
   }, [profiles, filterSettings])
 
   async function loadData() {
-    const [settings, filters, profileList, history, currentStats] = await Promise.all([
+    const [settings, filters, profileList, threads, currentStats, queue, outreach, engineHeartbeat, inbox, sequenceList, library, experimentList, suppressed] = await Promise.all([
       getAutomationSettings(),
       getFilterSettings(),
       getProfiles(),
-      getMessageHistory(),
-      getMessageStats()
+      getConversations(),
+      getMessageStats(),
+      getCollectionQueue(),
+      getOutreachQueue(),
+      getEngineHeartbeat(),
+      getReviewInbox(),
+      getSequences(),
+      getTemplateLibrary(),
+      getExperiments(),
+      getSuppressionList()
     ])
     setAutomationSettings(settings)
     setFilterSettings(filters)
     setProfiles(profileList)
-    setMessageHistory(history)
+    setConversations(threads)
     setStats(currentStats)
-    setApiKeyInput(settings.openaiApiKey || "")
+    setCollectionQueue(queue)
+    setOutreachQueue(outreach)
+    setHeartbeat(engineHeartbeat)
+    setReviewInbox(inbox)
+    setSequences(sequenceList)
+    setTemplateLibrary(library)
+    setExperiments(experimentList)
+    setSuppressionList(suppressed)
+    setApiKeyInput(getProviderSettings(settings).apiKey || "")
+    setBaseUrlInput(getProviderSettings(settings).baseUrl || "")
     setSenderNameInput(settings.senderName || "")
   }
 
@@ -126,19 +295,20 @@ function IndexPopup() {
     const updated = { ...automationSettings, enabled: !automationSettings.enabled }
     setAutomationSettings(updated)
     await saveAutomationSettings(updated)
-    if (updated.enabled && updated.openaiApiKey) {
-      initializeOpenAI(updated.openaiApiKey)
-    }
   }
 
   async function handleSaveApiKey() {
     if (!automationSettings) return
-    const trimmedKey = apiKeyInput.trim()
-    const trimmedName = senderNameInput.trim()
-    const updated = { ...automationSettings, openaiApiKey: trimmedKey, senderName: trimmedName }
+    const updated = {
+      ...withProviderSettings(automationSettings, {
+        apiKey: apiKeyInput.trim() || undefined,
+        baseUrl: baseUrlInput.trim() || undefined
+      }),
+      senderName: senderNameInput.trim()
+    }
     setAutomationSettings(updated)
     await saveAutomationSettings(updated)
-    if (trimmedKey) initializeOpenAI(trimmedKey)
+    if (messageDelivery) messageDelivery.updateSettings(updated)
     setSaveStatus("Settings updated successfully")
     setTimeout(() => setSaveStatus(null), 3000)
   }
@@ -156,12 +326,107 @@ function IndexPopup() {
 
   async function handleModelChange(model: string) {
     if (!automationSettings) return
-    const updated = { ...automationSettings, openaiModel: model }
+    const updated = withProviderSettings(automationSettings, { model })
+    setAutomationSettings(updated)
+    await saveAutomationSettings(updated)
+    if (messageDelivery) messageDelivery.updateSettings(updated)
+  }
+
+  async function handleProviderChange(provider: LLMProviderId) {
+    if (!automationSettings) return
+    const updated = { ...automationSettings, provider }
+    setAutomationSettings(updated)
+    setApiKeyInput(getProviderSettings(updated).apiKey || "")
+    setBaseUrlInput(getProviderSettings(updated).baseUrl || "")
+    await saveAutomationSettings(updated)
+    if (messageDelivery) messageDelivery.updateSettings(updated)
+  }
+
+  async function handleRefreshModels() {
+    if (!automationSettings) return
+    setIsListingModels(true)
+    try {
+      const models = await createProvider(automationSettings).listModels()
+      const updated = withProviderSettings(automationSettings, { models })
+      setAutomationSettings(updated)
+      await saveAutomationSettings(updated)
+      setSaveStatus(`Found ${models.length} models`)
+    } catch (error) {
+      setSaveStatus(`Could not list models: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setIsListingModels(false)
+      setTimeout(() => setSaveStatus(null), 4000)
+    }
+  }
+
+  async function handleIgnoreLowConfidenceChange(value: boolean) {
+    if (!automationSettings) return
+    const updated = { ...automationSettings, ignoreLowConfidenceFields: value }
+    setAutomationSettings(updated)
+    await saveAutomationSettings(updated)
+    if (messageDelivery) messageDelivery.updateSettings(updated)
+  }
+
+  async function handleSettingToggle(field: ToggleSetting, value: boolean) {
+    if (!automationSettings) return
+    const updated = { ...automationSettings, [field]: value }
     setAutomationSettings(updated)
     await saveAutomationSettings(updated)
     if (messageDelivery) messageDelivery.updateSettings(updated)
   }
 
+  async function handleActiveSequenceChange(sequenceId: string) {
+    if (!automationSettings) return
+    const updated = { ...automationSettings, activeSequenceId: sequenceId }
+    setAutomationSettings(updated)
+    await saveAutomationSettings(updated)
+  }
+
+  async function handleSequenceAction(profile: CustomerProfile, action: "replied" | "stop" | "resume") {
+    if (action === "replied") await markProfileReplied(profile.id)
+    if (action === "stop") await stopSequence(profile.id, "manual")
+    if (action === "resume") await resumeSequence(profile.id)
+    const updated = await getProfile(profile.id)
+    if (updated) setModalProfile(updated)
+  }
+
+  async function handleDoNotContact(profile: CustomerProfile, suppressed?: SuppressionEntry) {
+    if (suppressed) {
+      await removeSuppression(suppressed.id)
+      return
+    }
+    if (!confirm(`Never contact ${profile.name} again? Queued messages to them are dropped.`)) return
+    await suppressProfile(profile, "manual")
+  }
+
+  async function handleAnalyzeProfile(profile: CustomerProfile) {
+    if (!automationSettings) return
+    setIsAnalyzing(true)
+    setSendStatus(null)
+    try {
+      const updated = await enrichProfile(profile.id, automationSettings, true)
+      if (updated) setModalProfile(updated)
+    } catch (error) {
+      setSendStatus({ type: 'err', msg: `Analysis failed: ${error instanceof Error ? error.message : "Unknown error"}` })
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }
+
+  async function handleMessageSourceChange(messageSource: MessageSource, templateId?: string) {
+    if (!automationSettings) return
+    const updated = { ...automationSettings, messageSource, templateId }
+    setAutomationSettings(updated)
+    await saveAutomationSettings(updated)
+  }
+
+  async function handleModeChange(mode: AutomationSettings["mode"]) {
+    if (!automationSettings) return
+    const updated = { ...automationSettings, mode }
+    setAutomationSettings(updated)
+    await saveAutomationSettings(updated)
+  }
+
   async function handleResetExtension() {
     if (!confirm("Are you sure you want to reset all data? This cannot be undone.")) return
     setIsResetting(true)
@@ -196,12 +461,36 @@ function IndexPopup() {
     }
   }
 
+  async function handleScanReplies() {
+    setIsCollecting(true)
+    setCollectionStatus({ type: 'info', msg: "Reading Startup School inbox..." })
+    try {
+      const response = await chrome.runtime.sendMessage({ action: "scanInbox" })
+      if (response?.success) {
+        setCollectionStatus({
+          type: 'ok',
+          msg: response.newReplies > 0
+            ? `${response.newReplies} new replies found; outreach to them stopped`
+            : `No new replies in ${response.threads} threads`
+        })
+      } else {
+        setCollectionStatus({ type: 'err', msg: response?.error || "Inbox scan failed" })
+      }
+    } catch (error) {
+      setCollectionStatus({ type: 'err', msg: "Connection error" })
+    } finally {
+      setIsCollecting(false)
+      setTimeout(() => setCollectionStatus(null), 4000)
+    }
+  }
+
   async function handleExtractProfileUrls() {
     setIsCollecting(true)
     setCollectionStatus({ type: 'info', msg: "Searching for profiles..." })
     try {
       const response = await chrome.runtime.sendMessage({ action: "extractProfileUrls" })
       if (response.success && response.urls) {
+        setFoundProfileUrls(response.urls)
         setCollectionStatus({ type: 'ok', msg: `Found ${response.urls.length} profile links` })
       } else {
         setCollectionStatus({ type: 'err', msg: "No profiles found" })
@@ -214,9 +503,30 @@ function IndexPopup() {
     }
   }
 
+  async function handleCollectFoundProfiles() {
+    if (foundProfileUrls.length === 0) return
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "collectProfiles",
+        urls: foundProfileUrls
+      })
+      if (response?.success) {
+        setFoundProfileUrls([])
+      } else {
+        setCollectionStatus({ type: 'err', msg: response?.error || "Failed to start collection" })
+      }
+    } catch (error) {
+      setCollectionStatus({ type: 'err', msg: "Connection error" })
+    }
+  }
+
+  async function handleCancelCollection() {
+    await chrome.runtime.sendMessage({ action: "cancelCollection" })
+  }
+
   async function handleGenerateDraft(profile: CustomerProfile) {
-    if (!automationSettings?.openaiApiKey) {
-      setSendStatus({ type: 'err', msg: "Set OpenAI API key first" })
+    if (!canDraft(automationSettings)) {
+      setSendStatus({ type: 'err', msg: "Set up an AI provider in Settings first" })
       return
     }
     setModalProfile(profile)
@@ -244,8 +554,8 @@ function IndexPopup() {
   }
 
   async function handleSendTestMessage(profile?: CustomerProfile, overrideMessage?: string) {
-    if (!automationSettings?.openaiApiKey) {
-      setSendStatus({ type: 'err', msg: "Set OpenAI API key first" })
+    if (!canDraft(automationSettings)) {
+      setSendStatus({ type: 'err', msg: "Set up an AI provider in Settings first" })
       return
     }
     const targetProfile = profile || filteredProfiles[0]
@@ -280,6 +590,22 @@ function IndexPopup() {
     }
   }
 
+  async function handleAddToQueue(profile: CustomerProfile, draft?: string | null) {
+    const next = activeSequence ? getNextStep(profile, activeSequence) : null
+    const added = await enqueueProfiles(
+      [profile],
+      automationSettings?.rateLimit.delayBetweenMessages || 60000,
+      draft ? { [profile.id]: { text: draft } } : {},
+      next ? { [profile.id]: { sequenceId: next.sequenceId, stepIndex: next.stepIndex } } : {}
+    )
+    setSendStatus(
+      added.length > 0
+        ? { type: 'ok', msg: `Queued ${profile.name}` }
+        : { type: 'info', msg: `${profile.name} is already queued` }
+    )
+    setTimeout(() => setSendStatus(null), 3000)
+  }
+
   async function handleFilterChange(field: keyof FilterSettings, value: any) {
     if (!filterSettings) return
     const updated = { ...filterSettings, [field]: value }
@@ -287,6 +613,10 @@ function IndexPopup() {
     await saveFilterSettings(updated)
   }
 
+  const activeSequence =
+    sequences.find((s) => s.id === automationSettings?.activeSequenceId) || sequences[0]
+  const modalSuppression = modalProfile ? findSuppression(suppressionList, profileKeys(modalProfile)) : undefined
+
   if (!automationSettings || !filterSettings) {
     return (
       <div className="w-[600px] h-[700px] flex items-center justify-center bg-slate-50">
@@ -315,7 +645,7 @@ function IndexPopup() {
         <div className="flex items-center gap-4">
           <div className="flex flex-col items-end">
             <span className={`text-[10px] uppercase font-black ${automationSettings.enabled ? 'text-emerald-500' : 'text-slate-300'}`}>
-              {automationSettings.enabled ? 'System Live' : 'Paused'}
+              {automationSettings.enabled ? (automationSettings.mode === 'review' ? 'Review Mode' : 'System Live') : 'Paused'}
             </span>
           </div>
           <button
@@ -332,7 +662,7 @@ function IndexPopup() {
 
       {/* Tabs / Navigation */}
       <nav className="bg-white px-6 py-2 border-b border-slate-200 overflow-x-auto scrollbar-hide flex gap-1 z-10">
-        {(["dashboard", "profiles", "messages", "settings"] as Tab[]).map((tab) => (
+        {(["dashboard", "profiles", "queue", "review", "messages", "settings"] as Tab[]).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -341,6 +671,11 @@ function IndexPopup() {
               : "text-slate-500 hover:text-slate-800 hover:bg-slate-50"
               }`}>
             {tab}
+            {tab === "review" && reviewInbox.some((d) => d.status === "pending") && (
+              <span className="ml-1.5 px-1.5 py-0.5 rounded-full bg-indigo-600 text-white text-[9px] font-black">
+                {reviewInbox.filter((d) => d.status === "pending").length}
+              </span>
+            )}
           </button>
         ))}
       </nav>
@@ -351,6 +686,12 @@ function IndexPopup() {
           {activeTab === "dashboard" && (
             <DashboardTab
               stats={stats}
+              experiment={
+                experiments.find((e) => e.id === automationSettings.activeExperimentId) ||
+                [...experiments].filter((e) => e.startedAt).sort((a, b) => b.startedAt! - a.startedAt!)[0]
+              }
+              conversations={conversations}
+              heartbeat={heartbeat}
               automationSettings={automationSettings}
               filteredProfiles={filteredProfiles}
               totalProfiles={profiles.length}
@@ -361,6 +702,11 @@ function IndexPopup() {
               sendStatus={sendStatus}
               onCollectCurrentProfile={handleCollectCurrentProfile}
               onExtractProfileUrls={handleExtractProfileUrls}
+              foundProfileUrls={foundProfileUrls}
+              collectionQueue={collectionQueue}
+              onCollectFoundProfiles={handleCollectFoundProfiles}
+              onCancelCollection={handleCancelCollection}
+              onScanReplies={handleScanReplies}
               onSendTestMessage={() => {
                 if (filteredProfiles[0]) {
                   handleGenerateDraft(filteredProfiles[0])
@@ -375,11 +721,16 @@ function IndexPopup() {
             <SettingsTab
               automationSettings={automationSettings}
               apiKeyInput={apiKeyInput}
+              baseUrlInput={baseUrlInput}
               senderNameInput={senderNameInput}
               showApiKey={showApiKey}
               saveStatus={saveStatus}
               resetStatus={resetStatus}
               onApiKeyChange={setApiKeyInput}
+              onBaseUrlChange={setBaseUrlInput}
+              onProviderChange={handleProviderChange}
+              onRefreshModels={handleRefreshModels}
+              isListingModels={isListingModels}
               onSenderNameChange={setSenderNameInput}
               onShowApiKeyChange={setShowApiKey}
               onSaveApiKey={handleSaveApiKey}
@@ -387,6 +738,13 @@ function IndexPopup() {
               isResetting={isResetting}
               onRateLimitChange={handleUpdateRateLimit}
               onModelChange={handleModelChange}
+              onIgnoreLowConfidenceChange={handleIgnoreLowConfidenceChange}
+              onSettingToggle={handleSettingToggle}
+              onModeChange={handleModeChange}
+              sequences={sequences}
+              onActiveSequenceChange={handleActiveSequenceChange}
+              templateLibrary={templateLibrary}
+              onMessageSourceChange={handleMessageSourceChange}
             />
           )}
 
@@ -411,12 +769,19 @@ function IndexPopup() {
             />
           )}
 
+          {activeTab === "queue" && (
+            <QueueTab queue={outreachQueue} />
+          )}
+
+          {activeTab === "review" && (
+            <ReviewTab drafts={reviewInbox} />
+          )}
+
           {activeTab === "messages" && (
             <MessagesTab
-              messageHistory={messageHistory}
+              conversations={conversations}
               selectedProfileId={selectedProfileId}
               onProfileSelect={setSelectedProfileId}
-              profiles={profiles}
             />
           )}
         </div>
@@ -461,6 +826,53 @@ function IndexPopup() {
                   </div>
                 </div>
 
+                <div className="bg-slate-50 p-3 rounded-xl border border-slate-100 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-[10px] uppercase font-black text-slate-400 mb-1">Sequence</p>
+                    <p className="text-sm font-semibold text-slate-700 truncate">{describeSequenceStatus(modalProfile, activeSequence)}</p>
+                  </div>
+                  <div className="flex gap-1 text-[10px] font-black uppercase shrink-0">
+                    {modalSuppression ? null : modalProfile.lastReplyAt || modalProfile.sequenceState?.stoppedReason ? (
+                      <button onClick={() => handleSequenceAction(modalProfile, "resume")} className="px-2 py-1 rounded hover:bg-indigo-50 text-indigo-600">Resume</button>
+                    ) : (
+                      <>
+                        <button onClick={() => handleSequenceAction(modalProfile, "replied")} className="px-2 py-1 rounded hover:bg-emerald-50 text-emerald-600">Mark Replied</button>
+                        <button onClick={() => handleSequenceAction(modalProfile, "stop")} className="px-2 py-1 rounded hover:bg-rose-50 text-rose-600">Stop</button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                <div className={`p-3 rounded-xl border flex items-center justify-between gap-3 ${modalSuppression ? "bg-rose-50 border-rose-100" : "bg-slate-50 border-slate-100"}`}>
+                  <div className="min-w-0">
+                    <p className={`text-[10px] uppercase font-black mb-1 ${modalSuppression ? "text-rose-700" : "text-slate-400"}`}>Do Not Contact</p>
+                    <p className={`text-[11px] font-medium truncate ${modalSuppression ? "text-rose-800" : "text-slate-500"}`} title={modalSuppression?.note}>
+                      {modalSuppression
+                        ? `${modalSuppression.reason === "opt_out" ? "Opted out" : "Added manually"} • ${formatDateTime(modalSuppression.addedAt)}`
+                        : "Not listed"}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDoNotContact(modalProfile, modalSuppression)}
+                    className={`px-2 py-1 rounded text-[10px] font-black uppercase shrink-0 ${modalSuppression ? "text-indigo-600 hover:bg-indigo-50" : "text-rose-600 hover:bg-rose-50"}`}>
+                    {modalSuppression ? "Allow Contact" : "Never Contact"}
+                  </button>
+                </div>
+
+                {getLowConfidenceFields(modalProfile).length > 0 && (
+                  <div className="p-3 bg-amber-50 border border-amber-100 rounded-xl space-y-1.5">
+                    <p className="text-[10px] uppercase font-black text-amber-700">Low-confidence fields</p>
+                    {getLowConfidenceFields(modalProfile).map((field) => (
+                      <p key={field} className="text-[11px] text-amber-800 font-medium flex justify-between gap-3">
+                        <span className="capitalize font-bold">{field}</span>
+                        <span className="truncate text-amber-600">
+                          {modalProfile.provenance![field]!.source} • {Math.round(modalProfile.provenance![field]!.confidence * 100)}%
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+
                 {modalProfile.interests && modalProfile.interests.length > 0 && (
                   <div className="space-y-2">
                     <p className="text-[10px] uppercase font-black text-slate-400">Interests</p>
@@ -474,6 +886,29 @@ function IndexPopup() {
                   </div>
                 )}
 
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <p className="text-[10px] uppercase font-black text-slate-400">Analysis</p>
+                    <button
+                      onClick={() => handleAnalyzeProfile(modalProfile)}
+                      disabled={isAnalyzing || !automationSettings || !isProviderConfigured(automationSettings)}
+                      className="text-[10px] font-black uppercase text-indigo-600 hover:underline disabled:opacity-50 disabled:no-underline">
+                      {isAnalyzing ? "Analyzing..." : modalProfile.enrichment ? "Re-analyze" : "Analyze"}
+                    </button>
+                  </div>
+                  {modalProfile.enrichment ? (
+                    <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-1.5">
+                      <p className="text-[11px] text-slate-600"><span className="font-bold">Tone:</span> {modalProfile.enrichment.tone}</p>
+                      {modalProfile.enrichment.keyPoints.map((point, idx) => (
+                        <p key={idx} className="text-[11px] text-slate-600">• {point}</p>
+                      ))}
+                      <p className="text-[10px] text-slate-400">{modalProfile.enrichment.model} • {formatDateTime(modalProfile.enrichment.analyzedAt)}</p>
+                    </div>
+                  ) : (
+                    <p className="text-[11px] text-slate-400 italic">Not analyzed yet</p>
+                  )}
+                </div>
+
                 {modalProfile.bio && (
                   <div className="space-y-2">
                     <p className="text-[10px] uppercase font-black text-slate-400">Bio / About</p>
@@ -539,6 +974,11 @@ function IndexPopup() {
                     Generate Draft
                   </button>
                 )}
+                <button
+                  onClick={() => handleAddToQueue(modalProfile, draftMessage)}
+                  className="px-4 btn-secondary py-3">
+                  Queue
+                </button>
                 <button
                   onClick={() => {
                     setSelectedProfileId(modalProfile.id)
@@ -557,8 +997,63 @@ function IndexPopup() {
   )
 }
 
+/**
+ * Per-variant results of an experiment, with a significance call on the top two
+ */
+function ExperimentCard({ experiment, conversations }: { experiment: Experiment; conversations: ConversationStore }) {
+  const results = computeExperimentResults(experiment, conversations)
+  const comparison = compareLeaders(results)
+  const leaderName = results.find((r) => r.variantId === comparison?.leaderId)?.name
+
+  let verdict = "Waiting for replies in at least two variants"
+  if (comparison && !comparison.enoughData) {
+    verdict = `${leaderName} leads, but samples are too small to call it yet`
+  } else if (comparison?.significant) {
+    verdict = `${leaderName} is the clear winner (p = ${comparison.pValue.toFixed(3)})`
+  } else if (comparison) {
+    verdict = `No clear winner yet (p = ${comparison.pValue.toFixed(2)})`
+  }
+
+  return (
+    <div className="card p-5 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">Experiment: {experiment.name}</h3>
+        <span className={`text-[10px] font-black uppercase tracking-widest ${experiment.endedAt ? "text-slate-400" : "text-emerald-600"}`}>
+          {experiment.endedAt ? "Ended" : "Running"}
+        </span>
+      </div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] uppercase font-black text-slate-400 tracking-wider text-left">
+            <th className="py-1">Variant</th>
+            <th className="py-1 text-right">Sent</th>
+            <th className="py-1 text-right">Failed</th>
+            <th className="py-1 text-right">Replies</th>
+            <th className="py-1 text-right">Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r) => (
+            <tr key={r.variantId} className={`border-t border-slate-100 ${r.variantId === comparison?.leaderId && comparison.significant ? "font-black text-emerald-700" : "text-slate-700"}`}>
+              <td className="py-1.5">{r.name}</td>
+              <td className="py-1.5 text-right">{r.sent}</td>
+              <td className="py-1.5 text-right">{r.failed}</td>
+              <td className="py-1.5 text-right">{r.replied}/{r.contacted}</td>
+              <td className="py-1.5 text-right">{(r.replyRate * 100).toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className={`text-[11px] font-bold ${comparison?.significant ? "text-emerald-600" : "text-slate-500"}`}>{verdict}</p>
+    </div>
+  )
+}
+
 function DashboardTab({
   stats,
+  experiment,
+  conversations,
+  heartbeat,
   automationSettings,
   filteredProfiles,
   totalProfiles,
@@ -569,9 +1064,17 @@ function DashboardTab({
   sendStatus,
   onCollectCurrentProfile,
   onExtractProfileUrls,
+  foundProfileUrls,
+  collectionQueue,
+  onCollectFoundProfiles,
+  onCancelCollection,
+  onScanReplies,
   onSendTestMessage
 }: {
   stats: MessageStats | null
+  experiment?: Experiment
+  conversations: ConversationStore
+  heartbeat: EngineHeartbeat | null
   automationSettings: AutomationSettings
   filteredProfiles: CustomerProfile[]
   totalProfiles: number
@@ -582,16 +1085,24 @@ function DashboardTab({
   sendStatus: any
   onCollectCurrentProfile: () => void
   onExtractProfileUrls: () => void
+  foundProfileUrls: string[]
+  collectionQueue: CollectionQueue | null
+  onCollectFoundProfiles: () => void
+  onCancelCollection: () => void
+  onScanReplies: () => void
   onSendTestMessage: () => void
 }) {
+  const collectionProgress = collectionQueue ? getCollectionProgress(collectionQueue) : null
+  const diversity = diversityScore(conversations)
+
   return (
     <div className="space-y-6">
       {/* Stats Cards */}
       <div className="grid grid-cols-2 gap-4">
         {[
           { label: 'Total Messages', value: stats?.totalSent || 0, color: 'indigo', icon: <path d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /> },
-          { label: 'Sent Today', value: stats?.messagesToday || 0, color: 'emerald', icon: <path d="M13 10V3L4 14h7v7l9-11h-7z" /> },
-          { label: 'Sent This Hour', value: stats?.messagesThisHour || 0, color: 'blue', icon: <path d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /> },
+          { label: 'Last 24 Hours', value: stats?.messagesToday || 0, color: 'emerald', icon: <path d="M13 10V3L4 14h7v7l9-11h-7z" /> },
+          { label: 'Last 60 Minutes', value: stats?.messagesThisHour || 0, color: 'blue', icon: <path d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /> },
           { label: 'Failures', value: stats?.totalFailed || 0, color: 'rose', icon: <path d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /> },
         ].map((item) => (
           <div key={item.label} className="card p-4 flex flex-col justify-between h-28 relative group hover:border-indigo-200 transition-colors">
@@ -610,6 +1121,30 @@ function DashboardTab({
         ))}
       </div>
 
+      {diversity && (
+        <div className="card px-5 py-3 flex items-center justify-between">
+          <p className="text-[10px] uppercase font-black text-slate-400 tracking-wider">
+            Message diversity • last {diversity.sampled}
+          </p>
+          <p className={`text-sm font-black ${diversity.score >= 0.7 ? "text-emerald-600" : diversity.score >= 0.4 ? "text-amber-600" : "text-rose-600"}`}>
+            {Math.round(diversity.score * 100)}%
+          </p>
+        </div>
+      )}
+
+      {experiment && <ExperimentCard experiment={experiment} conversations={conversations} />}
+
+      {/* Engine Heartbeat */}
+      <div className="card px-5 py-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className={`w-2 h-2 rounded-full ${heartbeat?.outcome === 'error' || heartbeat?.outcome === 'failed' ? 'bg-rose-500' : automationSettings.enabled ? 'bg-emerald-500 animate-pulse' : 'bg-slate-300'}`} />
+          <p className="text-[10px] uppercase font-black text-slate-400 tracking-wider">Engine last ran</p>
+        </div>
+        <p className="text-xs font-bold text-slate-700 truncate max-w-[60%]" title={heartbeat?.detail}>
+          {heartbeat ? `${formatDateTime(heartbeat.lastRunAt)} • ${heartbeat.outcome}` : "Never"}
+        </p>
+      </div>
+
       {/* Collection Actions */}
       <div className="card p-5 space-y-4">
         <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight flex items-center gap-2">
@@ -640,7 +1175,43 @@ function DashboardTab({
             className="btn-secondary py-3 flex items-center justify-center gap-2">
             Scan Page for Profile Links
           </button>
+          {foundProfileUrls.length > 0 && (
+            <button
+              onClick={onCollectFoundProfiles}
+              disabled={Boolean(collectionProgress && !collectionProgress.done)}
+              className="btn-secondary py-3 flex items-center justify-center gap-2">
+              Collect {foundProfileUrls.length} Linked Profiles
+            </button>
+          )}
+          <button
+            onClick={onScanReplies}
+            disabled={isCollecting}
+            className="btn-secondary py-3 flex items-center justify-center gap-2">
+            Check Inbox for Replies
+          </button>
         </div>
+
+        {collectionProgress && collectionProgress.total > 0 && (
+          <div className="p-3 rounded-xl bg-slate-50 border border-slate-100 space-y-2">
+            <div className="flex justify-between items-center text-[10px] font-black uppercase tracking-wider text-slate-500">
+              <span>
+                {collectionProgress.done ? "Batch complete" : "Collecting"} • {collectionProgress.completed + collectionProgress.failed}/{collectionProgress.total}
+                {collectionProgress.failed > 0 && <span className="text-rose-500 ml-1">({collectionProgress.failed} failed)</span>}
+              </span>
+              {!collectionProgress.done && (
+                <button onClick={onCancelCollection} className="text-rose-600 hover:text-rose-800">
+                  Cancel
+                </button>
+              )}
+            </div>
+            <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-600 transition-all"
+                style={{ width: `${((collectionProgress.completed + collectionProgress.failed) / collectionProgress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
         <p className="text-[10px] text-slate-400 font-medium text-center">
           Optimal for YC Startup School matching pages and directory views.
         </p>
@@ -664,7 +1235,7 @@ function DashboardTab({
 
         <button
           onClick={onSendTestMessage}
-          disabled={isSending || isGenerating || filteredProfiles.length === 0 || !automationSettings.openaiApiKey}
+          disabled={isSending || isGenerating || filteredProfiles.length === 0 || !canDraft(automationSettings)}
           className="w-full btn-primary bg-slate-800 hover:bg-slate-900 border-none py-3 shadow-lg shadow-slate-200">
           {isSending || isGenerating ? "Processing..." : "Trigger Selective Automation"}
         </button>
@@ -695,6 +1266,15 @@ function ProfilesTab({
   onFilterChange: (field: keyof FilterSettings, value: any) => void
 }) {
   const [showFilters, setShowFilters] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [csvColumns, setCsvColumns] = useState<ProfileCsvColumn[]>(DEFAULT_CSV_COLUMNS)
+
+  const handleExportCsv = () => {
+    // Keep the columns in table order, whatever order they were ticked in
+    const columns = (Object.keys(PROFILE_CSV_COLUMNS) as ProfileCsvColumn[]).filter((c) => csvColumns.includes(c))
+    downloadCsv(`profiles-${new Date().toISOString().slice(0, 10)}.csv`, profilesToCsv(profiles, columns))
+    setShowExport(false)
+  }
 
   return (
     <div className="flex flex-col h-full gap-4 relative">
@@ -702,16 +1282,49 @@ function ProfilesTab({
         <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">
           Target Profiles <span className="text-slate-400 font-medium lowercase ml-1">({profiles.length})</span>
         </h3>
-        <button
-          onClick={() => setShowFilters(!showFilters)}
-          className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all flex items-center gap-1.5 ${showFilters ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-100' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
-            }`}
-        >
-          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
-          {showFilters ? 'Applying Filters' : 'Filter List'}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowExport(!showExport)}
+            disabled={profiles.length === 0}
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all disabled:opacity-50 ${showExport ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+            Export CSV
+          </button>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all flex items-center gap-1.5 ${showFilters ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-100' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+              }`}
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+            {showFilters ? 'Applying Filters' : 'Filter List'}
+          </button>
+        </div>
       </div>
 
+      {showExport && (
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 space-y-3">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Columns</p>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(PROFILE_CSV_COLUMNS) as ProfileCsvColumn[]).map((column) => (
+              <label key={column} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={csvColumns.includes(column)}
+                  onChange={(e) =>
+                    setCsvColumns(e.target.checked ? [...csvColumns, column] : csvColumns.filter((c) => c !== column))
+                  }
+                  className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="text-xs text-slate-600 font-medium">{PROFILE_CSV_COLUMNS[column]}</span>
+              </label>
+            ))}
+          </div>
+          <button onClick={handleExportCsv} disabled={csvColumns.length === 0} className="w-full btn-primary py-2">
+            Download {profiles.length} Profiles
+          </button>
+          <p className="text-[11px] text-slate-400 font-medium">Exports the profiles matching your filters. Import CSV files from Options.</p>
+        </div>
+      )}
+
       {/* Filters Overlay Sidebar */}
       {showFilters && (
         <div className="w-64 bg-white border-r border-slate-200 shadow-2xl h-full absolute z-40 -left-6 -top-2 p-6 animate-in slide-in-from-left duration-300">
@@ -751,6 +1364,16 @@ function ProfilesTab({
             ))}
           </div>
 
+          <label className="mt-6 flex items-center gap-2.5 cursor-pointer group">
+            <input
+              type="checkbox"
+              checked={filterSettings.ignoreLowConfidence || false}
+              onChange={(e) => onFilterChange("ignoreLowConfidence", e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 transition-colors"
+            />
+            <span className="text-xs text-slate-600 group-hover:text-slate-900 font-medium">Ignore low-confidence fields</span>
+          </label>
+
           <div className="mt-8 border-t border-slate-100 pt-6">
             <button
               onClick={() => setShowFilters(false)}
@@ -820,85 +1443,343 @@ function ProfilesTab({
   )
 }
 
+function QueueTab({ queue }: { queue: OutreachQueue }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState("")
+  const items = [...queue.items].sort((a, b) => a.scheduledAt - b.scheduledAt)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">
+          Upcoming Sends <span className="text-slate-400 font-medium lowercase ml-1">({items.length})</span>
+        </h3>
+        <button
+          onClick={() => setQueuePaused(!queue.paused)}
+          className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${queue.paused ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
+          {queue.paused ? 'Resume Queue' : 'Pause Queue'}
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 bg-white rounded-2xl border border-dashed border-slate-200">
+          <p className="text-sm font-bold text-slate-800">Queue is empty</p>
+          <p className="text-[11px] text-slate-400 font-medium">Automation refills it from eligible profiles, or queue one from its profile card.</p>
+        </div>
+      ) : (
+        items.map((item, index) => (
+          <div key={item.id} className={`bg-white rounded-xl p-4 shadow-sm border transition-all ${item.status === 'paused' ? 'border-amber-200 opacity-70' : 'border-slate-200'}`}>
+            <div className="flex justify-between items-start gap-3">
+              <button onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} className="text-left flex-1 min-w-0">
+                <h4 className="font-bold text-slate-800 text-sm truncate uppercase tracking-tight">
+                  <span className="text-slate-300 mr-2">#{index + 1}</span>{item.profileName}
+                </h4>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                  {item.status === 'paused' ? 'Paused' : formatDateTime(item.scheduledAt)}
+                  {item.step && ` • step ${item.step.stepIndex + 1}`}
+                  {!item.draft && ' • drafted at send time'}
+                </p>
+              </button>
+              <div className="flex gap-1 text-[10px] font-black uppercase">
+                <button onClick={() => reorderItem(item.id, index - 1)} disabled={index === 0} className="px-2 py-1 rounded hover:bg-slate-100 text-slate-500 disabled:opacity-30">↑</button>
+                <button onClick={() => reorderItem(item.id, index + 1)} disabled={index === items.length - 1} className="px-2 py-1 rounded hover:bg-slate-100 text-slate-500 disabled:opacity-30">↓</button>
+                <button onClick={() => setItemPaused(item.id, item.status !== 'paused')} className="px-2 py-1 rounded hover:bg-amber-50 text-amber-600">
+                  {item.status === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+                <button onClick={() => skipItem(item.id)} className="px-2 py-1 rounded hover:bg-rose-50 text-rose-600">Skip</button>
+              </div>
+            </div>
+
+            {expandedId === item.id && (
+              <div className="mt-3">
+                {editingId === item.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      className="w-full h-32 p-3 bg-white border-2 border-indigo-100 rounded-xl text-xs text-slate-700 leading-relaxed focus:border-indigo-500 focus:ring-0 resize-none"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={async () => {
+                          await updateItemDraft(item.id, editText)
+                          setEditingId(null)
+                        }}
+                        className="btn-primary px-4 py-1.5 text-xs">
+                        Save Draft
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="btn-secondary px-4 py-1.5 text-xs">Cancel</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="p-3 bg-slate-50/50 border border-slate-100 rounded-xl">
+                    <p className="text-xs text-slate-600 italic leading-relaxed whitespace-pre-wrap">
+                      {item.draft || "(No draft yet — a message will be generated when this send is due)"}
+                    </p>
+                    <button
+                      onClick={() => {
+                        setEditingId(item.id)
+                        setEditText(item.draft || "")
+                      }}
+                      className="mt-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800">
+                      Edit Draft
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+function ReviewTab({ drafts }: { drafts: ReviewDraft[] }) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState("")
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState("")
+  const [sendingId, setSendingId] = useState<string | null>(null)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [showRejected, setShowRejected] = useState(false)
+
+  const pending = drafts.filter((d) => d.status === "pending").sort((a, b) => a.createdAt - b.createdAt)
+  const rejected = drafts
+    .filter((d) => d.status === "rejected")
+    .sort((a, b) => (b.decidedAt || 0) - (a.decidedAt || 0))
+
+  async function handleApprove(draft: ReviewDraft) {
+    setSendingId(draft.id)
+    setErrors((prev) => ({ ...prev, [draft.id]: "" }))
+    try {
+      const message = editingId === draft.id ? editText : undefined
+      const response = await chrome.runtime.sendMessage({ action: "approveDraft", draftId: draft.id, message })
+      if (!response?.success) {
+        setErrors((prev) => ({ ...prev, [draft.id]: response?.error || "Delivery failed" }))
+      } else if (editingId === draft.id) {
+        setEditingId(null)
+      }
+    } catch (error) {
+      setErrors((prev) => ({ ...prev, [draft.id]: "Connection error" }))
+    } finally {
+      setSendingId(null)
+    }
+  }
+
+  async function handleReject(draftId: string) {
+    await rejectDraft(draftId, rejectReason)
+    setRejectingId(null)
+    setRejectReason("")
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">
+        Awaiting Review <span className="text-slate-400 font-medium lowercase ml-1">({pending.length})</span>
+      </h3>
+
+      {pending.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 bg-white rounded-2xl border border-dashed border-slate-200">
+          <p className="text-sm font-bold text-slate-800">No drafts to review</p>
+          <p className="text-[11px] text-slate-400 font-medium">Switch Delivery Mode to review in Settings to hold automated messages here.</p>
+        </div>
+      ) : (
+        pending.map((draft) => (
+          <div key={draft.id} className="bg-white rounded-xl p-4 shadow-sm border border-slate-200 space-y-3">
+            <div className="flex justify-between items-start gap-3">
+              <div className="min-w-0">
+                <h4 className="font-bold text-slate-800 text-sm truncate uppercase tracking-tight">{draft.profileName}</h4>
+                <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                  Drafted {formatDateTime(draft.createdAt)}{draft.model && ` • ${draft.model}`}
+                  {draft.step && ` • step ${draft.step.stepIndex + 1}`}
+                  {draft.message !== draft.originalMessage && ' • edited'}
+                </p>
+              </div>
+            </div>
+
+            {editingId === draft.id ? (
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                className="w-full h-32 p-3 bg-white border-2 border-indigo-100 rounded-xl text-xs text-slate-700 leading-relaxed focus:border-indigo-500 focus:ring-0 resize-none"
+              />
+            ) : (
+              <div className="p-3 bg-slate-50/50 border border-slate-100 rounded-xl">
+                <p className="text-xs text-slate-600 italic leading-relaxed whitespace-pre-wrap">{draft.message}</p>
+              </div>
+            )}
+
+            {(errors[draft.id] || draft.deliveryError) && (
+              <p className="text-[11px] font-bold text-rose-600">Send failed: {errors[draft.id] || draft.deliveryError}</p>
+            )}
+
+            {rejectingId === draft.id ? (
+              <div className="space-y-2">
+                <input
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Why is this draft wrong? (tone, facts, length...)"
+                  className="input-field text-xs"
+                />
+                <div className="flex gap-2">
+                  <button onClick={() => handleReject(draft.id)} className="px-4 py-1.5 text-xs font-bold rounded-lg bg-rose-600 text-white hover:bg-rose-700">Reject Draft</button>
+                  <button onClick={() => setRejectingId(null)} className="btn-secondary px-4 py-1.5 text-xs">Cancel</button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleApprove(draft)}
+                  disabled={sendingId !== null}
+                  className="btn-primary px-4 py-1.5 text-xs disabled:opacity-50">
+                  {sendingId === draft.id ? "Sending..." : "Approve & Send"}
+                </button>
+                {editingId === draft.id ? (
+                  <>
+                    <button
+                      onClick={async () => {
+                        await editDraft(draft.id, editText)
+                        setEditingId(null)
+                      }}
+                      className="btn-secondary px-4 py-1.5 text-xs">
+                      Save Edit
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="btn-secondary px-4 py-1.5 text-xs">Cancel</button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setEditingId(draft.id)
+                      setEditText(draft.message)
+                    }}
+                    className="btn-secondary px-4 py-1.5 text-xs">
+                    Edit
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setRejectingId(draft.id)
+                    setRejectReason("")
+                  }}
+                  className="px-3 py-1.5 text-xs font-bold rounded-lg text-rose-600 hover:bg-rose-50">
+                  Reject
+                </button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      {rejected.length > 0 && (
+        <div className="pt-2">
+          <button
+            onClick={() => setShowRejected(!showRejected)}
+            className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-800">
+            {showRejected ? "Hide" : "Show"} Rejected Drafts ({rejected.length})
+          </button>
+          {showRejected && (
+            <div className="mt-3 space-y-2">
+              {rejected.map((draft) => (
+                <div key={draft.id} className="bg-white rounded-xl p-3 border border-rose-100">
+                  <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">
+                    {draft.profileName} • {formatDateTime(draft.decidedAt)}{draft.model && ` • ${draft.model}`}
+                  </p>
+                  <p className="text-xs font-bold text-rose-600 mt-1">{draft.rejectionReason}</p>
+                  <p className="text-xs text-slate-500 italic mt-1 line-clamp-3 whitespace-pre-wrap">{draft.originalMessage}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
 function MessagesTab({
-  messageHistory,
+  conversations,
   selectedProfileId,
-  onProfileSelect,
-  profiles
+  onProfileSelect
 }: {
-  messageHistory: MessageHistory[]
+  conversations: ConversationStore
   selectedProfileId: string | null
   onProfileSelect: (profileId: string | null) => void
-  profiles: CustomerProfile[]
 }) {
-  const filteredHistory = selectedProfileId
-    ? messageHistory.filter((h) => h.profileId === selectedProfileId)
-    : messageHistory
+  const threads = Object.values(conversations).sort((a, b) => b.updatedAt - a.updatedAt)
+  const thread: ConversationThread | undefined =
+    (selectedProfileId && conversations[selectedProfileId]) || threads[0]
+
+  if (!thread) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 bg-white rounded-2xl border border-dashed border-slate-200">
+        <p className="text-sm font-bold text-slate-800">No conversations yet</p>
+        <p className="text-[11px] text-slate-400 font-medium">Sent messages and detected replies appear here.</p>
+      </div>
+    )
+  }
 
   return (
-    <div className="space-y-6">
-      {/* Profile Selector */}
+    <div className="space-y-4">
+      {/* Thread Selector */}
       <div className="space-y-3">
-        <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">Activity Log</h3>
+        <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight">Conversations</h3>
         <div className="flex gap-2 pb-2 overflow-x-auto scrollbar-hide">
-          <button
-            onClick={() => onProfileSelect(null)}
-            className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all border whitespace-nowrap ${selectedProfileId === null ? "bg-indigo-600 text-white border-indigo-600 shadow-md shadow-indigo-100" : "bg-white text-slate-500 border-slate-200 hover:border-slate-300"
-              }`}>
-            All Global Events
-          </button>
-          {profiles.filter(p => p.messageCount > 0).slice(0, 8).map((profile) => (
-            <button
-              key={profile.id}
-              onClick={() => onProfileSelect(profile.id)}
-              className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all border whitespace-nowrap ${selectedProfileId === profile.id ? "bg-indigo-600 text-white border-indigo-600 shadow-md shadow-indigo-100" : "bg-white text-slate-500 border-slate-200 hover:border-slate-300"
-                }`}>
-              {profile.name}
-            </button>
-          ))}
+          {threads.map((t) => {
+            const hasReply = t.messages.some((m) => m.direction === "inbound")
+            return (
+              <button
+                key={t.profileId}
+                onClick={() => onProfileSelect(t.profileId)}
+                className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all border whitespace-nowrap ${t.profileId === thread.profileId ? "bg-indigo-600 text-white border-indigo-600 shadow-md shadow-indigo-100" : "bg-white text-slate-500 border-slate-200 hover:border-slate-300"
+                  }`}>
+                {t.profileName}
+                {hasReply && <span className="ml-1.5 inline-block w-1.5 h-1.5 rounded-full bg-emerald-400 align-middle" />}
+              </button>
+            )
+          })}
         </div>
       </div>
 
-      {/* History List */}
-      <div className="space-y-4">
-        {filteredHistory.length === 0 ? (
-          <div className="flex flex-col items-center justify-center py-20 bg-white rounded-2xl border border-dashed border-slate-200">
-            <p className="text-sm font-bold text-slate-800">No sent history</p>
-            <p className="text-[11px] text-slate-400 font-medium">Trigger an automation to populate this list.</p>
-          </div>
-        ) : (
-          filteredHistory.map((msg) => (
-            <div key={msg.id} className="bg-white rounded-2xl p-5 shadow-sm border border-slate-200 hover:border-indigo-200 transition-all">
-              <div className="flex justify-between items-start mb-4">
-                <div className="flex items-center gap-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center font-black text-xs ${msg.success ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'}`}>
-                    {msg.profileName.charAt(0)}
-                  </div>
-                  <div>
-                    <h4 className="text-sm font-black text-slate-800 tracking-tight">{msg.profileName}</h4>
-                    <p className="text-[10px] text-slate-400 font-bold uppercase tracking-wider">{formatDateTime(msg.sentAt)}</p>
-                  </div>
-                </div>
-                <span className={`text-[9px] font-black px-2 py-0.5 rounded-full uppercase ${msg.success ? 'bg-emerald-100 text-emerald-700 border border-emerald-200' : 'bg-rose-100 text-rose-700 border border-rose-200'}`}>
-                  {msg.success ? 'Success' : 'Failed'}
-                </span>
+      {/* Thread */}
+      <div className="bg-white rounded-2xl p-4 shadow-sm border border-slate-200 space-y-3">
+        {thread.messages.map((msg) => {
+          const outbound = msg.direction === "outbound"
+          const failed = msg.deliveryState === "failed"
+          const meta = [
+            `${msg.timestampEstimated ? "~" : ""}${formatDateTime(msg.at)}`,
+            msg.sequenceStep !== undefined && `step ${msg.sequenceStep + 1}`,
+            msg.templateId ? "template" : msg.model,
+            msg.promptVersion
+          ].filter(Boolean).join(" • ")
+
+          return (
+            <div key={msg.id} className={`flex flex-col ${outbound ? "items-end" : "items-start"}`}>
+              <div className={`max-w-[85%] px-4 py-2.5 rounded-2xl text-xs leading-relaxed whitespace-pre-wrap ${failed
+                ? "bg-rose-50 text-rose-800 border border-rose-200 rounded-br-sm"
+                : outbound
+                  ? "bg-indigo-600 text-white rounded-br-sm"
+                  : "bg-slate-100 text-slate-800 rounded-bl-sm"
+                }`}>
+                {msg.text || "(No message generated)"}
               </div>
-
-              <div className="p-4 bg-slate-50/50 border border-slate-100 rounded-xl">
-                <p className="text-xs text-slate-600 italic leading-relaxed whitespace-pre-wrap">
-                  {msg.message || "(Empty response payload)"}
+              <p className="mt-1 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                {meta}
+                {failed && (
+                  <span className="text-rose-500 ml-1">
+                    • {msg.failureReason ? FAILURE_REASON_LABELS[msg.failureReason] : "Failed"}{msg.error && `: ${msg.error}`}
+                  </span>
+                )}
+              </p>
+              {!failed && msg.checks?.map((check) => (
+                <p key={check.rule} className="px-1 text-[9px] font-bold text-amber-600">
+                  Flagged • {MESSAGE_CHECK_RULES[check.rule]}: {check.detail}
                 </p>
-              </div>
-
-              {(msg.error || msg.openaiModel) && (
-                <div className="mt-4 flex justify-between items-center text-[9px] font-black uppercase tracking-widest px-1">
-                  {msg.error && <span className="text-rose-500">Error: {msg.error}</span>}
-                  {msg.openaiModel && <span className="text-slate-300 ml-auto">{msg.openaiModel}</span>}
-                </div>
-              )}
+              ))}
             </div>
-          )).reverse()
-        )}
+          )
+        })}
       </div>
     </div>
   )
@@ -907,37 +1788,70 @@ function MessagesTab({
 function SettingsTab({
   automationSettings,
   apiKeyInput,
+  baseUrlInput,
   senderNameInput,
   showApiKey,
   saveStatus,
   resetStatus,
   isResetting,
   onApiKeyChange,
+  onBaseUrlChange,
+  onProviderChange,
+  onRefreshModels,
+  isListingModels,
   onSenderNameChange,
   onShowApiKeyChange,
   onSaveApiKey,
   onResetExtension,
   onRateLimitChange,
-  onModelChange
+  onModelChange,
+  onIgnoreLowConfidenceChange,
+  onSettingToggle,
+  onModeChange,
+  sequences,
+  onActiveSequenceChange,
+  templateLibrary,
+  onMessageSourceChange
 }: {
   automationSettings: AutomationSettings
   apiKeyInput: string
+  baseUrlInput: string
   senderNameInput: string
   showApiKey: boolean
   saveStatus: string | null
   resetStatus: string | null
   isResetting: boolean
   onApiKeyChange: (value: string) => void
+  onBaseUrlChange: (value: string) => void
+  onProviderChange: (provider: LLMProviderId) => void
+  onRefreshModels: () => void
+  isListingModels: boolean
   onSenderNameChange: (value: string) => void
   onShowApiKeyChange: (value: boolean) => void
   onSaveApiKey: () => void
   onResetExtension: () => void
   onRateLimitChange: (field: string, value: number) => void
   onModelChange: (model: string) => void
+  onIgnoreLowConfidenceChange: (value: boolean) => void
+  onSettingToggle: (field: ToggleSetting, value: boolean) => void
+  onModeChange: (mode: AutomationSettings["mode"]) => void
+  sequences: Sequence[]
+  onActiveSequenceChange: (sequenceId: string) => void
+  templateLibrary: LibraryTemplate[]
+  onMessageSourceChange: (source: MessageSource, templateId?: string) => void
 }) {
+  const messageSource = automationSettings.messageSource || "ai"
+  const providerId = getProviderId(automationSettings)
+  const provider = LLM_PROVIDERS[providerId]
+  const activeModel = getActiveModel(automationSettings)
+  const fetchedModels = getProviderSettings(automationSettings).models || []
+  const modelOptions = Array.from(
+    new Set([...(fetchedModels.length > 0 ? fetchedModels : provider.models), activeModel].filter(Boolean))
+  )
+
   return (
     <div className="space-y-6 pb-12">
-      {/* OpenAI API Key */}
+      {/* AI Provider */}
       <section className="space-y-4">
         <h3 className="text-sm font-black text-slate-800 uppercase tracking-tight flex items-center gap-2">
           <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
@@ -945,23 +1859,52 @@ function SettingsTab({
         </h3>
         <div className="card p-6 space-y-5">
           <div className="space-y-2">
-            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">OpenAI Secret Key</label>
-            <div className="relative group">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">AI Provider</label>
+            <select
+              value={providerId}
+              onChange={(e) => onProviderChange(e.target.value as LLMProviderId)}
+              className="input-field py-3">
+              {(Object.keys(LLM_PROVIDERS) as LLMProviderId[]).map((id) => (
+                <option key={id} value={id}>{LLM_PROVIDERS[id].label}</option>
+              ))}
+            </select>
+          </div>
+
+          {provider.needsBaseUrl && (
+            <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Base URL</label>
               <input
-                type={showApiKey ? "text" : "password"}
-                value={apiKeyInput}
-                onChange={(e) => onApiKeyChange(e.target.value)}
-                placeholder="sk-..."
-                className="input-field py-3 pr-16"
+                type="text"
+                value={baseUrlInput}
+                onChange={(e) => onBaseUrlChange(e.target.value)}
+                placeholder="http://localhost:11434/v1"
+                className="input-field py-3"
               />
-              <button
-                onClick={() => onShowApiKeyChange(!showApiKey)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-black uppercase text-indigo-600 hover:text-indigo-800 tracking-tighter bg-indigo-50 px-2 py-1 rounded">
-                {showApiKey ? "Hide" : "Show"}
-              </button>
             </div>
-            <p className="text-[10px] text-slate-400 font-medium pl-1 italic">Saved locally. We never transmit your key elsewhere.</p>
-          </div>
+          )}
+
+          {providerId !== "mock" && (
+            <div className="space-y-2">
+              <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">
+                {provider.label} Secret Key{provider.needsApiKey ? "" : " (optional)"}
+              </label>
+              <div className="relative group">
+                <input
+                  type={showApiKey ? "text" : "password"}
+                  value={apiKeyInput}
+                  onChange={(e) => onApiKeyChange(e.target.value)}
+                  placeholder={providerId === "anthropic" ? "sk-ant-..." : "sk-..."}
+                  className="input-field py-3 pr-16"
+                />
+                <button
+                  onClick={() => onShowApiKeyChange(!showApiKey)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-black uppercase text-indigo-600 hover:text-indigo-800 tracking-tighter bg-indigo-50 px-2 py-1 rounded">
+                  {showApiKey ? "Hide" : "Show"}
+                </button>
+              </div>
+              <p className="text-[10px] text-slate-400 font-medium pl-1 italic">Saved locally. We never transmit your key elsewhere.</p>
+            </div>
+          )}
 
           <div className="space-y-2">
             <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Sender Profile Identity</label>
@@ -1008,7 +1951,7 @@ function SettingsTab({
               className="input-field"
             />
           </div>
-          <div className="col-span-2 space-y-1.5">
+          <div className="space-y-1.5">
             <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Cooldown Interval (Sec)</label>
             <input
               type="number"
@@ -1017,6 +1960,51 @@ function SettingsTab({
               className="input-field"
             />
           </div>
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Cooldown Jitter (%)</label>
+            <input
+              type="number"
+              value={Math.round((automationSettings.rateLimit.spacingJitter ?? RATE_LIMIT_DEFAULTS.spacingJitter) * 100)}
+              onChange={(e) => onRateLimitChange("spacingJitter", Math.min(100, parseInt(e.target.value) || 0) / 100)}
+              className="input-field"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Burst Cap</label>
+            <input
+              type="number"
+              value={automationSettings.rateLimit.burstLimit ?? RATE_LIMIT_DEFAULTS.burstLimit}
+              onChange={(e) => onRateLimitChange("burstLimit", parseInt(e.target.value) || 0)}
+              className="input-field"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Burst Window (Min)</label>
+            <input
+              type="number"
+              value={(automationSettings.rateLimit.burstWindow ?? RATE_LIMIT_DEFAULTS.burstWindow) / 60000}
+              onChange={(e) => onRateLimitChange("burstWindow", (parseInt(e.target.value) || 0) * 60000)}
+              className="input-field"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Per-Recipient Cap</label>
+            <input
+              type="number"
+              value={automationSettings.rateLimit.perRecipientLimit ?? RATE_LIMIT_DEFAULTS.perRecipientLimit}
+              onChange={(e) => onRateLimitChange("perRecipientLimit", parseInt(e.target.value) || 0)}
+              className="input-field"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1">Recipient Window (Days)</label>
+            <input
+              type="number"
+              value={(automationSettings.rateLimit.perRecipientWindow ?? RATE_LIMIT_DEFAULTS.perRecipientWindow) / DAY_MS}
+              onChange={(e) => onRateLimitChange("perRecipientWindow", (parseInt(e.target.value) || 0) * DAY_MS)}
+              className="input-field"
+            />
+          </div>
         </div>
       </section>
 
@@ -1027,15 +2015,120 @@ function SettingsTab({
           Cognitive Core
         </h3>
         <div className="card p-6">
-          <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1 mb-2 block">Processing Model</label>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1 block">Processing Model</label>
+            {providerId !== "mock" && (
+              <button
+                onClick={onRefreshModels}
+                disabled={isListingModels || !isProviderConfigured(automationSettings)}
+                className="text-[10px] font-black uppercase text-indigo-600 hover:text-indigo-800 disabled:opacity-40">
+                {isListingModels ? "Loading..." : "Refresh list"}
+              </button>
+            )}
+          </div>
+          {modelOptions.length === 0 ? (
+            <input
+              type="text"
+              value={activeModel}
+              onChange={(e) => onModelChange(e.target.value.trim())}
+              placeholder="Model name, e.g. llama3.1"
+              className="input-field"
+            />
+          ) : (
+            <select
+              value={activeModel}
+              onChange={(e) => onModelChange(e.target.value)}
+              className="input-field appearance-none bg-[url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20width%3D%2220%22%20height%3D%2220%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22none%22%20xmlns%3D%22http%3A//www.w3.org/2000/svg%22%3E%3Cpath%20d%3D%22M7%207L10%2010L13%207%22%20stroke%3D%22%2364748B%22%20stroke-width%3D%221.5%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22/%3E%3C/svg%3E')] bg-[position:right_0.5rem_center] bg-no-repeat pr-10">
+              {modelOptions.map((model) => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          )}
+          <label className="mt-4 flex items-center gap-2.5 cursor-pointer pl-1">
+            <input
+              type="checkbox"
+              checked={automationSettings.ignoreLowConfidenceFields || false}
+              onChange={(e) => onIgnoreLowConfidenceChange(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="text-xs text-slate-600 font-medium">Leave low-confidence fields out of prompts</span>
+          </label>
+          <label className="mt-2 flex items-center gap-2.5 cursor-pointer pl-1">
+            <input
+              type="checkbox"
+              checked={automationSettings.enrichProfiles || false}
+              onChange={(e) => onSettingToggle("enrichProfiles", e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="text-xs text-slate-600 font-medium">Analyze profiles when they're saved</span>
+          </label>
+          <label className="mt-2 flex items-center gap-2.5 cursor-pointer pl-1">
+            <input
+              type="checkbox"
+              checked={automationSettings.backfillInterests || false}
+              disabled={!automationSettings.enrichProfiles}
+              onChange={(e) => onSettingToggle("backfillInterests", e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="text-xs text-slate-600 font-medium">Fill in interests when every tag maps to "Other"</span>
+          </label>
+          <label className="mt-2 flex items-center gap-2.5 cursor-pointer pl-1">
+            <input
+              type="checkbox"
+              checked={automationSettings.messageVariation || false}
+              onChange={(e) => onSettingToggle("messageVariation", e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span className="text-xs text-slate-600 font-medium">Regenerate drafts that repeat earlier messages</span>
+          </label>
+          <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1 mt-5 mb-2 block">Message Source</label>
+          <select
+            value={messageSource}
+            onChange={(e) =>
+              onMessageSourceChange(
+                e.target.value as MessageSource,
+                automationSettings.templateId || templateLibrary[0]?.id
+              )
+            }
+            className="input-field">
+            <option value="ai">AI only</option>
+            <option value="template" disabled={templateLibrary.length === 0}>Template only</option>
+            <option value="template+ai" disabled={templateLibrary.length === 0}>Template, personalized by AI</option>
+          </select>
+          {messageSource !== "ai" && (
+            <select
+              value={automationSettings.templateId || ""}
+              onChange={(e) => onMessageSourceChange(messageSource, e.target.value)}
+              className="input-field mt-2">
+              {!templateLibrary.some((t) => t.id === automationSettings.templateId) && (
+                <option value="">Choose a template...</option>
+              )}
+              {templateLibrary.map((template) => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+          )}
+          <p className="text-[10px] text-slate-400 font-medium pl-1 mt-1.5">Write and preview templates on the options page.</p>
+          <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1 mt-5 mb-2 block">Delivery Mode</label>
+          <select
+            value={automationSettings.mode || "auto"}
+            onChange={(e) => onModeChange(e.target.value as AutomationSettings["mode"])}
+            className="input-field">
+            <option value="auto">Send automatically</option>
+            <option value="review">Draft only — approve each message in Review</option>
+          </select>
+          <label className="text-[11px] font-black text-slate-500 uppercase tracking-widest pl-1 mt-5 mb-2 block">Follow-up Sequence</label>
           <select
-            value={automationSettings.openaiModel}
-            onChange={(e) => onModelChange(e.target.value)}
-            className="input-field appearance-none bg-[url('data:image/svg+xml;charset=US-ASCII,%3Csvg%20width%3D%2220%22%20height%3D%2220%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22none%22%20xmlns%3D%22http%3A//www.w3.org/2000/svg%22%3E%3Cpath%20d%3D%22M7%207L10%2010L13%207%22%20stroke%3D%22%2364748B%22%20stroke-width%3D%221.5%22%20stroke-linecap%3D%22round%22%20stroke-linejoin%3D%22round%22/%3E%3C/svg%3E')] bg-[position:right_0.5rem_center] bg-no-repeat pr-10">
-            {OPENAI_MODELS.map((model) => (
-              <option key={model} value={model}>{model}</option>
+            value={automationSettings.activeSequenceId || sequences[0]?.id || ""}
+            onChange={(e) => onActiveSequenceChange(e.target.value)}
+            className="input-field">
+            {sequences.map((sequence) => (
+              <option key={sequence.id} value={sequence.id}>
+                {sequence.name} ({sequence.steps.length} steps)
+              </option>
             ))}
           </select>
+          <p className="text-[10px] text-slate-400 font-medium pl-1 mt-1.5">Edit steps and delays on the options page.</p>
         </div>
       </section>
 
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { parseProfileAnalysis, parseStructuredMessage } from "./ai"
+
+const analysis = `{"suggestedInterests": ["AI", "Other", "Gardening"], "tone": "Friendly", "keyPoints": ["Built a dev tools startup"]}`
+
+describe("parseProfileAnalysis", () => {
+  it("reads a reply wrapped in a json code fence", () => {
+    expect(parseProfileAnalysis("```json\n" + analysis + "\n```")).toEqual({
+      tone: "friendly",
+      keyPoints: ["Built a dev tools startup"],
+      suggestedInterests: ["AI"]
+    })
+  })
+
+  it("reads a bare or plainly fenced reply the same way", () => {
+    expect(parseProfileAnalysis(analysis)).toEqual(parseProfileAnalysis("```\n" + analysis + "\n```"))
+  })
+})
+
+describe("parseStructuredMessage", () => {
+  it("still strips a code fence", () => {
+    const reply = `{"greeting": "Hi Jane,", "body": "Saw your fintech work.", "callToAction": "Chat this week?", "facts": []}`
+    expect(parseStructuredMessage("```json\n" + reply + "\n```").body).toBe("Saw your fintech work.")
+  })
+})
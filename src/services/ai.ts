@@ -0,0 +1,254 @@
+import type {
+  CustomerProfile,
+  Interest,
+  ProfileAnalysis,
+  PromptField,
+  PromptVersion,
+  StructuredMessage
+} from "~/types"
+import { withoutLowConfidenceFields } from "~/utils/confidence"
+import { ANALYSIS_TONES, DEFAULT_PROMPT_PROFILE, INTERESTS } from "~/utils/constants"
+import { renderTemplate } from "~/utils/templateEngine"
+import type { LLMProvider } from "./llmProviders"
+import { currentVersion } from "./prompts"
+
+const MAX_GENERATION_ATTEMPTS = 3
+// Room for the JSON keys on top of the prompt's length budget
+const STRUCTURE_TOKENS = 100
+
+const OUTPUT_FORMAT = `Reply with a single JSON object of exactly this shape:
+{"subject": string, "greeting": string, "body": string, "callToAction": string, "facts": string[]}
+
+- subject: a short subject line
+- greeting: the salutation only, e.g. "Hi Sarah"
+- body: the message itself, without greeting, call to action or sign-off
+- callToAction: one closing sentence inviting a reply
+- facts: the details from the profile the message refers to, copied as short phrases
+Do not add a sign-off or signature; it is appended automatically.`
+
+const GREETING_PATTERN = /^(hi|hello|hey|dear|greetings)\b/i
+const SIGN_OFF_PATTERN = /(^|\n)\s*(best|regards|kind regards|cheers|thanks|sincerely|warmly)\b[^\n]{0,30}$/i
+
+/**
+ * Drafts a message for a profile as structured parts. Invalid output is retried with the
+ * validation error; provider errors are not retried.
+ */
+export async function generatePersonalizedMessage(
+  provider: LLMProvider,
+  profile: CustomerProfile,
+  model: string,
+  ignoreLowConfidence: boolean = false,
+  stepInstructions?: string,
+  prompt: PromptVersion = currentVersion(DEFAULT_PROMPT_PROFILE)
+): Promise<StructuredMessage> {
+  const source = ignoreLowConfidence ? withoutLowConfidenceFields(profile) : profile
+  const values = {
+    profile_details: describeProfile(source, prompt.fields),
+    length_target: prompt.lengthTarget
+  }
+  const system = `${renderTemplate(prompt.systemPrompt, source, { extra: values })}\n\n${OUTPUT_FORMAT}`
+  const user = createPrompt(source, prompt, values, stepInstructions)
+
+  let problem = ""
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    let response: string
+    try {
+      response = await provider.complete({
+        model,
+        system,
+        user: problem
+          ? `${user}\n\nYour previous reply was rejected: ${problem}. Reply again with valid JSON.`
+          : user,
+        temperature: prompt.temperature,
+        maxTokens: prompt.maxTokens + STRUCTURE_TOKENS,
+        json: true
+      })
+    } catch (error) {
+      console.error(`${provider.id} API error:`, error)
+      throw error
+    }
+
+    try {
+      return parseStructuredMessage(response)
+    } catch (error) {
+      problem = error instanceof Error ? error.message : "invalid output"
+      console.warn(`Invalid message from ${provider.id} (attempt ${attempt}): ${problem}`)
+    }
+  }
+
+  throw new Error(`No valid message after ${MAX_GENERATION_ATTEMPTS} attempts: ${problem}`)
+}
+
+// Some providers wrap JSON in a code fence despite json mode
+function stripCodeFence(raw: string): string {
+  return (raw || "").trim().replace(/^```(?:json)?\s*|\s*```$/g, "")
+}
+
+/**
+ * Checks a reply against the message schema. Throws with a reason the model can act on.
+ */
+export function parseStructuredMessage(raw: string): StructuredMessage {
+  let data: any
+  try {
+    data = JSON.parse(stripCodeFence(raw))
+  } catch {
+    throw new Error("the reply is not valid JSON")
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("the reply is not a JSON object")
+  }
+
+  for (const key of ["greeting", "body", "callToAction"]) {
+    if (typeof data[key] !== "string" || !data[key].trim()) {
+      throw new Error(`"${key}" must be a non-empty string`)
+    }
+  }
+  if (data.subject !== undefined && typeof data.subject !== "string") {
+    throw new Error(`"subject" must be a string`)
+  }
+  if (!Array.isArray(data.facts) || data.facts.some((f: unknown) => typeof f !== "string")) {
+    throw new Error(`"facts" must be an array of strings`)
+  }
+
+  const greeting = data.greeting.trim()
+  const body = data.body.trim()
+  if (greeting.includes("\n") || greeting.length > 60) {
+    throw new Error(`"greeting" must be a short salutation on one line`)
+  }
+  if (GREETING_PATTERN.test(body)) {
+    throw new Error(`"body" must not start with a greeting`)
+  }
+  if (SIGN_OFF_PATTERN.test(body) || SIGN_OFF_PATTERN.test(data.callToAction.trim())) {
+    throw new Error("the message must not include a sign-off")
+  }
+
+  return {
+    subject: (data.subject || "").trim(),
+    greeting,
+    body,
+    callToAction: data.callToAction.trim(),
+    facts: data.facts.map((f: string) => f.trim()).filter(Boolean)
+  }
+}
+
+/**
+ * The text that gets sent: greeting, body, call to action and sign-off, once each.
+ * The subject isn't part of it; startupschool.org messages have none.
+ */
+export function assembleMessage(parts: StructuredMessage, senderName?: string): string {
+  const greeting = `${parts.greeting.replace(/[\s,.:;!]+$/, "")},`
+  const sender = (senderName || "").trim()
+  const signOff = sender ? `Best,\n${sender}` : "Best"
+  return [greeting, parts.body, parts.callToAction, signOff].join("\n\n")
+}
+
+/**
+ * The profile lines a prompt asked for, one "Label: value" per line
+ */
+function describeProfile(profile: CustomerProfile, fields: PromptField[]): string {
+  const lines: string[] = []
+  const include = new Set(fields)
+
+  if (include.has("name")) {
+    lines.push(`Name: ${profile.name}`)
+  }
+
+  if (include.has("country") && profile.country) {
+    lines.push(`Location: ${profile.country}`)
+  }
+
+  if (include.has("ageGroup") && profile.ageGroup && profile.ageGroup !== "unknown") {
+    lines.push(`Age Group: ${profile.ageGroup}`)
+  }
+
+  if (include.has("interests") && profile.interests && profile.interests.length > 0) {
+    lines.push(`Interests: ${profile.interests.join(", ")}`)
+  }
+
+  if (include.has("bio") && profile.bio) {
+    lines.push(`Bio: ${profile.bio}`)
+  }
+
+  if (include.has("analysis") && profile.enrichment) {
+    lines.push(`Suggested tone: ${profile.enrichment.tone}`)
+    if (profile.enrichment.keyPoints.length > 0) {
+      lines.push(`Worth mentioning: ${profile.enrichment.keyPoints.join("; ")}`)
+    }
+  }
+
+  return lines.join("\n")
+}
+
+function createPrompt(
+  profile: CustomerProfile,
+  prompt: PromptVersion,
+  values: Record<string, string>,
+  stepInstructions?: string
+): string {
+  let text = renderTemplate(prompt.userTemplate, profile, { extra: values })
+
+  if (stepInstructions) {
+    text += `\n\n${stepInstructions}`
+  }
+
+  return text
+}
+
+const MAX_KEY_POINTS = 3
+
+/**
+ * Validates the analysis JSON; unknown interests and tones are dropped rather than trusted
+ */
+export function parseProfileAnalysis(raw: string): ProfileAnalysis {
+  const data = JSON.parse(stripCodeFence(raw))
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Profile analysis is not a JSON object")
+  }
+
+  const knownInterests = new Set<string>(INTERESTS)
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === "string" && v.trim() !== "") : []
+
+  const tone = typeof data.tone === "string" ? data.tone.trim().toLowerCase() : ""
+  return {
+    tone: (ANALYSIS_TONES as readonly string[]).includes(tone) ? tone : "professional",
+    keyPoints: strings(data.keyPoints).map((p) => p.trim().slice(0, 200)).slice(0, MAX_KEY_POINTS),
+    suggestedInterests: Array.from(
+      new Set(strings(data.suggestedInterests).filter((i) => knownInterests.has(i) && i !== "Other"))
+    ) as Interest[]
+  }
+}
+
+/**
+ * Asks the model for the tone to use and what to mention. Throws when the call or the JSON fails,
+ * so callers don't cache a fallback as if it were a real analysis.
+ */
+export async function analyzeProfile(
+  provider: LLMProvider,
+  model: string,
+  profile: CustomerProfile
+): Promise<ProfileAnalysis> {
+  const prompt = `Analyze this YCStartupSchool profile. Reply with a JSON object of exactly this shape:
+{"suggestedInterests": string[], "tone": string, "keyPoints": string[]}
+
+- suggestedInterests: any of ${INTERESTS.filter((i) => i !== "Other").join(", ")}
+- tone: the best tone for a first message, one of ${ANALYSIS_TONES.join(", ")}
+- keyPoints: up to ${MAX_KEY_POINTS} specific things from the profile worth mentioning, one short phrase each
+
+Profile:
+Name: ${profile.name}
+Country: ${profile.country || "Unknown"}
+Bio: ${profile.bio || "No bio available"}
+Interests: ${profile.interests?.join(", ") || "None specified"}`
+
+  const response = await provider.complete({
+    model,
+    system: "You are a profile analysis assistant. Return JSON only.",
+    user: prompt,
+    temperature: 0.3,
+    maxTokens: 500,
+    json: true
+  })
+
+  return parseProfileAnalysis(response || "{}")
+}
@@ -0,0 +1,85 @@
+import "fake-indexeddb/auto"
+import { beforeEach, describe, expect, it } from "vitest"
+import type { Backup, CustomerProfile } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+import { getProfile, replaceProfiles } from "~/utils/storage"
+import { createBackup, importBackup, parseBackup, serializeBackup } from "./backup"
+
+const local: CustomerProfile = {
+  id: "abc123",
+  name: "Jane Doe",
+  bio: "Local bio",
+  profileUrl: "https://www.startupschool.org/cofounder-matching/candidate/abc123",
+  collectedAt: new Date("2024-01-01T00:00:00Z"),
+  lastMessageSent: new Date("2024-01-10T00:00:00Z"),
+  lastReplyAt: new Date("2024-01-11T00:00:00Z"),
+  messageCount: 3,
+  sequenceState: {
+    sequenceId: "default-sequence",
+    stepIndex: 1,
+    lastStepAt: Date.parse("2024-01-10T00:00:00Z"),
+    stoppedAt: Date.parse("2024-01-11T00:00:00Z"),
+    stoppedReason: "replied"
+  }
+}
+
+// The same person as exported from another machine: re-collected later, contacted less
+const remote: CustomerProfile = {
+  ...local,
+  bio: "Remote bio",
+  collectedAt: new Date("2024-02-01T00:00:00Z"),
+  lastMessageSent: new Date("2024-01-05T00:00:00Z"),
+  lastReplyAt: undefined,
+  messageCount: 1,
+  sequenceState: { sequenceId: "default-sequence", stepIndex: 0, lastStepAt: Date.parse("2024-01-05T00:00:00Z") }
+}
+
+async function backupWith(profiles: CustomerProfile[]): Promise<Backup> {
+  const backup = await createBackup()
+  // Round-trip through the file format, as a real import does
+  return parseBackup(JSON.parse(serializeBackup({ ...backup, data: { ...backup.data, profiles } })))
+}
+
+beforeEach(async () => {
+  installFakeChrome()
+  await replaceProfiles([local])
+})
+
+describe("importBackup conflict handling", () => {
+  it.each(["use_imported", "keep_newer"] as const)("keeps local outreach history with %s", async (policy) => {
+    const result = await importBackup(await backupWith([remote]), "merge", policy)
+    const stored = await getProfile(local.id)
+
+    expect(result.profiles.conflicting).toBe(1)
+    expect(stored!.bio).toBe("Remote bio")
+    expect(stored!.messageCount).toBe(3)
+    expect(stored!.lastMessageSent).toEqual(local.lastMessageSent)
+    expect(stored!.lastReplyAt).toEqual(local.lastReplyAt)
+    expect(stored!.sequenceState).toEqual(local.sequenceState)
+  })
+
+  it("takes the later outreach history from the backup when it is ahead", async () => {
+    const ahead: CustomerProfile = {
+      ...remote,
+      messageCount: 4,
+      lastMessageSent: new Date("2024-01-20T00:00:00Z"),
+      lastReplyAt: new Date("2024-01-21T00:00:00Z")
+    }
+    await importBackup(await backupWith([ahead]), "merge", "keep_existing")
+    const stored = await getProfile(local.id)
+
+    expect(stored!.bio).toBe("Local bio")
+    expect(stored!.messageCount).toBe(4)
+    expect(stored!.lastMessageSent).toEqual(ahead.lastMessageSent)
+    expect(stored!.lastReplyAt).toEqual(ahead.lastReplyAt)
+    // Stopped locally, so the stop holds
+    expect(stored!.sequenceState!.stoppedReason).toBe("replied")
+  })
+
+  it("leaves the stored profile alone when keeping it loses nothing", async () => {
+    const behind: CustomerProfile = { ...local, bio: "Remote bio", messageCount: 1 }
+    await importBackup(await backupWith([behind]), "merge", "keep_existing")
+
+    expect((await getProfile(local.id))!.bio).toBe("Local bio")
+  })
+})
@@ -0,0 +1,373 @@
+import type {
+  AutomationSettings,
+  Backup,
+  BackupData,
+  BackupImportMode,
+  BackupPreview,
+  ConversationStore,
+  CustomerProfile,
+  LLMProviderId,
+  ProfileConflictPolicy,
+  ProviderSettings,
+  SequenceState,
+  SuppressionEntry
+} from "~/types"
+import { BACKUP_FORMAT_VERSION } from "~/utils/constants"
+import { STORAGE_SCHEMA_VERSION } from "~/utils/migrations"
+import { deserializeProfile, serializeProfile } from "~/utils/serialization"
+import {
+  getAutomationSettings,
+  getConversations,
+  getExperiments,
+  getFilterSettings,
+  getMessageStats,
+  getMessageTemplates,
+  getProfiles,
+  getSequences,
+  getSuppressionList,
+  getTemplateLibrary,
+  replaceProfiles,
+  saveAutomationSettings,
+  saveConversations,
+  saveExperiments,
+  saveFilterSettings,
+  saveMessageStats,
+  saveMessageTemplates,
+  saveProfiles,
+  saveSequences,
+  saveSuppressionList,
+  saveTemplateLibrary
+} from "~/utils/storage"
+import { findSuppression } from "./suppression"
+
+const LIST_FIELDS = ["messageTemplates", "templateLibrary", "sequences", "experiments", "suppressionList"] as const
+
+interface ImportPlan {
+  preview: BackupPreview
+  data: BackupData
+  changedProfiles: CustomerProfile[] // merge writes only these; replace writes data.profiles
+}
+
+type Providers = Partial<Record<LLMProviderId, ProviderSettings>>
+
+function mapProviders(providers: Providers = {}, fn: (id: LLMProviderId, p: ProviderSettings) => ProviderSettings): Providers {
+  const result: Providers = {}
+  for (const id of Object.keys(providers) as LLMProviderId[]) {
+    result[id] = fn(id, providers[id] || {})
+  }
+  return result
+}
+
+function withoutSecrets(settings: AutomationSettings): AutomationSettings {
+  const { openaiApiKey, ...rest } = settings
+  return { ...rest, providers: mapProviders(settings.providers, (_, { apiKey, ...p }) => p) }
+}
+
+/**
+ * Imported settings with this browser's API keys put back. Importing never switches automation on.
+ */
+function withLocalSecrets(imported: AutomationSettings, current: AutomationSettings): AutomationSettings {
+  const providers = mapProviders({ ...current.providers, ...imported.providers }, (id, p) => ({
+    ...p,
+    apiKey: current.providers?.[id]?.apiKey
+  }))
+  return { ...imported, enabled: current.enabled, openaiApiKey: current.openaiApiKey, providers }
+}
+
+async function readStoredData(): Promise<BackupData> {
+  return {
+    profiles: await getProfiles(),
+    conversations: await getConversations(),
+    messageTemplates: await getMessageTemplates(),
+    messageStats: await getMessageStats(),
+    filterSettings: await getFilterSettings(),
+    automationSettings: await getAutomationSettings(),
+    templateLibrary: await getTemplateLibrary(),
+    sequences: await getSequences(),
+    experiments: await getExperiments(),
+    suppressionList: await getSuppressionList()
+  }
+}
+
+export async function createBackup(): Promise<Backup> {
+  const data = await readStoredData()
+  return {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: { ...data, automationSettings: withoutSecrets(data.automationSettings) }
+  }
+}
+
+export function serializeBackup(backup: Backup): string {
+  return JSON.stringify(
+    { ...backup, data: { ...backup.data, profiles: backup.data.profiles.map(serializeProfile) } },
+    null,
+    2
+  )
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value)
+}
+
+/**
+ * Validates a backup file (parsed JSON) and returns it with dates revived.
+ * Throws with a readable message when the file is not a usable backup.
+ */
+export function parseBackup(raw: unknown): Backup {
+  if (!isObject(raw)) {
+    throw new Error("Backup must be a JSON object")
+  }
+  if (Number(raw.formatVersion) !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format ${raw.formatVersion ?? "(missing)"}; expected ${BACKUP_FORMAT_VERSION}`)
+  }
+  const schemaVersion = Number(raw.schemaVersion)
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 0) {
+    throw new Error("Backup is missing its schema version")
+  }
+  if (schemaVersion > STORAGE_SCHEMA_VERSION) {
+    throw new Error("Backup was made by a newer version of the extension; update it before importing")
+  }
+
+  const data = raw.data
+  if (!isObject(data)) {
+    throw new Error("Backup is missing its \"data\" section")
+  }
+  for (const field of ["profiles", ...LIST_FIELDS]) {
+    if (!Array.isArray(data[field]) || data[field].some((item: unknown) => !isObject(item) || typeof item.id !== "string")) {
+      throw new Error(`"${field}" must be an array of objects with an id`)
+    }
+  }
+  for (const field of ["conversations", "messageStats", "filterSettings", "automationSettings"]) {
+    if (!isObject(data[field])) {
+      throw new Error(`"${field}" must be an object`)
+    }
+  }
+  for (const [profileId, thread] of Object.entries(data.conversations)) {
+    if (!isObject(thread) || !Array.isArray(thread.messages)) {
+      throw new Error(`Conversation for ${profileId} has no message list`)
+    }
+  }
+
+  const profiles = data.profiles.map((p: any) => {
+    if (typeof p.name !== "string" || typeof p.profileUrl !== "string") {
+      throw new Error(`Profile ${p.id} needs a name and a profile URL`)
+    }
+    return deserializeProfile(p)
+  })
+
+  return {
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    data: {
+      ...(data as BackupData),
+      profiles,
+      messageTemplates: data.messageTemplates.map((t: any) => ({ ...t, generatedAt: new Date(t.generatedAt) })),
+      // Never take keys from a file, even a hand-edited one
+      automationSettings: withoutSecrets(data.automationSettings as AutomationSettings)
+    }
+  }
+}
+
+function sameProfile(a: CustomerProfile, b: CustomerProfile): boolean {
+  return JSON.stringify(serializeProfile(a)) === JSON.stringify(serializeProfile(b))
+}
+
+function laterDate(a?: Date, b?: Date): Date | undefined {
+  if (!a || !b) return a || b
+  return a.getTime() >= b.getTime() ? a : b
+}
+
+function laterSequenceState(a?: SequenceState, b?: SequenceState): SequenceState | undefined {
+  if (!a || !b) return a || b
+  // A stop on either machine holds, so nobody who replied gets another follow-up
+  if (a.stoppedAt || b.stoppedAt) return (a.stoppedAt || 0) >= (b.stoppedAt || 0) ? a : b
+  return a.lastStepAt >= b.lastStepAt ? a : b
+}
+
+// Profiles carry no modification time; the latest thing that happened to one stands in for it
+function lastActivity(profile: CustomerProfile): number {
+  return Math.max(
+    profile.collectedAt.getTime(),
+    profile.lastMessageSent?.getTime() || 0,
+    profile.lastReplyAt?.getTime() || 0,
+    profile.enrichment?.analyzedAt || 0
+  )
+}
+
+/**
+ * The policy picks whose profile fields win; outreach history is combined from both,
+ * so a reply or send recorded on either machine is never lost
+ */
+function resolveConflict(
+  existing: CustomerProfile,
+  imported: CustomerProfile,
+  policy: ProfileConflictPolicy
+): CustomerProfile {
+  const useImported =
+    policy === "use_imported" || (policy === "keep_newer" && lastActivity(imported) > lastActivity(existing))
+  const winner = useImported ? imported : existing
+  return {
+    ...winner,
+    messageCount: Math.max(existing.messageCount || 0, imported.messageCount || 0),
+    lastMessageSent: laterDate(existing.lastMessageSent, imported.lastMessageSent),
+    lastReplyAt: laterDate(existing.lastReplyAt, imported.lastReplyAt),
+    sequenceState: laterSequenceState(existing.sequenceState, imported.sequenceState)
+  }
+}
+
+function countMessages(store: ConversationStore, exclude: ConversationStore): number {
+  let count = 0
+  for (const thread of Object.values(store)) {
+    const known = new Set((exclude[thread.profileId]?.messages || []).map((m) => m.id))
+    count += thread.messages.filter((m) => !known.has(m.id)).length
+  }
+  return count
+}
+
+// Messages are unioned by id within each thread
+function mergeConversations(current: ConversationStore, imported: ConversationStore): ConversationStore {
+  const merged: ConversationStore = { ...current }
+  for (const thread of Object.values(imported)) {
+    const existing = merged[thread.profileId]
+    if (!existing) {
+      merged[thread.profileId] = thread
+      continue
+    }
+    const known = new Set(existing.messages.map((m) => m.id))
+    merged[thread.profileId] = {
+      ...existing,
+      messages: [...existing.messages, ...thread.messages.filter((m) => !known.has(m.id))].sort((a, b) => a.at - b.at),
+      updatedAt: Math.max(existing.updatedAt, thread.updatedAt)
+    }
+  }
+  return merged
+}
+
+function mergeById<T extends { id: string }>(current: T[], imported: T[]): T[] {
+  const known = new Set(current.map((item) => item.id))
+  return [...current, ...imported.filter((item) => !known.has(item.id))]
+}
+
+// An imported entry already covered by a stored one, under another id, is dropped
+function mergeSuppressions(current: SuppressionEntry[], imported: SuppressionEntry[]): SuppressionEntry[] {
+  return imported.reduce(
+    (list, entry) => (findSuppression(list, entry) ? list : [...list, entry]),
+    current
+  )
+}
+
+function planImport(
+  backup: Backup,
+  current: BackupData,
+  mode: BackupImportMode,
+  policy: ProfileConflictPolicy
+): ImportPlan {
+  const imported = backup.data
+  const stored = new Map(current.profiles.map((p) => [p.id, p]))
+  const importedIds = new Set(imported.profiles.map((p) => p.id))
+
+  const profiles = { added: 0, conflicting: 0, unchanged: 0, removed: 0 }
+  const conflicts: BackupPreview["conflicts"] = []
+  const changedProfiles: CustomerProfile[] = []
+
+  for (const profile of imported.profiles) {
+    const existing = stored.get(profile.id)
+    if (!existing) {
+      profiles.added++
+      changedProfiles.push(profile)
+    } else if (sameProfile(existing, profile)) {
+      profiles.unchanged++
+    } else {
+      profiles.conflicting++
+      conflicts.push({ id: profile.id, name: existing.name })
+      const resolved = resolveConflict(existing, profile, policy)
+      if (!sameProfile(resolved, existing)) changedProfiles.push(resolved)
+    }
+  }
+
+  const items = { added: 0, removed: 0 }
+  const result: BackupData = { ...current }
+
+  if (mode === "replace") {
+    profiles.removed = current.profiles.filter((p) => !importedIds.has(p.id)).length
+    for (const field of LIST_FIELDS) {
+      const importedItemIds = new Set(imported[field].map((item) => item.id))
+      const storedIds = new Set(current[field].map((item) => item.id))
+      items.added += imported[field].filter((item) => !storedIds.has(item.id)).length
+      items.removed += current[field].filter((item) => !importedItemIds.has(item.id)).length
+    }
+    Object.assign(result, imported, {
+      automationSettings: withLocalSecrets(imported.automationSettings, current.automationSettings)
+    })
+  } else {
+    result.messageTemplates = mergeById(current.messageTemplates, imported.messageTemplates)
+    result.templateLibrary = mergeById(current.templateLibrary, imported.templateLibrary)
+    result.sequences = mergeById(current.sequences, imported.sequences)
+    result.experiments = mergeById(current.experiments, imported.experiments)
+    result.suppressionList = mergeSuppressions(current.suppressionList, imported.suppressionList)
+    for (const field of LIST_FIELDS) {
+      items.added += result[field].length - current[field].length
+    }
+    result.conversations = mergeConversations(current.conversations, imported.conversations)
+  }
+
+  return {
+    preview: {
+      mode,
+      profiles,
+      conflicts,
+      messages: {
+        added: countMessages(imported.conversations, current.conversations),
+        removed: mode === "replace" ? countMessages(current.conversations, imported.conversations) : 0
+      },
+      items,
+      replacesSettings: mode === "replace"
+    },
+    data: result,
+    changedProfiles
+  }
+}
+
+/**
+ * What importing the backup would change, without changing anything
+ */
+export async function previewBackupImport(
+  backup: Backup,
+  mode: BackupImportMode,
+  policy: ProfileConflictPolicy
+): Promise<BackupPreview> {
+  return planImport(backup, await readStoredData(), mode, policy).preview
+}
+
+/**
+ * Merge adds the backup's profiles (conflicts resolved by `policy`), messages and list items
+ * to what is stored and keeps local settings. Replace swaps all of it for the backup's,
+ * keeping only this browser's API keys and automation on/off switch.
+ */
+export async function importBackup(
+  backup: Backup,
+  mode: BackupImportMode,
+  policy: ProfileConflictPolicy
+): Promise<BackupPreview> {
+  const { preview, data, changedProfiles } = planImport(backup, await readStoredData(), mode, policy)
+
+  if (mode === "replace") {
+    await replaceProfiles(data.profiles)
+    await saveAutomationSettings(data.automationSettings)
+    await saveFilterSettings(data.filterSettings)
+    await saveMessageStats(data.messageStats)
+  } else if (changedProfiles.length > 0) {
+    await saveProfiles(changedProfiles)
+  }
+
+  await saveConversations(data.conversations)
+  await saveMessageTemplates(data.messageTemplates)
+  await saveTemplateLibrary(data.templateLibrary)
+  await saveSequences(data.sequences)
+  await saveExperiments(data.experiments)
+  await saveSuppressionList(data.suppressionList)
+  return preview
+}
@@ -0,0 +1,63 @@
+import type { CustomerProfile, DeliveryResult } from "~/types"
+import { openOrReuseTab, sendTabMessage, waitForTabComplete } from "~/utils/tabs"
+
+const TAB_LOAD_TIMEOUT = 30000
+const COMPOSER_TIMEOUT = 45000
+
+/**
+ * Delivers a message through the startupschool.org co-founder matching composer.
+ * Opens (or reuses) the candidate tab and hands the text to the composer content script,
+ * which fills the message box, submits it and confirms the result from the DOM.
+ */
+export async function deliverViaComposer(
+  profile: CustomerProfile,
+  message: string
+): Promise<DeliveryResult> {
+  if (!profile.profileUrl || !profile.profileUrl.includes("startupschool.org")) {
+    return {
+      success: false,
+      reason: "page_error",
+      error: "Profile has no startupschool.org URL"
+    }
+  }
+
+  let tabId: number | undefined
+  let createdTab = false
+
+  try {
+    const { tab, created } = await openOrReuseTab(profile.profileUrl)
+    tabId = tab.id
+    createdTab = created
+
+    if (!tabId) {
+      return { success: false, reason: "page_error", error: "Could not open candidate tab" }
+    }
+
+    await waitForTabComplete(tabId, TAB_LOAD_TIMEOUT)
+
+    const response = await sendTabMessage<DeliveryResult>(
+      tabId,
+      { action: "deliverMessage", message },
+      COMPOSER_TIMEOUT
+    )
+
+    if (!response) {
+      return { success: false, reason: "page_error", error: "Composer script returned no result" }
+    }
+
+    return response
+  } catch (error) {
+    console.error("[Delivery] Composer delivery failed:", error)
+    return {
+      success: false,
+      reason: "page_error",
+      error: error instanceof Error ? error.message : "Unknown error"
+    }
+  } finally {
+    if (createdTab && tabId) {
+      chrome.tabs.remove(tabId).catch(() => {
+        // Tab already closed by the user
+      })
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { installFakeChrome } from "~/test/fakeChrome"
+import { appendToThread } from "./conversations"
+
+let store: Record<string, any>
+
+beforeEach(() => {
+  store = installFakeChrome({ conversations: {} })
+})
+
+describe("appendToThread", () => {
+  it("keeps every message when a send and an inbox scan write at the same time", async () => {
+    await Promise.all([
+      appendToThread("a", "Ann", [{ direction: "outbound", text: "Hi Ann", at: 1, deliveryState: "sent" }]),
+      appendToThread("b", "Ben", [{ direction: "inbound", text: "Thanks!", at: 2, deliveryState: "received" }]),
+      appendToThread("a", "Ann", [{ direction: "inbound", text: "Hello", at: 3, deliveryState: "received" }])
+    ])
+
+    expect(store.conversations.a.messages.map((m: any) => m.text)).toEqual(["Hi Ann", "Hello"])
+    expect(store.conversations.b.messages.map((m: any) => m.text)).toEqual(["Thanks!"])
+  })
+})
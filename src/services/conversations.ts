@@ -0,0 +1,77 @@
+import type { ConversationMessage, ConversationStore, ConversationThread } from "~/types"
+import { getConversations, saveConversations } from "~/utils/storage"
+
+// Per-thread cap; the oldest messages of a long thread are dropped first
+const MAX_THREAD_MESSAGES = 200
+
+const CONVERSATIONS_LOCK = "conversations"
+
+export type NewConversationMessage = Omit<ConversationMessage, "id">
+
+// Writes wait for the one before, so a send and an inbox scan can't drop each other's messages
+let writeChain: Promise<unknown> = Promise.resolve()
+
+/**
+ * Reads, changes and saves the conversation store, one write at a time.
+ * The chain orders writes within this context; the Web Lock orders them against other contexts.
+ */
+function updateConversations<T>(fn: (conversations: ConversationStore) => T): Promise<T> {
+  const write = async () => {
+    const conversations = await getConversations()
+    const result = fn(conversations)
+    await saveConversations(conversations)
+    return result
+  }
+  const run = writeChain.then(() =>
+    typeof navigator !== "undefined" && navigator.locks ? navigator.locks.request(CONVERSATIONS_LOCK, write) : write()
+  )
+  writeChain = run.catch(() => {})
+  return run
+}
+
+/**
+ * Adds messages to a profile's thread, creating the thread on first contact
+ */
+export async function appendToThread(
+  profileId: string,
+  profileName: string,
+  messages: NewConversationMessage[]
+): Promise<ConversationThread> {
+  return updateConversations((conversations) => {
+    const thread: ConversationThread = conversations[profileId] || {
+      profileId,
+      profileName,
+      messages: [],
+      updatedAt: 0
+    }
+
+    for (const message of messages) {
+      thread.messages.push({
+        ...message,
+        id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+      })
+    }
+    thread.messages.sort((a, b) => a.at - b.at)
+    if (thread.messages.length > MAX_THREAD_MESSAGES) {
+      thread.messages = thread.messages.slice(-MAX_THREAD_MESSAGES)
+    }
+    thread.profileName = profileName
+    thread.updatedAt = Math.max(thread.updatedAt, ...messages.map((m) => m.at))
+
+    conversations[profileId] = thread
+    return thread
+  })
+}
+
+export async function getThread(profileId: string): Promise<ConversationThread | null> {
+  const conversations = await getConversations()
+  return conversations[profileId] || null
+}
+
+/**
+ * Threads with the most recent activity first
+ */
+export async function listThreads(): Promise<ConversationThread[]> {
+  const conversations = await getConversations()
+  return Object.values(conversations).sort((a, b) => b.updatedAt - a.updatedAt)
+}
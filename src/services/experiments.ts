@@ -0,0 +1,138 @@
+import type {
+  AutomationSettings,
+  ConversationStore,
+  Experiment,
+  ExperimentSignificance,
+  ExperimentVariant,
+  ExperimentVariantResult
+} from "~/types"
+import { hashString } from "~/utils/hash"
+import { getExperiments } from "~/utils/storage"
+
+// Below this many contacted profiles per variant, results are shown but not called
+const MIN_SAMPLE_SIZE = 20
+const SIGNIFICANCE_LEVEL = 0.05
+
+export async function getActiveExperiment(settings: AutomationSettings): Promise<Experiment | null> {
+  if (!settings.activeExperimentId) return null
+  const experiment = (await getExperiments()).find((e) => e.id === settings.activeExperimentId)
+  return experiment && experiment.variants.length > 0 && !experiment.endedAt ? experiment : null
+}
+
+/**
+ * Hash-based, so a profile keeps its variant for every step
+ */
+export function assignVariant(experiment: Experiment, profileId: string): ExperimentVariant {
+  return experiment.variants[hashString(`${experiment.id}:${profileId}`) % experiment.variants.length]
+}
+
+/**
+ * Settings as the variant sees them. A variant with only a prompt forces AI drafting,
+ * so prompt tests aren't skewed by a globally selected template.
+ */
+export function applyVariant(settings: AutomationSettings, variant: ExperimentVariant): AutomationSettings {
+  let messageSource = settings.messageSource
+  if (variant.templateId) {
+    messageSource = variant.promptProfileId ? "template+ai" : "template"
+  } else if (variant.promptProfileId) {
+    messageSource = "ai"
+  }
+
+  return {
+    ...settings,
+    messageSource,
+    templateId: variant.templateId || settings.templateId,
+    activePromptProfileId: variant.promptProfileId || settings.activePromptProfileId
+  }
+}
+
+export function computeExperimentResults(
+  experiment: Experiment,
+  conversations: ConversationStore
+): ExperimentVariantResult[] {
+  const results = new Map<string, ExperimentVariantResult>(
+    experiment.variants.map((v) => [
+      v.id,
+      { variantId: v.id, name: v.name, sent: 0, failed: 0, contacted: 0, replied: 0, replyRate: 0 }
+    ])
+  )
+
+  for (const thread of Object.values(conversations)) {
+    let firstSent: { at: number; variantId: string } | null = null
+
+    for (const message of thread.messages) {
+      if (message.direction !== "outbound" || message.experimentId !== experiment.id) continue
+      const result = results.get(message.variantId || "")
+      if (!result) continue
+
+      if (message.deliveryState === "sent") {
+        result.sent++
+        if (!firstSent) firstSent = { at: message.at, variantId: result.variantId }
+      } else {
+        result.failed++
+      }
+    }
+
+    if (!firstSent) continue
+    const result = results.get(firstSent.variantId)!
+    result.contacted++
+    if (thread.messages.some((m) => m.direction === "inbound" && m.at >= firstSent!.at)) {
+      result.replied++
+    }
+  }
+
+  return Array.from(results.values()).map((r) => ({
+    ...r,
+    replyRate: r.contacted > 0 ? r.replied / r.contacted : 0
+  }))
+}
+
+/**
+ * Standard normal CDF (Abramowitz and Stegun 26.2.17)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x))
+  const d = 0.3989423 * Math.exp((-x * x) / 2)
+  const tail = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))))
+  return x > 0 ? 1 - tail : tail
+}
+
+/**
+ * Compares the two variants with the best reply rates. Null until two variants have contacts.
+ */
+export function compareLeaders(results: ExperimentVariantResult[]): ExperimentSignificance | null {
+  const ranked = results.filter((r) => r.contacted > 0).sort((a, b) => b.replyRate - a.replyRate)
+  if (ranked.length < 2) return null
+
+  const [leader, runnerUp] = ranked
+  const pooled = (leader.replied + runnerUp.replied) / (leader.contacted + runnerUp.contacted)
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / leader.contacted + 1 / runnerUp.contacted))
+  const z = standardError > 0 ? (leader.replyRate - runnerUp.replyRate) / standardError : 0
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)))
+  const enoughData = leader.contacted >= MIN_SAMPLE_SIZE && runnerUp.contacted >= MIN_SAMPLE_SIZE
+
+  return {
+    leaderId: leader.variantId,
+    runnerUpId: runnerUp.variantId,
+    z,
+    pValue,
+    significant: enoughData && pValue < SIGNIFICANCE_LEVEL,
+    enoughData
+  }
+}
+
+export function createExperimentVariant(name: string): ExperimentVariant {
+  return {
+    id: `var-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name
+  }
+}
+
+export function createExperiment(name: string): Experiment {
+  return {
+    id: `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    variants: [createExperimentVariant("A"), createExperimentVariant("B")],
+    createdAt: Date.now()
+  }
+}
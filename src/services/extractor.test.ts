@@ -0,0 +1,158 @@
+import fs from "fs"
+import path from "path"
+import { JSDOM } from "jsdom"
+import { describe, expect, it } from "vitest"
+import type { ProfileSelectorTable, RawProfileData } from "~/types"
+import { DEFAULT_PROFILE_SELECTORS } from "~/utils/constants"
+import { buildProfileFromRaw, extractProfileFromDocument, extractRawProfile, mapToInterest } from "./extractor"
+
+const CANDIDATE_URL = "https://www.startupschool.org/cofounder-matching/candidate/abc123"
+
+function loadFixture(name: string, url: string = CANDIDATE_URL): Document {
+  const html = fs.readFileSync(path.join(__dirname, "__fixtures__", name), "utf8")
+  return new JSDOM(html, { url }).window.document
+}
+
+describe("extractRawProfile", () => {
+  it("reads every field from a saved candidate page", () => {
+    const raw = extractRawProfile(DEFAULT_PROFILE_SELECTORS, loadFixture("candidate-full.html"))
+
+    expect(raw).toMatchObject({
+      name: "Jane Doe",
+      location: "Berlin, Germany",
+      age: 29,
+      interests: ["Machine Learning", "E-commerce", "Web3", "Fintech", "Gardening"],
+      email: "jane@example.com",
+      profileUrl: CANDIDATE_URL
+    })
+    expect(raw!.bio).toContain("Former ML engineer at a logistics startup")
+    expect(raw!.bio).toContain("Grew a marketplace side project")
+    expect(raw!.sources).toMatchObject({
+      name: "selector:h1",
+      location: "selector:[title='Location']",
+      age: "selector:[title='Age']",
+      interests: "selector:.css-1iujaz8",
+      email: 'selector:a[href^="mailto:"]'
+    })
+  })
+
+  it("falls back to meta tags when no selector matches", () => {
+    const raw = extractRawProfile(DEFAULT_PROFILE_SELECTORS, loadFixture("candidate-meta-only.html"))
+
+    expect(raw).toMatchObject({
+      name: "Arjun Mehta",
+      bio: "Second-time founder in Bangalore working on AI agents for small businesses.",
+      interests: [],
+      sources: { name: "fallback:og-title", bio: "fallback:meta-description" }
+    })
+    expect(raw!.location).toBeUndefined()
+    expect(raw!.age).toBeUndefined()
+  })
+
+  it("returns null while the page has no name yet", () => {
+    expect(extractRawProfile(DEFAULT_PROFILE_SELECTORS, loadFixture("candidate-loading.html"))).toBeNull()
+  })
+
+  it("skips invalid selectors instead of throwing", () => {
+    const selectors: ProfileSelectorTable = {
+      ...DEFAULT_PROFILE_SELECTORS,
+      name: ["h1[", ...DEFAULT_PROFILE_SELECTORS.name]
+    }
+    expect(extractRawProfile(selectors, loadFixture("candidate-full.html"))?.name).toBe("Jane Doe")
+  })
+
+  it("still works when serialized the way executeScript injects it", () => {
+    // executeScript sends only the function source, so anything it closes over is gone
+    const injected = new Function(`return (${extractRawProfile.toString()})`)() as typeof extractRawProfile
+    const doc = loadFixture("candidate-full.html")
+
+    const result = injected(DEFAULT_PROFILE_SELECTORS, doc)
+    // The result crosses back through structured cloning
+    expect(JSON.parse(JSON.stringify(result))).toEqual(extractRawProfile(DEFAULT_PROFILE_SELECTORS, doc))
+  })
+})
+
+describe("mapToInterest", () => {
+  it.each([
+    ["Machine Learning", "AI"],
+    ["Web3", "Blockchain"],
+    ["crypto payments", "Blockchain"],
+    ["E-commerce", "E-commerce"],
+    ["Full-stack", "Full-Stack Development"],
+    ["Entrepreneurship", "Startups"],
+    ["Fintech", "Technology"],
+    ["B2B sales", "Business"],
+    ["Gardening", "Other"]
+  ])("maps %s to %s", (text, interest) => {
+    expect(mapToInterest(text)).toBe(interest)
+  })
+})
+
+describe("buildProfileFromRaw", () => {
+  const raw: RawProfileData = {
+    name: "Jane Doe",
+    location: "Berlin, Germany",
+    age: 29,
+    bio: "Builds tooling for online stores.",
+    interests: ["Machine Learning", "Web3", "Gardening"],
+    email: "jane@example.com",
+    profileUrl: CANDIDATE_URL,
+    sources: {
+      name: "selector:h1",
+      location: "selector:[title='Location']",
+      age: "selector:[title='Age']",
+      bio: "selector:.css-vqx3x2",
+      interests: "selector:.css-1iujaz8",
+      email: 'selector:a[href^="mailto:"]'
+    }
+  }
+
+  it("normalizes fields and derives the id and age group", () => {
+    const profile = buildProfileFromRaw(raw)
+
+    expect(profile).toMatchObject({
+      id: "abc123",
+      name: "Jane Doe",
+      country: "Germany",
+      age: 29,
+      ageGroup: "26-35",
+      interests: ["AI", "Blockchain", "Other"],
+      email: "jane@example.com",
+      profileUrl: CANDIDATE_URL,
+      messageCount: 0
+    })
+    expect(profile.collectedAt).toBeInstanceOf(Date)
+  })
+
+  it("records where each field came from and how much to trust it", () => {
+    const { provenance } = buildProfileFromRaw(raw)
+
+    expect(provenance!.name).toEqual({ source: "selector:h1", confidence: 0.9 })
+    // Split off a city: capped at 0.5
+    expect(provenance!.country).toEqual({ source: "selector:[title='Location']+city-country-split", confidence: 0.5 })
+    // Hashed class names score lower, and one of three interests mapped to Other
+    expect(provenance!.interests!.confidence).toBe(Math.round(0.7 * (0.4 + 0.6 * (2 / 3)) * 100) / 100)
+  })
+
+  it("distrusts an implausible age", () => {
+    expect(buildProfileFromRaw({ ...raw, age: 3 }).provenance!.age!.confidence).toBe(0.2)
+  })
+})
+
+describe("extractProfileFromDocument", () => {
+  it("turns a saved candidate page into a profile", () => {
+    const profile = extractProfileFromDocument(loadFixture("candidate-full.html"))
+
+    expect(profile).toMatchObject({
+      id: "abc123",
+      name: "Jane Doe",
+      country: "Germany",
+      ageGroup: "26-35",
+      interests: ["AI", "E-commerce", "Blockchain", "Technology", "Other"]
+    })
+  })
+
+  it("returns null for a page without a candidate", () => {
+    expect(extractProfileFromDocument(loadFixture("candidate-loading.html"))).toBeNull()
+  })
+})
@@ -0,0 +1,344 @@
+import type {
+  CustomerProfile,
+  Interest,
+  ProfileProvenance,
+  ProfileSelectorTable,
+  RawProfileData
+} from "~/types"
+import { COUNTRIES, DEFAULT_PROFILE_SELECTORS } from "~/utils/constants"
+import { categorizeAgeGroup } from "~/utils/filter"
+import { getSelectorPack } from "~/utils/storage"
+
+/**
+ * Reads raw field values from a candidate page.
+ *
+ * Must stay self-contained (no imports, no module-level references): it is passed
+ * as `func` to chrome.scripting.executeScript, which serializes it into the page.
+ */
+export function extractRawProfile(
+  selectors: ProfileSelectorTable,
+  root?: Document
+): RawProfileData | null {
+  const doc = root || document
+  const sources: RawProfileData["sources"] = {}
+  const truncate = (text: string, max: number) =>
+    text.length > max ? text.substring(0, max) + "..." : text
+
+  const firstText = (list: string[]): { text: string; selector: string } | undefined => {
+    for (const selector of list) {
+      try {
+        const text = doc.querySelector(selector)?.textContent?.trim()
+        if (text) return { text, selector }
+      } catch {
+        // Invalid selector, skip
+      }
+    }
+    return undefined
+  }
+
+  const allText = (list: string[]): { text: string; selector: string }[] =>
+    list
+      .flatMap((selector) => {
+        try {
+          return Array.from(doc.querySelectorAll(selector)).map((el) => ({
+            text: el.textContent?.trim() || "",
+            selector
+          }))
+        } catch {
+          return []
+        }
+      })
+      .filter((chunk) => chunk.text.length > 0)
+
+  // Name, with og:title as fallback
+  const nameHit = firstText(selectors.name)
+  let name = nameHit?.text
+  if (name) {
+    sources.name = `selector:${nameHit.selector}`
+  } else {
+    name = doc.querySelector('meta[property="og:title"]')?.getAttribute("content")?.trim() || undefined
+    if (name) sources.name = "fallback:og-title"
+  }
+  if (!name) {
+    return null
+  }
+
+  const locationHit = firstText(selectors.location)
+  const location = locationHit?.text
+  if (locationHit) sources.location = `selector:${locationHit.selector}`
+
+  // Age: first number in an explicit age field
+  let age: number | undefined
+  for (const selector of selectors.age) {
+    let text = ""
+    try {
+      text = doc.querySelector(selector)?.textContent || ""
+    } catch {
+      continue
+    }
+    const match = text.match(/\d{1,3}/)
+    if (match) {
+      age = parseInt(match[0], 10)
+      sources.age = `selector:${selector}`
+      break
+    }
+  }
+
+  // Bio: every matching block, then meta description, then the longest reasonable paragraph
+  let bio: string | undefined
+  const bioChunks = allText(selectors.bio)
+  if (bioChunks.length > 0) {
+    bio = truncate(Array.from(new Set(bioChunks.map((c) => c.text))).join("\n\n"), 6000)
+    sources.bio = `selector:${Array.from(new Set(bioChunks.map((c) => c.selector))).join(",")}`
+  }
+  if (!bio) {
+    const metaDesc =
+      doc.querySelector("meta[name='description']")?.getAttribute("content") ||
+      doc.querySelector("meta[property='og:description']")?.getAttribute("content")
+    if (metaDesc?.trim()) {
+      bio = truncate(metaDesc.trim(), 4000)
+      sources.bio = "fallback:meta-description"
+    }
+  }
+  if (!bio) {
+    const paragraph = Array.from(doc.querySelectorAll("p"))
+      .map((el) => el.textContent?.trim() || "")
+      .filter((t) => t.length >= 60 && t.length <= 5000)
+      .sort((a, b) => b.length - a.length)[0]
+    if (paragraph) {
+      bio = truncate(paragraph, 4000)
+      sources.bio = "fallback:longest-paragraph"
+    }
+  }
+
+  // Interests: use the first selector that finds elements
+  let interests: string[] = []
+  for (const selector of selectors.interests) {
+    let elements: Element[] = []
+    try {
+      elements = Array.from(doc.querySelectorAll(selector))
+    } catch {
+      continue
+    }
+    if (elements.length > 0) {
+      interests = elements
+        .map((el) => el.textContent?.trim() || "")
+        .filter((text) => text.length > 0 && text.length < 50)
+        .slice(0, 10)
+      sources.interests = `selector:${selector}`
+      break
+    }
+  }
+
+  // Email from mailto links or explicit fields
+  let email: string | undefined
+  for (const selector of selectors.email) {
+    let element: Element | null = null
+    try {
+      element = doc.querySelector(selector)
+    } catch {
+      continue
+    }
+    if (element) {
+      const candidate =
+        element.getAttribute("href")?.replace("mailto:", "") ||
+        element.textContent?.trim()
+      if (candidate && candidate.includes("@")) {
+        email = candidate
+        sources.email = `selector:${selector}`
+        break
+      }
+    }
+  }
+
+  return {
+    name,
+    location,
+    age,
+    bio,
+    interests,
+    email,
+    profileUrl: doc.location?.href || window.location.href,
+    sources
+  }
+}
+
+/**
+ * Maps text to known interest types
+ */
+export function mapToInterest(text: string): Interest {
+  const lowerText = text.toLowerCase()
+
+  if (lowerText.includes("blockchain") || lowerText.includes("crypto") || lowerText.includes("web3")) {
+    return "Blockchain"
+  }
+  if (lowerText.includes("ai") || lowerText.includes("artificial intelligence") || lowerText.includes("machine learning") || lowerText.includes("ml")) {
+    return "AI"
+  }
+  if (lowerText.includes("full stack") || lowerText.includes("fullstack") || lowerText.includes("full-stack") || lowerText.includes("software development") || lowerText.includes("web development")) {
+    return "Full-Stack Development"
+  }
+  if (lowerText.includes("ecommerce") || lowerText.includes("e-commerce") || lowerText.includes("online store")) {
+    return "E-commerce"
+  }
+  if (lowerText.includes("startup") || lowerText.includes("entrepreneur")) {
+    return "Startups"
+  }
+  if (lowerText.includes("tech") || lowerText.includes("technology") || lowerText.includes("software")) {
+    return "Technology"
+  }
+  if (lowerText.includes("business") || lowerText.includes("marketing") || lowerText.includes("sales")) {
+    return "Business"
+  }
+
+  return "Other"
+}
+
+export function generateProfileId(url: string): string {
+  try {
+    const urlObj = new URL(url)
+    // Handle candidate URLs: /cofounder-matching/candidate/ID
+    if (url.includes("/cofounder-matching/candidate/")) {
+      const match = url.match(/\/candidate\/([^\/\?]+)/)
+      if (match && match[1]) {
+        return match[1]
+      }
+    }
+    // Handle regular profile URLs
+    const pathParts = urlObj.pathname.split("/").filter(Boolean)
+    return pathParts[pathParts.length - 1] || `profile-${Date.now()}`
+  } catch {
+    return `profile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  }
+}
+
+// Base confidence for each kind of source; selectors are direct reads, fallbacks are guesses
+const SOURCE_CONFIDENCE: Record<string, number> = {
+  selector: 0.9,
+  "fallback:og-title": 0.6,
+  "fallback:meta-description": 0.4,
+  "fallback:longest-paragraph": 0.25
+}
+
+function scoreSource(source: string): number {
+  if (source.startsWith("selector:")) {
+    // Hashed class names match whatever the current build put there
+    return /\.css-[a-z0-9]+/i.test(source) ? 0.7 : SOURCE_CONFIDENCE.selector
+  }
+  return SOURCE_CONFIDENCE[source] ?? 0.3
+}
+
+/**
+ * Normalizes raw page values into a CustomerProfile, recording where each field came from
+ */
+export function buildProfileFromRaw(raw: RawProfileData): CustomerProfile {
+  const sources = raw.sources || {}
+  const provenance: ProfileProvenance = {}
+
+  if (sources.name) {
+    provenance.name = { source: sources.name, confidence: scoreSource(sources.name) }
+  }
+
+  // Keep just the country when the location reads "City, Country"
+  let country = raw.location
+  if (country && sources.location) {
+    let source = sources.location
+    let confidence = scoreSource(source)
+    const parts = country.split(",")
+    if (parts.length > 1) {
+      country = parts[parts.length - 1].trim()
+      source += "+city-country-split"
+      confidence = Math.min(confidence, 0.5)
+    }
+    if (!COUNTRIES.includes(country)) {
+      confidence = Math.min(confidence, 0.5)
+    }
+    provenance.country = { source, confidence }
+  }
+
+  if (raw.age !== undefined && sources.age) {
+    // Anything outside a plausible founder age is more likely a stray number
+    const plausible = raw.age >= 16 && raw.age <= 90
+    provenance.age = { source: sources.age, confidence: plausible ? scoreSource(sources.age) : 0.2 }
+  }
+
+  if (raw.bio && sources.bio) {
+    provenance.bio = { source: sources.bio, confidence: scoreSource(sources.bio) }
+  }
+
+  const interests = raw.interests.map(mapToInterest)
+  if (interests.length > 0 && sources.interests) {
+    const mapped = interests.filter((i) => i !== "Other").length / interests.length
+    provenance.interests = {
+      source: sources.interests,
+      confidence: Math.round(scoreSource(sources.interests) * (0.4 + 0.6 * mapped) * 100) / 100
+    }
+  }
+
+  if (raw.email && sources.email) {
+    provenance.email = { source: sources.email, confidence: scoreSource(sources.email) }
+  }
+
+  return {
+    id: generateProfileId(raw.profileUrl),
+    name: raw.name!,
+    email: raw.email,
+    country,
+    age: raw.age,
+    ageGroup: categorizeAgeGroup(raw.age),
+    interests,
+    bio: raw.bio,
+    profileUrl: raw.profileUrl,
+    collectedAt: new Date(),
+    messageCount: 0,
+    provenance
+  }
+}
+
+/**
+ * Extracts a profile from a document the caller has direct access to (content scripts)
+ */
+export function extractProfileFromDocument(
+  doc: Document,
+  selectors: ProfileSelectorTable = DEFAULT_PROFILE_SELECTORS
+): CustomerProfile | null {
+  try {
+    const raw = extractRawProfile(selectors, doc)
+    return raw ? buildProfileFromRaw(raw) : null
+  } catch (error) {
+    console.error("Error extracting profile:", error)
+    return null
+  }
+}
+
+/**
+ * Extracts a profile by injecting the engine into a tab.
+ * Fallback for when the content script is not loaded; polls while the page renders.
+ * Uses the stored selector pack unless a table is passed in.
+ */
+export async function extractProfileFromTab(
+  tabId: number,
+  selectors?: ProfileSelectorTable,
+  timeoutMs = 12000,
+  intervalMs = 500
+): Promise<CustomerProfile | null> {
+  const table = selectors || (await getSelectorPack()).selectors
+  const start = Date.now()
+
+  while (Date.now() - start < timeoutMs) {
+    const results = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: extractRawProfile,
+      args: [table]
+    })
+
+    const raw = results?.[0]?.result as RawProfileData | null | undefined
+    if (raw) {
+      return buildProfileFromRaw(raw)
+    }
+
+    await new Promise((r) => setTimeout(r, intervalMs))
+  }
+
+  return null
+}
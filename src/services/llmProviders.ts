@@ -0,0 +1,195 @@
+import OpenAI from "openai"
+import type { AutomationSettings, LLMProviderId, ProviderSettings } from "~/types"
+import { LLM_PROVIDERS } from "~/utils/constants"
+
+export interface CompletionRequest {
+  model: string
+  system: string
+  user: string
+  temperature: number
+  maxTokens: number
+  json?: boolean // reply with a single JSON object
+}
+
+export interface LLMProvider {
+  id: LLMProviderId
+  complete(request: CompletionRequest): Promise<string>
+  listModels(): Promise<string[]>
+}
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1"
+const ANTHROPIC_VERSION = "2023-06-01"
+
+function createOpenAIProvider(id: LLMProviderId, config: ProviderSettings): LLMProvider {
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK insists on one
+    apiKey: config.apiKey || "not-needed",
+    baseURL: id === "openai-compatible" ? config.baseUrl : undefined,
+    dangerouslyAllowBrowser: true // Required for browser extensions
+  })
+
+  return {
+    id,
+    async complete(request) {
+      const response = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: "json_object" } : undefined
+      })
+      return response.choices[0]?.message?.content?.trim() || ""
+    },
+    async listModels() {
+      const models: string[] = []
+      for await (const model of client.models.list()) {
+        models.push(model.id)
+      }
+      // The OpenAI list includes embedding, audio and image models
+      const chat = id === "openai" ? models.filter((m) => /^(gpt-|o\d|chatgpt-)/.test(m)) : models
+      return chat.sort()
+    }
+  }
+}
+
+function createAnthropicProvider(config: ProviderSettings): LLMProvider {
+  const headers = {
+    "content-type": "application/json",
+    "x-api-key": config.apiKey || "",
+    "anthropic-version": ANTHROPIC_VERSION,
+    // Required for calls made from a browser context
+    "anthropic-dangerous-direct-browser-access": "true"
+  }
+
+  async function request(path: string, init: RequestInit = {}): Promise<any> {
+    const response = await fetch(`${ANTHROPIC_API_URL}${path}`, { ...init, headers })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${body.error?.message || response.statusText}`)
+    }
+    return body
+  }
+
+  return {
+    id: "anthropic",
+    async complete(req) {
+      const body = await request("/messages", {
+        method: "POST",
+        body: JSON.stringify({
+          model: req.model,
+          max_tokens: req.maxTokens,
+          temperature: Math.min(1, req.temperature), // Anthropic caps temperature at 1
+          system: req.json ? `${req.system}\n\nRespond with a single JSON object and nothing else.` : req.system,
+          messages: [{ role: "user", content: req.user }]
+        })
+      })
+      return (body.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("")
+        .trim()
+    },
+    async listModels() {
+      const body = await request("/models?limit=100")
+      return (body.data || []).map((model: any) => model.id)
+    }
+  }
+}
+
+/**
+ * Same input, same output; never touches the network
+ */
+function createMockProvider(): LLMProvider {
+  const openings = [
+    "I came across your profile and would love to connect.",
+    "Your background caught my eye and I'd enjoy comparing notes.",
+    "I think we're working on similar problems and wanted to say hello."
+  ]
+
+  return {
+    id: "mock",
+    async complete(request) {
+      let hash = 0
+      for (const char of request.system + request.user) {
+        hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+      }
+      const name = request.user.match(/^Name: (.+)$/m)?.[1]?.split(" ")[0]
+      const opening = openings[hash % openings.length]
+      if (!request.json) return `${name ? `Hi ${name}, ` : ""}${opening}`
+
+      // Shaped like a generated message; other JSON callers ignore the keys they don't know
+      return JSON.stringify({
+        subject: "Hello from Startup School",
+        greeting: `Hi ${name || "there"}`,
+        body: opening,
+        callToAction: "Would you be open to a quick chat?",
+        facts: []
+      })
+    },
+    async listModels() {
+      return [...LLM_PROVIDERS.mock.models]
+    }
+  }
+}
+
+export function getProviderId(settings: AutomationSettings): LLMProviderId {
+  return settings.provider || "openai"
+}
+
+/**
+ * Stored settings for a provider; OpenAI falls back to the pre-provider settings fields
+ */
+export function getProviderSettings(
+  settings: AutomationSettings,
+  id: LLMProviderId = getProviderId(settings)
+): ProviderSettings {
+  const stored = settings.providers?.[id] || {}
+  if (id !== "openai") return stored
+  return {
+    ...stored,
+    apiKey: stored.apiKey ?? settings.openaiApiKey,
+    model: stored.model || settings.openaiModel
+  }
+}
+
+export function getActiveModel(settings: AutomationSettings): string {
+  const id = getProviderId(settings)
+  return getProviderSettings(settings, id).model || LLM_PROVIDERS[id].models[0] || ""
+}
+
+/**
+ * Why the selected provider can't be used, or null when it can
+ */
+export function getProviderProblem(
+  settings: AutomationSettings,
+  id: LLMProviderId = getProviderId(settings)
+): string | null {
+  const info = LLM_PROVIDERS[id]
+  const config = getProviderSettings(settings, id)
+  if (info.needsApiKey && !config.apiKey) return `${info.label} API key not configured`
+  if (info.needsBaseUrl && !config.baseUrl) return `${info.label} base URL not configured`
+  return null
+}
+
+export function isProviderConfigured(settings: AutomationSettings): boolean {
+  return getProviderProblem(settings) === null
+}
+
+/**
+ * Builds a client for a provider from stored settings. Throws when credentials are missing.
+ */
+export function createProvider(
+  settings: AutomationSettings,
+  id: LLMProviderId = getProviderId(settings)
+): LLMProvider {
+  const problem = getProviderProblem(settings, id)
+  if (problem) throw new Error(problem)
+
+  const config = getProviderSettings(settings, id)
+  if (id === "anthropic") return createAnthropicProvider(config)
+  if (id === "mock") return createMockProvider()
+  return createOpenAIProvider(id, config)
+}
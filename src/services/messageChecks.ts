@@ -0,0 +1,119 @@
+import type {
+  AutomationSettings,
+  CheckFinding,
+  CustomerProfile,
+  MessageCheckRule,
+  MessageCheckSettings,
+  MessageDraft
+} from "~/types"
+import { DEFAULT_MESSAGE_CHECKS } from "~/utils/constants"
+import { tokenize } from "~/utils/similarity"
+import { findClosestMessage } from "./similarityIndex"
+
+// [Your Name], {Recipient}, {{first_name}}, <Company>
+const PLACEHOLDER_PATTERN = /\[[^\]\n]{1,40}\]|\{\{?\s*[\w ]{1,40}\s*\}?\}|<[A-Za-z][\w ]{0,30}>/g
+const SALUTATION_PATTERN = /(?:^|\n)\s*(?:hi|hello|hey|dear)\s+([\p{L}][\p{L}'-]*)/giu
+const GENERIC_SALUTATIONS = new Set(["there", "again", "all", "everyone", "team", "folks", "friend"])
+
+const STOPWORDS = new Set([
+  "about", "after", "also", "been", "from", "have", "into", "just", "like", "more", "that",
+  "their", "them", "they", "this", "were", "what", "when", "with", "your", "yours", "you're"
+])
+
+interface CheckInput {
+  draft: MessageDraft
+  profile: CustomerProfile
+  config: MessageCheckSettings
+  closest: number // similarity to the closest recent sent message
+}
+
+type Check = (input: CheckInput) => string | null
+
+/**
+ * Stored check settings over the defaults, so settings saved before a rule existed still get it
+ */
+export function getCheckSettings(settings: AutomationSettings): MessageCheckSettings {
+  const stored = settings.messageChecks
+  return {
+    ...DEFAULT_MESSAGE_CHECKS,
+    ...stored,
+    actions: { ...DEFAULT_MESSAGE_CHECKS.actions, ...stored?.actions }
+  }
+}
+
+// Word prefixes, so "founded" in a fact matches "founder" in a bio
+function stems(text: string): Set<string> {
+  return new Set(tokenize(text).map((word) => word.slice(0, 5)))
+}
+
+const CHECKS: Record<MessageCheckRule, Check> = {
+  placeholders: ({ draft }) => {
+    const found = draft.text.match(PLACEHOLDER_PATTERN)
+    return found ? `Contains ${Array.from(new Set(found)).join(", ")}` : null
+  },
+
+  unsupported_facts: ({ draft, profile }) => {
+    const known = stems([profile.name, profile.country, profile.bio, ...(profile.interests || [])].join(" "))
+    const unsupported = (draft.facts || []).filter((fact) => {
+      const words = tokenize(fact).filter((w) => w.length > 3 && !STOPWORDS.has(w))
+      const matched = words.filter((w) => known.has(w.slice(0, 5))).length
+      return words.length > 0 && matched / words.length < 0.5
+    })
+    return unsupported.length > 0 ? `Not found in the profile: ${unsupported.join("; ")}` : null
+  },
+
+  length: ({ draft, config }) => {
+    const length = draft.text.trim().length
+    if (length < config.minLength) return `${length} characters, under the ${config.minLength} minimum`
+    if (length > config.maxLength) return `${length} characters, over the ${config.maxLength} maximum`
+    return null
+  },
+
+  banned_phrases: ({ draft, config }) => {
+    const text = draft.text.toLowerCase()
+    const found = config.bannedPhrases.filter((phrase) => phrase.trim() && text.includes(phrase.trim().toLowerCase()))
+    return found.length > 0 ? `Contains "${found.join('", "')}"` : null
+  },
+
+  near_duplicate: ({ config, closest }) =>
+    closest >= config.duplicateThreshold ? `${Math.round(closest * 100)}% similar to a recent message` : null,
+
+  wrong_name: ({ draft, profile }) => {
+    const names = new Set(tokenize(profile.name || ""))
+    if (names.size === 0) return null
+    const wrong = Array.from(draft.text.matchAll(SALUTATION_PATTERN))
+      .map((match) => match[1])
+      .filter((name) => !names.has(name.toLowerCase()) && !GENERIC_SALUTATIONS.has(name.toLowerCase()))
+    return wrong.length > 0 ? `Addresses ${Array.from(new Set(wrong)).join(", ")}, not ${profile.name}` : null
+  }
+}
+
+/**
+ * Runs every enabled check against a message about to be sent
+ */
+export async function runMessageChecks(
+  draft: MessageDraft,
+  profile: CustomerProfile,
+  settings: AutomationSettings
+): Promise<CheckFinding[]> {
+  const config = getCheckSettings(settings)
+  const enabled = (Object.keys(CHECKS) as MessageCheckRule[]).filter((rule) => config.actions[rule] !== "off")
+  const closest = enabled.includes("near_duplicate") ? (await findClosestMessage(draft.text)).similarity : 0
+
+  const findings: CheckFinding[] = []
+  for (const rule of enabled) {
+    const detail = CHECKS[rule]({ draft, profile, config, closest })
+    if (detail) {
+      findings.push({ rule, action: config.actions[rule] as CheckFinding["action"], detail })
+    }
+  }
+  return findings
+}
+
+export function isBlocked(findings: CheckFinding[]): boolean {
+  return findings.some((f) => f.action === "block")
+}
+
+export function describeFindings(findings: CheckFinding[]): string {
+  return findings.map((f) => `${f.rule}: ${f.detail}`).join("; ")
+}
@@ -1,6 +1,46 @@
-import type { CustomerProfile, AutomationSettings, MessageTemplate, MessageHistory } from "~/types"
-import { generatePersonalizedMessage, isOpenAIConfigured } from "./openai"
+import type {
+  CustomerProfile,
+  AutomationSettings,
+  CheckFinding,
+  MessageDraft,
+  MessageTemplate,
+  DeliveryFailureReason,
+  DeliveryResult,
+  DraftSource,
+  LibraryTemplate,
+  RateLimitDecision,
+  SequenceStep,
+  SequenceStepRef
+} from "~/types"
+import { getSequences, getTemplateLibrary, saveProfile, updateStoredProfile } from "~/utils/storage"
+import { renderTemplate } from "~/utils/templateEngine"
+import { deliverViaComposer } from "./composerDelivery"
+import { appendToThread } from "./conversations"
+import { assembleMessage, generatePersonalizedMessage } from "./ai"
+import { applyVariant, assignVariant, getActiveExperiment } from "./experiments"
+import { createProvider, getActiveModel, getProviderProblem } from "./llmProviders"
+import { describeFindings, getCheckSettings, isBlocked, runMessageChecks } from "./messageChecks"
+import { getActivePrompt, promptVersionLabel } from "./prompts"
 import { RateLimiter } from "./rateLimiter"
+import { advanceSequence, findStep } from "./sequences"
+import { findClosestMessage } from "./similarityIndex"
+import { getSuppression, profileKeys } from "./suppression"
+
+// Extra generations when a draft repeats an earlier message
+const MAX_VARIATION_RETRIES = 2
+
+// How a draft gets written: from a library template, the AI, or both
+interface DraftPlan {
+  template?: LibraryTemplate
+  useAI: boolean
+}
+
+// Settings a profile is drafted with, after any experiment variant is applied
+interface ProfileSettings {
+  settings: AutomationSettings
+  experimentId?: string
+  variantId?: string
+}
 
 export class MessageDeliveryService {
   private rateLimiter: RateLimiter
@@ -14,93 +54,214 @@ export class MessageDeliveryService {
     this.ready = this.rateLimiter.ready
   }
 
-  async generateDraft(profile: CustomerProfile): Promise<string> {
-    if (!isOpenAIConfigured()) {
-      throw new Error("OpenAI API key not configured")
+  private async settingsFor(profile?: CustomerProfile): Promise<ProfileSettings> {
+    const experiment = profile ? await getActiveExperiment(this.settings) : null
+    if (!experiment) return { settings: this.settings }
+
+    const variant = assignVariant(experiment, profile!.id)
+    return {
+      settings: applyVariant(this.settings, variant),
+      experimentId: experiment.id,
+      variantId: variant.id
     }
+  }
+
+  /**
+   * Picks the template and whether the AI is involved. A step's own template wins over
+   * the message source; in "template" mode, steps with a prompt still go through the AI.
+   */
+  private async planDraft(settings: AutomationSettings, step?: SequenceStep): Promise<DraftPlan> {
+    const library = await getTemplateLibrary()
 
-    let message = await generatePersonalizedMessage(
-      profile,
-      this.settings.openaiModel
-    )
+    const stepTemplate = step?.templateId && library.find((t) => t.id === step.templateId)
+    if (stepTemplate) return { template: stepTemplate, useAI: false }
 
-    return this.applyNameTemplate(message, profile)
+    const source = settings.messageSource || "ai"
+    const selected = source !== "ai" && library.find((t) => t.id === settings.templateId)
+    if (selected) {
+      return { template: selected, useAI: source === "template+ai" || Boolean(step?.prompt?.trim()) }
+    }
+    if (source !== "ai") {
+      console.warn("Selected message template not found; falling back to AI")
+    }
+    return { useAI: true }
+  }
+
+  /**
+   * Whether drafting for this step needs an AI key
+   */
+  async needsAI(step?: SequenceStep, profile?: CustomerProfile): Promise<boolean> {
+    if (step?.template?.trim()) return false
+    const { settings } = await this.settingsFor(profile)
+    return (await this.planDraft(settings, step)).useAI
   }
 
+  /**
+   * Writes the message for a profile. A sequence step with a fixed template skips the AI;
+   * otherwise the step's prompt is added to the generation instructions.
+   * AI drafts that repeat an earlier send are regenerated while messageVariation is on.
+   */
+  async generateDraft(profile: CustomerProfile, step?: SequenceStep): Promise<MessageDraft> {
+    if (step?.template?.trim()) {
+      return { text: this.fillPlaceholders(step.template, profile), source: { templateId: step.id } }
+    }
+
+    const { settings, experimentId, variantId } = await this.settingsFor(profile)
+    const plan = await this.planDraft(settings, step)
+    const rendered = plan.template
+      ? renderTemplate(plan.template.body, profile, { senderName: this.settings.senderName })
+      : undefined
+    if (!plan.useAI) return { text: rendered!, source: { templateId: plan.template!.id, experimentId, variantId } }
+
+    const provider = createProvider(settings)
+
+    const instructions = [
+      rendered &&
+        `Base the message on this draft. Keep its intent and structure, and adapt the wording to the recipient:\n"""\n${rendered}\n"""`,
+      step?.prompt
+    ]
+      .filter(Boolean)
+      .join("\n\n")
+
+    const prompt = getActivePrompt(settings)
+    const source: DraftSource = {
+      model: getActiveModel(settings),
+      promptVersion: promptVersionLabel(prompt.profile, prompt.version),
+      templateId: plan.template?.id,
+      experimentId,
+      variantId
+    }
+
+    const threshold = getCheckSettings(settings).duplicateThreshold
+    let best: { draft: MessageDraft; similarity: number } | null = null
+    let avoid = ""
+
+    // With message variation on, drafts too close to something already sent are regenerated
+    for (let attempt = 0; attempt <= MAX_VARIATION_RETRIES; attempt++) {
+      const parts = await generatePersonalizedMessage(
+        provider,
+        profile,
+        source.model,
+        settings.ignoreLowConfidenceFields,
+        [instructions, avoid].filter(Boolean).join("\n\n") || undefined,
+        prompt.version
+      )
+      const draft = { text: assembleMessage(parts, this.settings.senderName), facts: parts.facts, source }
+      if (!settings.messageVariation) return draft
+
+      const closest = await findClosestMessage(draft.text)
+      if (closest.similarity < threshold) return draft
+      if (!best || closest.similarity < best.similarity) best = { draft, similarity: closest.similarity }
+
+      avoid = `Your last draft was too similar to a message already sent:\n"""\n${closest.text}\n"""\nWrite something clearly different in wording and structure.`
+    }
+
+    console.warn(`Draft for ${profile.name} is still ${Math.round(best!.similarity * 100)}% similar to an earlier message`)
+    return best!.draft
+  }
+
+  /**
+   * Sends a draft, or generates one when none is given. Every message goes through
+   * the pre-send checks first.
+   */
   async sendMessage(
     profile: CustomerProfile,
-    customMessage?: string
-  ): Promise<{ success: boolean; message?: string; error?: string }> {
+    customDraft?: MessageDraft,
+    sequenceStep?: SequenceStepRef
+  ): Promise<{
+    success: boolean
+    message?: string
+    error?: string
+    reason?: DeliveryFailureReason
+    rateLimit?: RateLimitDecision
+  }> {
+    const suppressed = await getSuppression(profileKeys(profile))
+    if (suppressed) {
+      return {
+        success: false,
+        error: `${profile.name} is on the do-not-contact list (${suppressed.reason === "opt_out" ? "opted out" : "added manually"})`
+      }
+    }
+
     // Check rate limits
-    const canSend = await this.rateLimiter.canSendMessage()
+    const canSend = await this.rateLimiter.canSendMessage(profile.id)
     if (!canSend.allowed) {
       return {
         success: false,
-        error: canSend.reason || "Rate limit exceeded"
+        error: this.describeRateLimit(canSend),
+        rateLimit: canSend
       }
     }
 
     // Generate or use custom message
-    let message: string
+    let draft: MessageDraft
     try {
-      if (customMessage) {
-        message = customMessage
+      if (customDraft?.text) {
+        draft = customDraft
       } else {
-        if (!isOpenAIConfigured()) {
+        const step = sequenceStep ? findStep(await getSequences(), sequenceStep) : undefined
+        const problem = getProviderProblem(this.settings)
+        if (problem && (await this.needsAI(step, profile))) {
           return {
             success: false,
-            error: "OpenAI API key not configured"
+            error: problem
           }
         }
-        message = await generatePersonalizedMessage(
-          profile,
-          this.settings.openaiModel
-        )
-        // Only apply template to AI generated messages
-        message = this.applyNameTemplate(message, profile)
+        draft = await this.generateDraft(profile, step)
       }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Unknown error"
       await this.rateLimiter.recordMessageFailed()
+      await this.recordSendFailure(profile)
       // Save failed attempt to history
-      await this.saveMessageHistory(profile, "", false, `Failed to generate: ${errorMsg}`)
+      await this.recordOutbound(profile, "", false, `Failed to generate: ${errorMsg}`, undefined, sequenceStep)
       return {
         success: false,
         error: `Failed to generate message: ${errorMsg}`
       }
     }
 
-    // Add delay to avoid spam detection
-    if (this.settings.rateLimit.delayBetweenMessages > 0) {
-      await this.delay(this.settings.rateLimit.delayBetweenMessages)
+    const message = draft.text
+    const checks = await runMessageChecks(draft, profile, this.settings)
+    if (isBlocked(checks)) {
+      const errorMsg = `Blocked by pre-send checks: ${describeFindings(checks.filter((c) => c.action === "block"))}`
+      await this.rateLimiter.recordMessageFailed()
+      await this.recordSendFailure(profile)
+      await this.recordOutbound(profile, message, false, errorMsg, "blocked_by_check", sequenceStep, checks, draft.source)
+      return { success: false, error: errorMsg, reason: "blocked_by_check" }
+    }
+    if (checks.length > 0) {
+      console.warn(`Sending to ${profile.name} with flags: ${describeFindings(checks)}`)
     }
 
-    // Send message (implementation depends on how messages are sent)
+    // Deliver through the startupschool.org composer
     try {
-      const success = await this.actuallySendMessage(profile, message)
+      const delivery = await this.actuallySendMessage(profile, message)
 
-      if (success) {
-        await this.rateLimiter.recordMessageSent()
+      if (delivery.success) {
+        await this.rateLimiter.recordMessageSent(profile.id)
         await this.saveMessageTemplate(profile, message, true)
-        await this.saveMessageHistory(profile, message, true)
-        await this.updateProfileMessageCount(profile)
+        await this.recordOutbound(profile, message, true, undefined, undefined, sequenceStep, checks, draft.source)
+        await this.updateProfileMessageCount(profile, sequenceStep)
         return { success: true, message }
       } else {
+        const errorMsg = delivery.error || "Failed to send message"
         await this.rateLimiter.recordMessageFailed()
-        await this.saveMessageTemplate(profile, message, false, "Failed to send message")
-        await this.saveMessageHistory(profile, message, false, "Failed to send message")
-        return { success: false, error: "Failed to send message" }
+        await this.recordSendFailure(profile)
+        await this.saveMessageTemplate(profile, message, false, errorMsg)
+        await this.recordOutbound(profile, message, false, errorMsg, delivery.reason, sequenceStep, checks, draft.source)
+        return { success: false, error: errorMsg, reason: delivery.reason }
       }
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : "Unknown error"
       await this.rateLimiter.recordMessageFailed()
+      await this.recordSendFailure(profile)
       // Save failed attempt to history
-      if (message) {
-        await this.saveMessageHistory(profile, message, false, errorMsg)
-      }
+      await this.recordOutbound(profile, message, false, errorMsg, "page_error", sequenceStep, checks, draft.source)
       return {
         success: false,
-        error: `Error sending message: ${errorMsg}`
+        error: `Error sending message: ${errorMsg}`,
+        reason: "page_error"
       }
     }
   }
@@ -108,31 +269,13 @@ export class MessageDeliveryService {
   private async actuallySendMessage(
     profile: CustomerProfile,
     message: string
-  ): Promise<boolean> {
-    // This is a placeholder implementation
-    // In a real scenario, you would:
-    // 1. Navigate to the messaging interface
-    // 2. Fill in the message
-    // 3. Submit the form
-    // 4. Verify success
-
-    // For now, we'll simulate the process
-    console.log(`Sending message to ${profile.name}:`, message)
-
-    // Simulate API call or form submission
-    // You might use content scripts to interact with the page
-    try {
-      // Placeholder: In reality, you'd interact with the startupschool.org messaging system
-      // This could involve:
-      // - Using content scripts to fill forms
-      // - Making API calls if available
-      // - Using browser automation
-
-      return true // Simulated success
-    } catch (error) {
-      console.error("Error in message delivery:", error)
-      return false
+  ): Promise<DeliveryResult> {
+    console.log(`Sending message to ${profile.name}`)
+    const result = await deliverViaComposer(profile, message)
+    if (!result.success) {
+      console.error(`Delivery to ${profile.name} failed (${result.reason}):`, result.error)
     }
+    return result
   }
 
   private async saveMessageTemplate(
@@ -147,7 +290,7 @@ export class MessageDeliveryService {
       generatedAt: new Date(),
       profileId: profile.id,
       profileName: profile.name,
-      openaiModel: this.settings.openaiModel,
+      openaiModel: getActiveModel(this.settings),
       success,
       error
     }
@@ -168,94 +311,118 @@ export class MessageDeliveryService {
     }
   }
 
-  private async saveMessageHistory(
+  /**
+   * Adds an outbound message to the profile's conversation thread. `source` comes from
+   * the draft as generated; text a person wrote or edited has none.
+   */
+  private async recordOutbound(
     profile: CustomerProfile,
     message: string,
     success: boolean,
-    error?: string
+    error?: string,
+    failureReason?: DeliveryFailureReason,
+    sequenceStep?: SequenceStepRef,
+    checks?: CheckFinding[],
+    source?: DraftSource
   ): Promise<void> {
-    const history: MessageHistory = {
-      id: `hist-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      profileId: profile.id,
-      profileName: profile.name,
-      message,
-      sentAt: new Date(),
-      success,
-      error,
-      openaiModel: this.settings.openaiModel
-    }
 
     try {
-      const stored = await chrome.storage.local.get("messageHistory")
-      const historyList: MessageHistory[] = stored.messageHistory || []
-      historyList.push(history)
-
-      // Keep only last 500 messages
-      if (historyList.length > 500) {
-        historyList.shift()
-      }
-
-      await chrome.storage.local.set({ messageHistory: historyList })
+      await appendToThread(profile.id, profile.name, [
+        {
+          direction: "outbound",
+          text: message,
+          at: Date.now(),
+          deliveryState: success ? "sent" : "failed",
+          error,
+          failureReason,
+          model: source?.model,
+          promptVersion: source?.promptVersion,
+          templateId: source?.templateId,
+          sequenceId: sequenceStep?.sequenceId,
+          sequenceStep: sequenceStep?.stepIndex,
+          experimentId: source?.experimentId,
+          variantId: source?.variantId,
+          checks: checks?.length ? checks : undefined
+        }
+      ])
     } catch (error) {
-      console.error("Error saving message history:", error)
+      console.error("Error saving conversation message:", error)
     }
   }
 
-  private async updateProfileMessageCount(profile: CustomerProfile): Promise<void> {
+  /**
+   * Counts the send on the stored profile in one transaction, so it can't overwrite
+   * changes made since `profile` was read (a detected reply, an enrichment)
+   */
+  private async updateProfileMessageCount(
+    profile: CustomerProfile,
+    sequenceStep?: SequenceStepRef
+  ): Promise<void> {
     profile.messageCount++
     profile.lastMessageSent = new Date()
+    profile.sendFailures = undefined
+    // Reads the sequence, so it has to happen before the transaction
+    if (sequenceStep) {
+      await advanceSequence(profile, sequenceStep)
+    }
 
-    try {
-      const stored = await chrome.storage.local.get("profiles")
-      const profiles: CustomerProfile[] = stored.profiles || []
-      const index = profiles.findIndex((p) => p.id === profile.id)
+    const updated = await updateStoredProfile(profile.id, (stored) => {
+      stored.messageCount = (stored.messageCount || 0) + 1
+      stored.lastMessageSent = profile.lastMessageSent
+      stored.sendFailures = undefined
+      if (sequenceStep) stored.sequenceState = profile.sequenceState
+    })
+    if (!updated) {
+      await saveProfile(profile)
+    }
+  }
 
-      if (index >= 0) {
-        profiles[index] = profile
-      } else {
-        profiles.push(profile)
-      }
+  /**
+   * Counts a failed send on the stored profile, so automation backs off from it and
+   * eventually gives up instead of picking it first every cycle
+   */
+  private async recordSendFailure(profile: CustomerProfile): Promise<void> {
+    await updateStoredProfile(profile.id, (stored) => {
+      stored.sendFailures = { count: (stored.sendFailures?.count || 0) + 1, lastFailedAt: Date.now() }
+    })
+  }
 
-      await chrome.storage.local.set({ profiles })
-    } catch (error) {
-      console.error("Error updating profile:", error)
-    }
+  private describeRateLimit(decision: RateLimitDecision): string {
+    const reason = decision.reason || "Rate limit exceeded"
+    if (!decision.waitTime) return reason
+    const minutes = Math.ceil(decision.waitTime / 60000)
+    return minutes >= 120
+      ? `${reason}; clears in ${Math.ceil(minutes / 60)}h`
+      : `${reason}; clears in ${minutes}m`
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms))
+  async checkRateLimit(profileId?: string): Promise<RateLimitDecision> {
+    return this.rateLimiter.canSendMessage(profileId)
   }
 
   async getStats() {
     return this.rateLimiter.getStats()
   }
 
+  async refreshRateLimits(): Promise<void> {
+    await this.rateLimiter.refreshWindows()
+  }
+
   updateSettings(newSettings: AutomationSettings): void {
     this.settings = newSettings
     this.rateLimiter = new RateLimiter(newSettings)
   }
 
-  private applyNameTemplate(message: string, profile: CustomerProfile): string {
+  /**
+   * Fills the [Recipient] and [Your Name] tokens of a fixed step message; the text is otherwise sent as written
+   */
+  private fillPlaceholders(message: string, profile: CustomerProfile): string {
     const sender = (this.settings.senderName || "").trim() || "Your Name"
     const receiver = (profile.name || "").trim() || "there"
 
-    // Replace placeholder tokens first
-    let body = message
-      .replace(/\[Your Name\]/gi, sender)
-      .replace(/\{Your Name\}/gi, sender)
-      .replace(/<Your Name>/gi, sender)
-      .replace(/\[Recipient\]/gi, receiver)
-      .replace(/\{Recipient\}/gi, receiver)
-      .replace(/<Recipient>/gi, receiver)
+    return message
+      .replace(/[\[{<]Your Name[\]}>]/gi, sender)
+      .replace(/[\[{<]Recipient[\]}>]/gi, receiver)
       .trim()
-
-    // Avoid duplicating greeting if model already started with "Hi/Hello"
-    const greetingRegex = /^(hi|hello|hey)[^a-z]/i
-    const hasGreeting = greetingRegex.test(body)
-    const salutation = hasGreeting ? "" : `Hi ${receiver},\n\n`
-
-    const closing = `\n\nBest,\n${sender}`
-
-    return `${salutation}${body}${closing}`
   }
 }
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { CustomerProfile, OutreachQueueItem } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+import { dequeueDue, enqueueProfiles, removeProfileFromQueue, setQueuePaused, updateItemDraft } from "./outreachQueue"
+
+function item(profileId: string, scheduledAt: number): OutreachQueueItem {
+  return {
+    id: `queue-${profileId}`,
+    profileId,
+    profileName: profileId,
+    scheduledAt,
+    status: "pending",
+    createdAt: 0
+  }
+}
+
+let store: Record<string, any>
+
+beforeEach(() => {
+  store = installFakeChrome({
+    outreachQueue: { paused: false, items: [item("a", 1), item("b", 2), item("c", 3)] }
+  })
+})
+
+describe("queue mutations", () => {
+  it("never hands the same item to two concurrent dequeues", async () => {
+    const taken = await Promise.all([dequeueDue(10), dequeueDue(10), dequeueDue(10), dequeueDue(10)])
+
+    expect(taken.map((i) => i?.profileId)).toEqual(["a", "b", "c", undefined])
+    expect(store.outreachQueue.items).toEqual([])
+  })
+
+  it("keeps a removal made while a dequeue is in flight", async () => {
+    await Promise.all([dequeueDue(10), removeProfileFromQueue("c")])
+
+    expect(store.outreachQueue.items.map((i: OutreachQueueItem) => i.profileId)).toEqual(["b"])
+  })
+
+  it("applies mutations in the order they were made", async () => {
+    const [, first] = await Promise.all([setQueuePaused(true), dequeueDue(10), setQueuePaused(false)])
+
+    expect(first).toBeNull()
+    expect(store.outreachQueue.paused).toBe(false)
+    expect(store.outreachQueue.items).toHaveLength(3)
+  })
+})
+
+describe("enqueueProfiles", () => {
+  it("keeps how each draft was produced with the queued text", async () => {
+    const profile = { id: "d", name: "Dana" } as CustomerProfile
+    const source = { model: "gpt-4o-mini", promptVersion: "Default v2", templateId: "tpl-1" }
+
+    await enqueueProfiles([profile], 1000, { d: { text: "Hi Dana", facts: ["YC"], source } })
+
+    const queued = store.outreachQueue.items.find((i: OutreachQueueItem) => i.profileId === "d")
+    expect(queued).toMatchObject({ draft: "Hi Dana", draftFacts: ["YC"], draftSource: source })
+  })
+})
+
+describe("updateItemDraft", () => {
+  const generated = {
+    draft: "Hi Dana",
+    draftFacts: ["YC"],
+    draftSource: { model: "gpt-4o-mini", experimentId: "exp-1", variantId: "var-a" }
+  }
+
+  it("drops the generated facts and source when the text is edited", async () => {
+    store = installFakeChrome({ outreachQueue: { paused: false, items: [{ ...item("d", 1), ...generated }] } })
+
+    await updateItemDraft("queue-d", "Hey Dana, written by hand")
+
+    const [edited] = store.outreachQueue.items
+    expect(edited.draft).toBe("Hey Dana, written by hand")
+    expect(edited.draftFacts).toBeUndefined()
+    expect(edited.draftSource).toBeUndefined()
+  })
+
+  it("keeps them when the text is saved unchanged", async () => {
+    store = installFakeChrome({ outreachQueue: { paused: false, items: [{ ...item("d", 1), ...generated }] } })
+
+    await updateItemDraft("queue-d", "Hi Dana")
+
+    expect(store.outreachQueue.items[0]).toMatchObject(generated)
+  })
+})
@@ -0,0 +1,195 @@
+import type { CustomerProfile, MessageDraft, OutreachQueue, OutreachQueueItem, SequenceStepRef } from "~/types"
+import { getOutreachQueue, saveOutreachQueue } from "~/utils/storage"
+
+const QUEUE_LOCK = "outreach-queue"
+
+// Every mutation waits for the one before it, so two can't read the same queue and both write
+let queueChain: Promise<unknown> = Promise.resolve()
+
+/**
+ * Reads, mutates and persists the queue in one step, one mutation at a time.
+ * The chain orders mutations within this context; the Web Lock orders them
+ * against the popup's, which run in a separate context.
+ */
+function updateQueue<T>(fn: (queue: OutreachQueue) => T): Promise<T> {
+  const mutate = async () => {
+    const queue = await getOutreachQueue()
+    const result = fn(queue)
+    await saveOutreachQueue(queue)
+    return result
+  }
+  const run = queueChain.then(() =>
+    typeof navigator !== "undefined" && navigator.locks ? navigator.locks.request(QUEUE_LOCK, mutate) : mutate()
+  )
+  queueChain = run.catch(() => {})
+  return run
+}
+
+function sortBySchedule(items: OutreachQueueItem[]): OutreachQueueItem[] {
+  return [...items].sort((a, b) => a.scheduledAt - b.scheduledAt)
+}
+
+/**
+ * Items in send order (earliest scheduled first)
+ */
+export async function getUpcomingSends(): Promise<OutreachQueueItem[]> {
+  const queue = await getOutreachQueue()
+  return sortBySchedule(queue.items)
+}
+
+/**
+ * Adds profiles to the end of the queue, one `spacingMs` apart after the last scheduled item.
+ * Profiles already queued are ignored.
+ */
+export async function enqueueProfiles(
+  profiles: CustomerProfile[],
+  spacingMs: number,
+  drafts: Record<string, MessageDraft> = {},
+  steps: Record<string, SequenceStepRef> = {}
+): Promise<OutreachQueueItem[]> {
+  return updateQueue((queue) => {
+    const queued = new Set(queue.items.map((item) => item.profileId))
+    const last = queue.items.reduce((max, item) => Math.max(max, item.scheduledAt), 0)
+    let nextAt = Math.max(Date.now(), last ? last + spacingMs : 0)
+
+    const added: OutreachQueueItem[] = []
+    for (const profile of profiles) {
+      if (queued.has(profile.id)) continue
+      queued.add(profile.id)
+
+      const item: OutreachQueueItem = {
+        id: `queue-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        profileId: profile.id,
+        profileName: profile.name,
+        scheduledAt: nextAt,
+        status: "pending",
+        draft: drafts[profile.id]?.text,
+        draftFacts: drafts[profile.id]?.facts,
+        draftSource: drafts[profile.id]?.source,
+        createdAt: Date.now(),
+        step: steps[profile.id]
+      }
+      added.push(item)
+      nextAt += spacingMs
+    }
+
+    queue.items.push(...added)
+    return added
+  })
+}
+
+/**
+ * Removes and returns the earliest pending item that is due.
+ * Returns null when the queue is paused or nothing is due yet.
+ */
+export async function dequeueDue(now: number = Date.now()): Promise<OutreachQueueItem | null> {
+  return updateQueue((queue) => {
+    if (queue.paused) return null
+
+    const next = sortBySchedule(queue.items).find(
+      (item) => item.status === "pending" && item.scheduledAt <= now
+    )
+    if (!next) return null
+
+    queue.items = queue.items.filter((item) => item.id !== next.id)
+    return next
+  })
+}
+
+/**
+ * Returns the earliest due pending item without removing it
+ */
+export async function peekDue(now: number = Date.now()): Promise<OutreachQueueItem | null> {
+  const queue = await getOutreachQueue()
+  if (queue.paused) return null
+  return (
+    sortBySchedule(queue.items).find(
+      (item) => item.status === "pending" && item.scheduledAt <= now
+    ) || null
+  )
+}
+
+/**
+ * Pushes an item back to a later time, e.g. until a rate limit clears
+ */
+export async function rescheduleItem(itemId: string, scheduledAt: number): Promise<void> {
+  await updateQueue((queue) => {
+    const item = queue.items.find((i) => i.id === itemId)
+    if (item) item.scheduledAt = scheduledAt
+  })
+}
+
+/**
+ * Moves an item to a new position in send order.
+ * Scheduled times stay in the same slots; items are reassigned to them in the new order.
+ */
+export async function reorderItem(itemId: string, newIndex: number): Promise<void> {
+  await updateQueue((queue) => {
+    const ordered = sortBySchedule(queue.items)
+    const slots = ordered.map((item) => item.scheduledAt)
+    const from = ordered.findIndex((item) => item.id === itemId)
+    if (from < 0) return
+
+    const [moved] = ordered.splice(from, 1)
+    const to = Math.max(0, Math.min(newIndex, ordered.length))
+    ordered.splice(to, 0, moved)
+
+    ordered.forEach((item, i) => {
+      item.scheduledAt = slots[i]
+    })
+    queue.items = ordered
+  })
+}
+
+export async function setItemPaused(itemId: string, paused: boolean): Promise<void> {
+  await updateQueue((queue) => {
+    const item = queue.items.find((i) => i.id === itemId)
+    if (item) item.status = paused ? "paused" : "pending"
+  })
+}
+
+export async function setQueuePaused(paused: boolean): Promise<void> {
+  await updateQueue((queue) => {
+    queue.paused = paused
+  })
+}
+
+/**
+ * Drops an item without sending it
+ */
+export async function skipItem(itemId: string): Promise<void> {
+  await updateQueue((queue) => {
+    queue.items = queue.items.filter((item) => item.id !== itemId)
+  })
+}
+
+/**
+ * Drops every queued send for a profile, e.g. once they have replied
+ */
+export async function removeProfileFromQueue(profileId: string): Promise<number> {
+  return updateQueue((queue) => {
+    const before = queue.items.length
+    queue.items = queue.items.filter((item) => item.profileId !== profileId)
+    return before - queue.items.length
+  })
+}
+
+/**
+ * Replaces a queued draft with text edited by hand. The facts and source described the
+ * generated text, so they go with it.
+ */
+export async function updateItemDraft(itemId: string, draft: string): Promise<void> {
+  await updateQueue((queue) => {
+    const item = queue.items.find((i) => i.id === itemId)
+    if (!item || item.draft === draft) return
+    item.draft = draft
+    item.draftFacts = undefined
+    item.draftSource = undefined
+  })
+}
+
+export async function clearQueue(): Promise<void> {
+  await updateQueue((queue) => {
+    queue.items = []
+  })
+}
@@ -1,297 +1,14 @@
-import axios from "axios"
-import type { CustomerProfile, AgeGroup, Interest } from "~/types"
-import { categorizeAgeGroup } from "~/utils/filter"
-
-/**
- * Extracts profile data from a startupschool.org profile page
- * This is called from a content script when on a profile page
- */
-export function extractProfileFromPage(document: Document): CustomerProfile | null {
-  try {
-    // Extract name - try multiple selectors (including candidate page selectors)
-    const nameSelectors = [
-      "h1",
-      ".profile-name",
-      "[data-name]",
-      ".user-name",
-      ".name",
-      "header h1",
-      ".profile-header h1",
-      ".user-profile h1",
-      ".candidate-name",
-      ".candidate-header h1",
-      "[data-candidate-name]",
-      ".cofounder-name",
-      "h2.candidate-name",
-      ".profile-title"
-    ]
-    let name = "Unknown"
-    for (const selector of nameSelectors) {
-      const element = document.querySelector(selector)
-      if (element?.textContent?.trim()) {
-        name = element.textContent.trim()
-        break
-      }
-    }
-
-    // Extract country/location - try multiple selectors (including candidate page selectors)
-    const locationSelectors = [
-      ".location",
-      ".country",
-      "[data-country]",
-      ".profile-location",
-      ".user-location",
-      ".location-info",
-      "[data-location]",
-      ".geo-location",
-      ".candidate-location",
-      "[data-candidate-location]",
-      ".cofounder-location",
-      ".location-text",
-      "[title='Location']",
-      ".css-1jvurm9"
-    ]
-    let country: string | undefined
-    for (const selector of locationSelectors) {
-      const element = document.querySelector(selector)
-      if (element?.textContent?.trim()) {
-        country = element.textContent.trim()
-        // Try to extract just the country name if it's in a format like "City, Country"
-        const parts = country.split(",")
-        if (parts.length > 1) {
-          country = parts[parts.length - 1].trim()
-        }
-        break
-      }
-    }
-
-    // Extract age - try explicit age fields and title markers
-    let age: number | undefined
-    const ageCandidates = [
-      document.querySelector(".age"),
-      document.querySelector("[data-age]"),
-      document.querySelector('[title=\"Age\"]')
-    ]
-    for (const el of ageCandidates) {
-      const text = el?.textContent || ""
-      const ageMatch = text.match(/\d{1,3}/)
-      if (ageMatch) {
-        age = parseInt(ageMatch[0])
-        break
-      }
-    }
-
-    // Extract bio/description - try multiple selectors (including candidate page selectors)
-    const bioSelectors = [
-      ".bio",
-      ".description",
-      "[data-bio]",
-      ".profile-bio",
-      ".user-bio",
-      ".about",
-      ".about-section",
-      ".profile-about",
-      ".profile-description",
-      ".user-description",
-      ".cofounder-card__description",
-      ".profile-summary",
-      ".details-section",
-      "p.description",
-      "section.about",
-      ".bio-text",
-      ".candidate-bio",
-      ".candidate-description",
-      "[data-candidate-bio]",
-      ".cofounder-bio",
-      ".about-text",
-      ".summary",
-      ".candidate-summary",
-      "[data-testid='about']",
-      "[data-testid='bio']",
-      ".css-1tp1ukf", // table details blocks
-      ".css-vqx3x2",  // intro paragraph
-      ".css-ruq4fr",  // location/age row
-      ".css-106je9h"  // extra paragraph block
-    ]
-    let bio: string | undefined
-    const bioChunks = bioSelectors
-      .flatMap((selector) => Array.from(document.querySelectorAll(selector)))
-      .map((el) => el.textContent?.trim() || "")
-      .filter((text) => text.length > 0)
-
-    if (bioChunks.length > 0) {
-      const combined = Array.from(new Set(bioChunks)).join("\n\n")
-      bio = combined.length > 6000 ? combined.substring(0, 6000) + "..." : combined
-    }
-    // Fallback to meta descriptions if no bio found
-    if (!bio) {
-      const metaDesc =
-        document.querySelector("meta[name='description']")?.getAttribute("content") ||
-        document.querySelector("meta[property='og:description']")?.getAttribute("content")
-      if (metaDesc?.trim()) {
-        const trimmed = metaDesc.trim()
-        bio = trimmed.length > 4000 ? trimmed.substring(0, 4000) + "..." : trimmed
-      }
-    }
-    // Fallback: pick the longest reasonable paragraph on the page
-    if (!bio) {
-      const paragraph = Array.from(document.querySelectorAll("p"))
-        .map((el) => el.textContent?.trim() || "")
-        .filter((t) => t.length >= 60 && t.length <= 5000)
-        .sort((a, b) => b.length - a.length)[0]
-      if (paragraph) {
-        bio = paragraph.length > 4000 ? paragraph.substring(0, 4000) + "..." : paragraph
-      }
-    }
-
-    // Extract interests/tags - look for common patterns (including candidate page selectors)
-    const interestSelectors = [
-      ".interest",
-      ".tag",
-      ".badge",
-      "[data-interest]",
-      ".skill",
-      ".expertise",
-      ".topic",
-      ".category",
-      ".interest-tag",
-      ".tag-item",
-      "a.tag",
-      ".chip",
-      ".candidate-tag",
-      ".candidate-skill",
-      "[data-skill]",
-      ".expertise-tag",
-      ".technology-tag",
-      ".interest-chip",
-      ".topics li",
-      ".skills li",
-      ".interests li",
-      ".tags li",
-      ".css-1iujaz8",  // shared interests tags
-      ".css-17813s4"   // personal interests tags
-    ]
-    const interestElements: Element[] = []
-    for (const selector of interestSelectors) {
-      const elements = document.querySelectorAll(selector)
-      if (elements.length > 0) {
-        interestElements.push(...Array.from(elements))
-        break // Use first selector that finds elements
-      }
-    }
-
-    const interests = interestElements
-      .map((el) => el.textContent?.trim())
-      .filter(Boolean)
-      .filter((text) => text && text.length < 50) // Filter out long texts
-      .slice(0, 10) // Limit to 10 interests
-      .map((text) => mapToInterest(text!)) as Interest[]
-
-    // Extract profile URL
-    const profileUrl = window.location.href
-
-    // Extract email if available
-    const emailSelectors = [
-      'a[href^="mailto:"]',
-      ".email",
-      "[data-email]",
-      ".contact-email",
-      ".user-email"
-    ]
-    let email: string | undefined
-    for (const selector of emailSelectors) {
-      const element = document.querySelector(selector)
-      if (element) {
-        email =
-          element.getAttribute("href")?.replace("mailto:", "") ||
-          element.textContent?.trim()
-        if (email && email.includes("@")) {
-          break
-        }
-      }
-    }
-
-    // Extract from meta tags as fallback
-    if (name === "Unknown") {
-      const metaName = document.querySelector('meta[property="og:title"]')
-      if (metaName) {
-        name = metaName.getAttribute("content") || "Unknown"
-      }
-    }
-
-    if (name === "Unknown") {
-      return null
-    }
-
-    const profile: CustomerProfile = {
-      id: generateProfileId(profileUrl),
-      name,
-      email,
-      country,
-      age,
-      ageGroup: categorizeAgeGroup(age),
-      interests,
-      bio,
-      profileUrl,
-      collectedAt: new Date(),
-      messageCount: 0
-    }
-
-    return profile
-  } catch (error) {
-    console.error("Error extracting profile:", error)
-    return null
-  }
-}
-
-/**
- * Maps text to known interest types
- */
-function mapToInterest(text: string): Interest {
-  const lowerText = text.toLowerCase()
-  
-  if (lowerText.includes("blockchain") || lowerText.includes("crypto") || lowerText.includes("web3")) {
-    return "Blockchain"
-  }
-  if (lowerText.includes("ai") || lowerText.includes("artificial intelligence") || lowerText.includes("machine learning") || lowerText.includes("ml")) {
-    return "AI"
-  }
-  if (lowerText.includes("full stack") || lowerText.includes("fullstack") || lowerText.includes("full-stack") || lowerText.includes("software development") || lowerText.includes("web development")) {
-    return "Full-Stack Development"
-  }
-  if (lowerText.includes("ecommerce") || lowerText.includes("e-commerce") || lowerText.includes("ecommerce") || lowerText.includes("online store")) {
-    return "E-commerce"
-  }
-  if (lowerText.includes("startup") || lowerText.includes("entrepreneur")) {
-    return "Startups"
-  }
-  if (lowerText.includes("tech") || lowerText.includes("technology") || lowerText.includes("software")) {
-    return "Technology"
-  }
-  if (lowerText.includes("business") || lowerText.includes("marketing") || lowerText.includes("sales")) {
-    return "Business"
-  }
-  
-  return "Other"
-}
-
-function generateProfileId(url: string): string {
-  try {
-    const urlObj = new URL(url)
-    // Handle candidate URLs: /cofounder-matching/candidate/ID
-    if (url.includes("/cofounder-matching/candidate/")) {
-      const match = url.match(/\/candidate\/([^\/\?]+)/)
-      if (match && match[1]) {
-        return match[1]
-      }
-    }
-    // Handle regular profile URLs
-    const pathParts = urlObj.pathname.split("/").filter(Boolean)
-    return pathParts[pathParts.length - 1] || `profile-${Date.now()}`
-  } catch {
-    return `profile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-  }
-}
+import type {
+  CustomerProfile,
+  CollectionQueue,
+  CollectionProgress
+} from "~/types"
+import { deserializeProfile } from "~/utils/serialization"
+import { getCollectionQueue, getSuppressionList, saveCollectionQueue, saveProfile } from "~/utils/storage"
+import { sendTabMessage, waitForTabComplete } from "~/utils/tabs"
+import { extractProfileFromTab } from "./extractor"
+import { enrichSavedProfile } from "./profileEnrichment"
+import { findSuppression, getSuppression, keysForUrl, profileKeys } from "./suppression"
 
 /**
  * Extracts profile URLs from a directory/list page
@@ -362,17 +79,7 @@ export async function collectProfileFromCurrentTab(): Promise<CustomerProfile |
       throw new Error("Not a startupschool.org page")
     }
 
-    // Inject content script and extract profile
-    const results = await chrome.scripting.executeScript({
-      target: { tabId: tab.id },
-      func: extractProfileScript
-    })
-
-    if (results && results[0]?.result) {
-      return results[0].result as CustomerProfile
-    }
-
-    return null
+    return await extractProfileFromTab(tab.id)
   } catch (error) {
     console.error("Error collecting profile from current tab:", error)
     throw error
@@ -380,61 +87,218 @@ export async function collectProfileFromCurrentTab(): Promise<CustomerProfile |
 }
 
 /**
- * Function to be injected into the page
+ * Saves a freshly extracted profile and runs enrichment on it. Profiles on the
+ * do-not-contact list are not stored; returns false for those.
  */
-function extractProfileScript(): CustomerProfile | null {
-  // This function runs in the page context
-  // We'll use the same extraction logic but need to pass it differently
-  // For now, return a message that the content script should handle it
-  return null
+export async function storeCollectedProfile(profile: CustomerProfile): Promise<boolean> {
+  if (await getSuppression(profileKeys(profile))) {
+    console.log(`Not storing ${profile.name}: on the do-not-contact list`)
+    return false
+  }
+  await saveProfile(profile)
+  await enrichSavedProfile(profile)
+  return true
+}
+
+export interface CollectionOptions {
+  concurrency?: number
+  tabTimeoutMs?: number
+  onProgress?: (progress: CollectionProgress) => void
+}
+
+const DEFAULT_CONCURRENCY = 2
+const DEFAULT_TAB_TIMEOUT = 30000
+
+let activeCollection: Promise<CustomerProfile[]> | null = null
+// In-memory copy of the queue while a batch runs; workers persist it after every step
+let runningQueue: CollectionQueue | null = null
+
+export function getCollectionProgress(queue: CollectionQueue): CollectionProgress {
+  const completed = queue.completed.length
+  const failed = queue.failed.length
+  const inProgress = queue.inProgress.length
+  return {
+    total: completed + failed + inProgress + queue.pending.length,
+    completed,
+    failed,
+    inProgress,
+    done: queue.pending.length === 0 && inProgress === 0
+  }
 }
 
 /**
- * Collects profiles from a list of URLs
+ * Opens one candidate tab, extracts the profile through the content script and closes the tab.
+ * Every wait is bounded by `timeoutMs` so a tab that never loads can't stall the batch.
  */
-export async function collectProfilesFromUrls(
-  urls: string[]
-): Promise<CustomerProfile[]> {
-  const profiles: CustomerProfile[] = []
+async function collectProfileFromUrl(
+  url: string,
+  timeoutMs: number
+): Promise<CustomerProfile> {
+  const tab = await chrome.tabs.create({ url, active: false })
+  if (!tab.id) {
+    throw new Error("Could not open tab")
+  }
 
-  for (const url of urls) {
+  try {
+    await waitForTabComplete(tab.id, timeoutMs)
+
+    // Wait a bit for dynamic content
+    await new Promise((resolve) => setTimeout(resolve, 2000))
+
+    let profile: CustomerProfile | null = null
     try {
-      // Open tab, wait for load, extract, close tab
-      const tab = await chrome.tabs.create({ url, active: false })
-      
-      // Wait for tab to load
-      await new Promise((resolve) => {
-        const listener = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
-          if (tabId === tab.id && changeInfo.status === "complete") {
-            chrome.tabs.onUpdated.removeListener(listener)
-            resolve(undefined)
-          }
-        }
-        chrome.tabs.onUpdated.addListener(listener)
-      })
+      const response = await sendTabMessage<{ profile: any }>(
+        tab.id,
+        { action: "extractProfile" },
+        timeoutMs
+      )
+      profile = response?.profile ? deserializeProfile(response.profile) : null
+    } catch (error) {
+      console.warn(`Content script unavailable for ${url}, injecting extractor:`, error)
+    }
 
-      // Wait a bit for dynamic content
-      await new Promise((resolve) => setTimeout(resolve, 2000))
+    if (!profile) {
+      profile = await extractProfileFromTab(tab.id)
+    }
+    if (!profile) {
+      throw new Error("No profile data found on page")
+    }
 
-      // Extract profile
-      const results = await chrome.scripting.executeScript({
-        target: { tabId: tab.id! },
-        func: () => {
-          // This would need to be a serializable function
-          // For now, we'll use the content script approach
-          return null
-        }
-      })
+    if (!(await storeCollectedProfile(profile))) {
+      throw new Error(`${profile.name} is on the do-not-contact list`)
+    }
+    return profile
+  } finally {
+    chrome.tabs.remove(tab.id).catch(() => {
+      // Tab already closed
+    })
+  }
+}
 
-      // Close tab
-      await chrome.tabs.remove(tab.id!)
+async function runCollectionQueue(options: CollectionOptions): Promise<CustomerProfile[]> {
+  const concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY)
+  const timeoutMs = options.tabTimeoutMs || DEFAULT_TAB_TIMEOUT
+  const profiles: CustomerProfile[] = []
 
-      // Note: Actual extraction happens via content script
-      // This is a placeholder for the structure
-    } catch (error) {
-      console.error(`Error collecting profile from ${url}:`, error)
+  const queue = await getCollectionQueue()
+  if (!queue) return profiles
+  runningQueue = queue
+
+  // URLs left in progress by a killed service worker go back to the front of the queue
+  queue.pending.unshift(...queue.inProgress)
+  queue.inProgress = []
+
+  const persist = async () => {
+    queue.updatedAt = Date.now()
+    await saveCollectionQueue(queue)
+    options.onProgress?.(getCollectionProgress(queue))
+  }
+  await persist()
+
+  const worker = async () => {
+    while (queue.pending.length > 0) {
+      const url = queue.pending.shift()!
+      queue.inProgress.push(url)
+      await persist()
+
+      try {
+        const profile = await collectProfileFromUrl(url, timeoutMs)
+        profiles.push(profile)
+        queue.completed.push(url)
+      } catch (error) {
+        console.error(`Error collecting profile from ${url}:`, error)
+        queue.failed.push({
+          url,
+          error: error instanceof Error ? error.message : "Unknown error"
+        })
+      } finally {
+        queue.inProgress = queue.inProgress.filter((u) => u !== url)
+        await persist()
+      }
     }
   }
 
+  await Promise.all(Array.from({ length: concurrency }, worker))
   return profiles
 }
+
+/**
+ * Collects profiles from a list of URLs.
+ * URLs are appended to a persisted queue so a service-worker restart can resume the batch
+ * with `resumeProfileCollection`.
+ */
+export async function collectProfilesFromUrls(
+  urls: string[],
+  options: CollectionOptions = {}
+): Promise<CustomerProfile[]> {
+  const existing = await getCollectionQueue()
+  const queue: CollectionQueue =
+    runningQueue ||
+    (existing && !getCollectionProgress(existing).done
+      ? existing
+      : {
+          pending: [],
+          inProgress: [],
+          completed: [],
+          failed: [],
+          startedAt: Date.now(),
+          updatedAt: Date.now()
+        })
+
+  const suppressed = await getSuppressionList()
+  const known = new Set([
+    ...queue.pending,
+    ...queue.inProgress,
+    ...queue.completed,
+    ...queue.failed.map((f) => f.url)
+  ])
+  for (const url of urls) {
+    if (!known.has(url) && !findSuppression(suppressed, keysForUrl(url))) {
+      queue.pending.push(url)
+      known.add(url)
+    }
+  }
+  await saveCollectionQueue(queue)
+
+  // A batch already running in this worker picks up the new URLs; anything it
+  // misses because its workers were already winding down is resumed afterwards
+  if (activeCollection) {
+    const collected = await activeCollection
+    return [...collected, ...(await resumeProfileCollection(options))]
+  }
+
+  return resumeProfileCollection(options)
+}
+
+/**
+ * Continues a persisted collection batch, if one is unfinished
+ */
+export async function resumeProfileCollection(
+  options: CollectionOptions = {}
+): Promise<CustomerProfile[]> {
+  if (activeCollection) {
+    return activeCollection
+  }
+
+  const queue = await getCollectionQueue()
+  if (!queue || getCollectionProgress(queue).done) {
+    return []
+  }
+
+  activeCollection = runCollectionQueue(options).finally(() => {
+    activeCollection = null
+    runningQueue = null
+  })
+  return activeCollection
+}
+
+/**
+ * Drops any pending URLs; tabs already open finish on their own
+ */
+export async function cancelProfileCollection(): Promise<void> {
+  const queue = runningQueue || (await getCollectionQueue())
+  if (queue) {
+    queue.pending = []
+    await saveCollectionQueue(queue)
+  }
+}
@@ -0,0 +1,176 @@
+import type {
+  CustomerProfile,
+  Interest,
+  ProfileCsvColumn,
+  ProfileCsvImportField,
+  ProfileCsvImportResult,
+  ProfileCsvMapping
+} from "~/types"
+import { COUNTRIES, PROFILE_CSV_COLUMNS, PROFILE_CSV_IMPORT_FIELDS } from "~/utils/constants"
+import { toCsv, unescapeCell } from "~/utils/csv"
+import { categorizeAgeGroup } from "~/utils/filter"
+import { getProfiles, getSuppressionList, saveProfiles } from "~/utils/storage"
+import { generateProfileId, mapToInterest } from "./extractor"
+import { findSuppression, normalizeUrl, profileKeys } from "./suppression"
+
+// Header spellings, besides the column labels, recognized for each field
+const HEADER_ALIASES: Record<ProfileCsvImportField, string[]> = {
+  id: ["profile id"],
+  name: ["full name", "founder", "candidate"],
+  email: ["e-mail", "email address"],
+  country: ["location"],
+  age: [],
+  interests: ["tags", "skills", "topics"],
+  bio: ["about", "description", "summary"],
+  profileUrl: ["profileurl", "url", "link", "profile"]
+}
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  "us": "United States",
+  "usa": "United States",
+  "u.s.": "United States",
+  "u.s.a.": "United States",
+  "united states of america": "United States",
+  "uk": "United Kingdom",
+  "u.k.": "United Kingdom",
+  "great britain": "United Kingdom",
+  "england": "United Kingdom",
+  "korea": "South Korea",
+  "republic of korea": "South Korea",
+  "holland": "Netherlands",
+  "the netherlands": "Netherlands"
+}
+
+function formatCell(profile: CustomerProfile, column: ProfileCsvColumn): string {
+  switch (column) {
+    case "interests":
+      return (profile.interests || []).join("; ")
+    case "collectedAt":
+      return profile.collectedAt.toISOString()
+    case "lastMessageSent":
+      return profile.lastMessageSent?.toISOString() || ""
+    default:
+      return String(profile[column] ?? "")
+  }
+}
+
+export function profilesToCsv(profiles: CustomerProfile[], columns: ProfileCsvColumn[]): string {
+  return toCsv([
+    columns.map((column) => PROFILE_CSV_COLUMNS[column]),
+    ...profiles.map((profile) => columns.map((column) => formatCell(profile, column)))
+  ])
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, " ")
+}
+
+/**
+ * Maps each import field to the first column whose header names it
+ */
+export function guessCsvMapping(headers: string[]): ProfileCsvMapping {
+  const normalized = headers.map(normalizeHeader)
+  const mapping: ProfileCsvMapping = {}
+  for (const field of PROFILE_CSV_IMPORT_FIELDS) {
+    const names = [PROFILE_CSV_COLUMNS[field].toLowerCase(), field.toLowerCase(), ...HEADER_ALIASES[field]]
+    const index = normalized.findIndex((h, i) => names.includes(h) && !Object.values(mapping).includes(i))
+    if (index !== -1) mapping[field] = index
+  }
+  return mapping
+}
+
+/**
+ * The COUNTRIES spelling of a country, keeping just the country of "City, Country".
+ * Unknown countries are kept as written.
+ */
+export function normalizeCountry(value: string): string | undefined {
+  const parts = value.split(",")
+  const country = parts[parts.length - 1].trim()
+  if (!country) return undefined
+  const key = country.toLowerCase()
+  return COUNTRIES.find((c) => c.toLowerCase() === key) || COUNTRY_ALIASES[key] || country
+}
+
+function parseInterests(value: string): Interest[] {
+  const tags = value.split(/[;,|]/).map((tag) => tag.trim()).filter(Boolean)
+  return Array.from(new Set(tags.map(mapToInterest)))
+}
+
+function parseAge(value: string): number | undefined {
+  const age = parseInt(value, 10)
+  return age > 0 && age < 120 ? age : undefined
+}
+
+/**
+ * Turns CSV rows (header first) into new profiles, skipping rows already stored
+ * (by id or profile URL), repeated in the file, or on the do-not-contact list
+ */
+export async function readCsvProfiles(rows: string[][], mapping: ProfileCsvMapping): Promise<ProfileCsvImportResult> {
+  const existing = await getProfiles()
+  const suppressionList = await getSuppressionList()
+  const seenIds = new Set(existing.map((p) => p.id))
+  const seenUrls = new Set(existing.map((p) => normalizeUrl(p.profileUrl)))
+  const result: ProfileCsvImportResult = { profiles: [], duplicates: 0, suppressed: 0, invalid: [] }
+
+  rows.slice(1).forEach((row, i) => {
+    const rowNumber = i + 2
+    const cell = (field: ProfileCsvImportField) =>
+      mapping[field] === undefined ? "" : unescapeCell((row[mapping[field]!] || "").trim())
+
+    const name = cell("name")
+    const profileUrl = cell("profileUrl")
+    if (!name || !profileUrl) {
+      result.invalid.push({ row: rowNumber, reason: !name ? "No name" : "No profile URL" })
+      return
+    }
+    try {
+      new URL(profileUrl)
+    } catch {
+      result.invalid.push({ row: rowNumber, reason: "Profile URL is not a valid URL" })
+      return
+    }
+
+    const id = cell("id") || generateProfileId(profileUrl)
+    const url = normalizeUrl(profileUrl)
+    if (seenIds.has(id) || seenUrls.has(url)) {
+      result.duplicates++
+      return
+    }
+    seenIds.add(id)
+    seenUrls.add(url)
+
+    const age = parseAge(cell("age"))
+    const profile: CustomerProfile = {
+      id,
+      name,
+      email: cell("email") || undefined,
+      country: normalizeCountry(cell("country")),
+      age,
+      ageGroup: categorizeAgeGroup(age),
+      interests: parseInterests(cell("interests")),
+      bio: cell("bio") || undefined,
+      profileUrl,
+      collectedAt: new Date(),
+      messageCount: 0
+    }
+    if (findSuppression(suppressionList, profileKeys(profile))) {
+      result.suppressed++
+      return
+    }
+    result.profiles.push(profile)
+  })
+
+  return result
+}
+
+/**
+ * Saves the new profiles from CSV rows. They aren't enriched here, since a sheet can hold
+ * hundreds of rows; Analyze on the profile card runs it for one.
+ */
+export async function importCsvProfiles(rows: string[][], mapping: ProfileCsvMapping): Promise<ProfileCsvImportResult> {
+  const result = await readCsvProfiles(rows, mapping)
+  if (result.profiles.length > 0) {
+    await saveProfiles(result.profiles)
+  }
+  return result
+}
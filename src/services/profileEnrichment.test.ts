@@ -0,0 +1,50 @@
+import "fake-indexeddb/auto"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { CustomerProfile } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+import { getProfile, replaceProfiles, saveProfile } from "~/utils/storage"
+import { analyzeProfile } from "./ai"
+import { enrichSavedProfile } from "./profileEnrichment"
+
+vi.mock("./ai", () => ({
+  analyzeProfile: vi.fn(async () => ({ tone: "friendly", keyPoints: ["Built a fintech app"], suggestedInterests: ["AI"] }))
+}))
+
+const profile: CustomerProfile = {
+  id: "abc123",
+  name: "Jane Doe",
+  profileUrl: "https://www.startupschool.org/cofounder-matching/candidate/abc123",
+  bio: "Building fintech tools",
+  collectedAt: new Date("2024-01-01T00:00:00Z"),
+  messageCount: 0
+}
+
+beforeEach(async () => {
+  installFakeChrome({
+    automationSettings: { enrichProfiles: true, provider: "openai", providers: { openai: { apiKey: "sk-test" } } }
+  })
+  await replaceProfiles([])
+  vi.mocked(analyzeProfile).mockClear()
+})
+
+describe("enrichSavedProfile", () => {
+  it("analyzes a profile once when two saves of it enrich at the same time", async () => {
+    await saveProfile(profile)
+
+    // Bulk collection and the candidate page's auto-extract both store the new profile
+    await Promise.all([enrichSavedProfile(profile), enrichSavedProfile(profile)])
+
+    expect(analyzeProfile).toHaveBeenCalledTimes(1)
+    expect((await getProfile(profile.id))!.enrichment).toMatchObject({ tone: "friendly" })
+  })
+
+  it("analyzes again once the earlier analysis has finished and the profile changed", async () => {
+    await saveProfile(profile)
+    await enrichSavedProfile(profile)
+
+    await saveProfile({ ...profile, bio: "Now building AI agents" })
+    await enrichSavedProfile(profile)
+
+    expect(analyzeProfile).toHaveBeenCalledTimes(2)
+  })
+})
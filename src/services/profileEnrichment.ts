@@ -0,0 +1,94 @@
+import type { AutomationSettings, CustomerProfile } from "~/types"
+import { hashString } from "~/utils/hash"
+import { getAutomationSettings, getProfile, updateStoredProfile } from "~/utils/storage"
+import { analyzeProfile } from "./ai"
+import { createProvider, getActiveModel, isProviderConfigured } from "./llmProviders"
+
+// Interests are left out: backfilling changes them, which must not trigger a new analysis
+function sourceHash(profile: CustomerProfile): number {
+  return hashString(JSON.stringify([profile.name, profile.country, profile.bio]))
+}
+
+/**
+ * True when the profile has no analysis yet, or the analyzed fields have changed since
+ */
+export function needsEnrichment(profile: CustomerProfile): boolean {
+  return !profile.enrichment || profile.enrichment.sourceHash !== sourceHash(profile)
+}
+
+/**
+ * Interests that all mapped to "Other" carry no signal; the analysis' suggestions replace them
+ */
+function canBackfillInterests(profile: CustomerProfile, settings: AutomationSettings): boolean {
+  const interests = profile.interests || []
+  return Boolean(
+    settings.backfillInterests &&
+      interests.length > 0 &&
+      interests.every((i) => i === "Other") &&
+      profile.enrichment?.suggestedInterests.length
+  )
+}
+
+function backfillInterests(profile: CustomerProfile, settings: AutomationSettings): void {
+  if (canBackfillInterests(profile, settings)) {
+    profile.interests = [...profile.enrichment!.suggestedInterests]
+  }
+}
+
+// Analyses running now, by profile id. Bulk collection and the candidate page's content script
+// both save a newly opened profile; the second save joins the first analysis instead of paying again.
+const inFlight = new Map<string, Promise<CustomerProfile | null>>()
+
+/**
+ * Analyzes a stored profile and caches the result on it. A cached analysis is reused
+ * unless the profile changed or `force` is set. Returns the stored profile, or null if it isn't stored.
+ */
+export function enrichProfile(
+  profileId: string,
+  settings: AutomationSettings,
+  force: boolean = false
+): Promise<CustomerProfile | null> {
+  const running = inFlight.get(profileId)
+  if (running) return running
+
+  const run = analyzeAndStore(profileId, settings, force).finally(() => inFlight.delete(profileId))
+  inFlight.set(profileId, run)
+  return run
+}
+
+async function analyzeAndStore(
+  profileId: string,
+  settings: AutomationSettings,
+  force: boolean
+): Promise<CustomerProfile | null> {
+  const profile = await getProfile(profileId)
+  if (!profile) return null
+
+  if (!force && !needsEnrichment(profile)) {
+    // Re-collecting resets interests to the extracted tags; reapply the cached suggestions
+    if (!canBackfillInterests(profile, settings)) return profile
+    return updateStoredProfile(profileId, (stored) => backfillInterests(stored, settings))
+  }
+
+  const model = getActiveModel(settings)
+  const analysis = await analyzeProfile(createProvider(settings), model, profile)
+
+  return updateStoredProfile(profileId, (stored) => {
+    stored.enrichment = { ...analysis, model, analyzedAt: Date.now(), sourceHash: sourceHash(stored) }
+    backfillInterests(stored, settings)
+  })
+}
+
+/**
+ * Runs enrichment after a profile is saved, when turned on. Never throws;
+ * a failed analysis is retried the next time the profile is saved.
+ */
+export async function enrichSavedProfile(profile: CustomerProfile): Promise<void> {
+  try {
+    const settings = await getAutomationSettings()
+    if (!settings.enrichProfiles || !isProviderConfigured(settings)) return
+    await enrichProfile(profile.id, settings)
+  } catch (error) {
+    console.error(`Profile enrichment failed for ${profile.name}:`, error)
+  }
+}
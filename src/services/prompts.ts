@@ -0,0 +1,69 @@
+import type { AutomationSettings, PromptProfile, PromptVersion } from "~/types"
+import { DEFAULT_PROMPT_PROFILE } from "~/utils/constants"
+
+// Variables prompt templates can use on top of the message template variables
+export const PROMPT_VARIABLES = ["profile_details", "length_target"] as const
+
+export type PromptDraft = Omit<PromptVersion, "version" | "createdAt">
+
+export function getPromptProfiles(settings: AutomationSettings): PromptProfile[] {
+  return settings.promptProfiles?.length ? settings.promptProfiles : [DEFAULT_PROMPT_PROFILE]
+}
+
+export function currentVersion(profile: PromptProfile): PromptVersion {
+  return profile.versions[profile.versions.length - 1]
+}
+
+export function getActivePrompt(settings: AutomationSettings): {
+  profile: PromptProfile
+  version: PromptVersion
+} {
+  const profiles = getPromptProfiles(settings)
+  const profile = profiles.find((p) => p.id === settings.activePromptProfileId) || profiles[0]
+  return { profile, version: currentVersion(profile) }
+}
+
+/**
+ * Identifies a prompt version in message history, e.g. "builtin-1"
+ */
+export function promptVersionLabel(profile: PromptProfile, version: PromptVersion): string {
+  return `${profile.id}-${version.version}`
+}
+
+export function toPromptDraft(version: PromptVersion): PromptDraft {
+  const { version: _version, createdAt: _createdAt, ...draft } = version
+  return { ...draft, fields: [...draft.fields] }
+}
+
+export function isSamePrompt(a: PromptDraft, b: PromptDraft): boolean {
+  return (
+    a.systemPrompt === b.systemPrompt &&
+    a.userTemplate === b.userTemplate &&
+    a.temperature === b.temperature &&
+    a.maxTokens === b.maxTokens &&
+    a.lengthTarget === b.lengthTarget &&
+    [...a.fields].sort().join() === [...b.fields].sort().join()
+  )
+}
+
+/**
+ * Adds the draft as a new version unless it matches the current one.
+ * Earlier versions are kept as they were, so history stays comparable.
+ */
+export function commitPromptVersion(profile: PromptProfile, draft: PromptDraft): PromptProfile {
+  const latest = currentVersion(profile)
+  if (isSamePrompt(toPromptDraft(latest), draft)) return profile
+
+  return {
+    ...profile,
+    versions: [...profile.versions, { ...draft, version: latest.version + 1, createdAt: Date.now() }]
+  }
+}
+
+export function createPromptProfile(name: string, draft: PromptDraft): PromptProfile {
+  return {
+    id: `prompt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    versions: [{ ...draft, version: 1, createdAt: Date.now() }]
+  }
+}
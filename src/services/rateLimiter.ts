@@ -1,8 +1,22 @@
-import type { AutomationSettings, MessageStats } from "~/types"
-
+import type {
+  AutomationSettings,
+  MessageStats,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimiterState,
+  SendLogEntry
+} from "~/types"
+import { DAY_MS, HOUR_MS, RATE_LIMIT_DEFAULTS } from "~/utils/constants"
+
+/**
+ * Sliding-window rate limiter backed by a log of send timestamps.
+ * Every window is measured back from "now", so a steady stream of sends is limited
+ * the same way as a burst after a quiet hour.
+ */
 export class RateLimiter {
   private settings: AutomationSettings
   private stats: MessageStats
+  private state: RateLimiterState
 
   public ready: Promise<void>
 
@@ -14,16 +28,20 @@ export class RateLimiter {
       messagesToday: 0,
       messagesThisHour: 0
     }
+    this.state = { log: [] }
     this.ready = this.loadStats()
   }
 
   private async loadStats(): Promise<void> {
     try {
-      const stored = await chrome.storage.local.get("messageStats")
+      const stored = await chrome.storage.local.get(["messageStats", "rateLimiterState"])
       if (stored.messageStats) {
         this.stats = { ...this.stats, ...stored.messageStats }
-        this.updateTimeBasedCounts()
       }
+      if (stored.rateLimiterState) {
+        this.state = { ...this.state, ...stored.rateLimiterState }
+      }
+      this.updateTimeBasedCounts()
     } catch (error) {
       console.error("Error loading stats:", error)
     }
@@ -31,86 +49,114 @@ export class RateLimiter {
 
   private async saveStats(): Promise<void> {
     try {
-      await chrome.storage.local.set({ messageStats: this.stats })
+      await chrome.storage.local.set({
+        messageStats: this.stats,
+        rateLimiterState: this.state
+      })
     } catch (error) {
       console.error("Error saving stats:", error)
     }
   }
 
-  private updateTimeBasedCounts(): void {
-    const now = new Date()
-    const lastSent = this.stats.lastSentAt ? new Date(this.stats.lastSentAt) : null
+  private get limits() {
+    return { ...RATE_LIMIT_DEFAULTS, ...this.settings.rateLimit }
+  }
 
-    // Reset daily count if last message was yesterday
-    if (!lastSent || this.isDifferentDay(now, lastSent)) {
-      this.stats.messagesToday = 0
-    }
+  /**
+   * Drops log entries older than the longest window and recomputes the rolling counts
+   */
+  private updateTimeBasedCounts(now: number = Date.now()): void {
+    const longest = Math.max(DAY_MS, this.limits.perRecipientWindow, this.limits.burstWindow)
+    this.state.log = this.state.log.filter((entry) => now - entry.at < longest)
 
-    // Reset hourly count if last message was over an hour ago
-    if (!lastSent || this.isDifferentHour(now, lastSent)) {
-      this.stats.messagesThisHour = 0
-    }
+    this.stats.messagesToday = this.entriesWithin(DAY_MS, now).length
+    this.stats.messagesThisHour = this.entriesWithin(HOUR_MS, now).length
   }
 
-  private isDifferentDay(date1: Date, date2: Date): boolean {
-    return (
-      date1.getFullYear() !== date2.getFullYear() ||
-      date1.getMonth() !== date2.getMonth() ||
-      date1.getDate() !== date2.getDate()
+  private entriesWithin(windowMs: number, now: number, recipientId?: string): SendLogEntry[] {
+    return this.state.log.filter(
+      (entry) =>
+        now - entry.at < windowMs &&
+        (recipientId === undefined || entry.recipientId === recipientId)
     )
   }
 
-  private isDifferentHour(date1: Date, date2: Date): boolean {
-    const hourDiff = Math.abs(date1.getTime() - date2.getTime()) / (1000 * 60 * 60)
-    return hourDiff >= 1
+  /**
+   * Checks a window rule; when over the limit, the window clears once enough
+   * of the oldest entries inside it age out
+   */
+  private checkWindow(
+    rule: RateLimitRule,
+    limit: number,
+    windowMs: number,
+    now: number,
+    reason: string,
+    recipientId?: string
+  ): RateLimitDecision | null {
+    if (!limit || limit <= 0) return null
+
+    const entries = this.entriesWithin(windowMs, now, recipientId).sort((a, b) => a.at - b.at)
+    if (entries.length < limit) return null
+
+    const clearsAt = entries[entries.length - limit].at + windowMs
+    return {
+      allowed: false,
+      rule,
+      reason: `${reason} (${entries.length}/${limit})`,
+      waitTime: clearsAt - now,
+      clearsAt
+    }
   }
 
-  async canSendMessage(): Promise<{ allowed: boolean; reason?: string; waitTime?: number }> {
+  async canSendMessage(recipientId?: string): Promise<RateLimitDecision> {
     await this.ready
-    this.updateTimeBasedCounts()
-
-    // Check daily limit
-    if (this.stats.messagesToday >= this.settings.rateLimit.messagesPerDay) {
-      return {
-        allowed: false,
-        reason: "Daily message limit reached",
-        waitTime: this.getTimeUntilNextDay()
-      }
-    }
-
-    // Check hourly limit
-    if (this.stats.messagesThisHour >= this.settings.rateLimit.messagesPerHour) {
+    const now = Date.now()
+    this.updateTimeBasedCounts(now)
+    const limits = this.limits
+
+    const blocked =
+      this.checkWindow("daily", limits.messagesPerDay, DAY_MS, now, "Daily message limit reached") ||
+      this.checkWindow("hourly", limits.messagesPerHour, HOUR_MS, now, "Hourly message limit reached") ||
+      this.checkWindow("burst", limits.burstLimit, limits.burstWindow, now, "Burst limit reached") ||
+      (recipientId
+        ? this.checkWindow(
+            "recipient",
+            limits.perRecipientLimit,
+            limits.perRecipientWindow,
+            now,
+            "Per-recipient limit reached",
+            recipientId
+          )
+        : null)
+
+    if (blocked) return blocked
+
+    if (this.state.nextAllowedAt && this.state.nextAllowedAt > now) {
       return {
         allowed: false,
-        reason: "Hourly message limit reached",
-        waitTime: this.getTimeUntilNextHour()
+        rule: "spacing",
+        reason: "Minimum spacing between messages not yet elapsed",
+        waitTime: this.state.nextAllowedAt - now,
+        clearsAt: this.state.nextAllowedAt
       }
     }
 
     return { allowed: true }
   }
 
-  private getTimeUntilNextDay(): number {
-    const now = new Date()
-    const tomorrow = new Date(now)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    tomorrow.setHours(0, 0, 0, 0)
-    return tomorrow.getTime() - now.getTime()
-  }
+  async recordMessageSent(recipientId?: string): Promise<void> {
+    await this.ready
+    const now = Date.now()
+    const { delayBetweenMessages, spacingJitter } = this.limits
 
-  private getTimeUntilNextHour(): number {
-    const now = new Date()
-    const nextHour = new Date(now)
-    nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0)
-    return nextHour.getTime() - now.getTime()
-  }
+    this.state.log.push({ at: now, recipientId })
+    // Jitter the spacing so sends don't land on a fixed, detectable cadence
+    const jitter = 1 + Math.max(0, Math.min(1, spacingJitter)) * (Math.random() * 2 - 1)
+    this.state.nextAllowedAt = now + Math.round(delayBetweenMessages * jitter)
 
-  async recordMessageSent(): Promise<void> {
-    await this.ready
     this.stats.totalSent++
-    this.stats.messagesToday++
-    this.stats.messagesThisHour++
-    this.stats.lastSentAt = new Date()
+    this.stats.lastSentAt = new Date(now)
+    this.updateTimeBasedCounts(now)
     await this.saveStats()
   }
 
@@ -120,6 +166,16 @@ export class RateLimiter {
     await this.saveStats()
   }
 
+  /**
+   * Rolls the windows forward and persists the result,
+   * so stored stats stay current even when nothing is being sent
+   */
+  async refreshWindows(): Promise<void> {
+    await this.ready
+    this.updateTimeBasedCounts()
+    await this.saveStats()
+  }
+
   async getStats(): Promise<MessageStats> {
     await this.ready
     this.updateTimeBasedCounts()
@@ -133,6 +189,7 @@ export class RateLimiter {
       messagesToday: 0,
       messagesThisHour: 0
     }
+    this.state = { log: [] }
     await this.saveStats()
   }
 }
@@ -0,0 +1,112 @@
+import type { ScannedThread } from "~/types"
+import { STARTUP_SCHOOL_INBOX_URL } from "~/utils/constants"
+import { getConversations, getProfiles } from "~/utils/storage"
+import { openOrReuseTab, sendTabMessage, waitForTabComplete } from "~/utils/tabs"
+import type { NewConversationMessage } from "./conversations"
+import { appendToThread } from "./conversations"
+import { generateProfileId } from "./extractor"
+import { removeProfileFromQueue } from "./outreachQueue"
+import { markProfileReplied } from "./sequences"
+import { detectOptOut, suppressProfile } from "./suppression"
+
+// Same reply seen again on a later scan (or in both the list and the thread view)
+function replyKey(profileId: string, text: string): string {
+  return `${profileId}:${text.replace(/\s+/g, " ").trim().toLowerCase().slice(0, 200)}`
+}
+
+/**
+ * Records inbound messages from scanned threads and stops outreach to everyone who replied.
+ * Replies asking to stop put the sender on the do-not-contact list.
+ * Threads for profiles we never collected are ignored.
+ * Returns how many new replies were stored.
+ */
+export async function recordScannedThreads(threads: ScannedThread[]): Promise<number> {
+  if (threads.length === 0) return 0
+
+  const profiles = new Map((await getProfiles()).map((p) => [p.id, p]))
+  const conversations = await getConversations()
+  const seen = new Set(
+    Object.values(conversations).flatMap((thread) =>
+      thread.messages
+        .filter((m) => m.direction === "inbound")
+        .map((m) => replyKey(thread.profileId, m.text))
+    )
+  )
+  const now = Date.now()
+  const newByProfile = new Map<string, NewConversationMessage[]>()
+  let added = 0
+
+  for (const thread of threads) {
+    const profileId = generateProfileId(thread.profileUrl)
+    const profile = profiles.get(profileId)
+    if (!profile) continue
+
+    for (const message of thread.messages) {
+      if (message.direction !== "inbound" || !message.text.trim()) continue
+
+      const key = replyKey(profileId, message.text)
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const list = newByProfile.get(profileId) || []
+      list.push({
+        direction: "inbound",
+        text: message.text.trim(),
+        at: message.sentAt || now,
+        deliveryState: "received",
+        timestampEstimated: !message.sentAt
+      })
+      newByProfile.set(profileId, list)
+      added++
+    }
+  }
+
+  for (const [profileId, messages] of newByProfile) {
+    const profile = profiles.get(profileId)!
+    await appendToThread(profileId, profile.name, messages)
+
+    const latest = Math.max(...messages.map((m) => m.at))
+    const previous = profile.lastReplyAt ? new Date(profile.lastReplyAt).getTime() : 0
+    if (latest > previous) {
+      await markProfileReplied(profileId, new Date(latest))
+    }
+    await removeProfileFromQueue(profileId)
+    console.log(`Reply detected from ${profile.name}; outreach stopped`)
+
+    const optOut = messages.find((m) => detectOptOut(m.text))
+    if (optOut) {
+      await suppressProfile(profile, "opt_out", `Replied: "${optOut.text.slice(0, 200)}"`)
+      console.log(`${profile.name} opted out ("${detectOptOut(optOut.text)}"); added to the do-not-contact list`)
+    }
+  }
+
+  return added
+}
+
+/**
+ * Opens (or reuses) the inbox tab, has the inbox content script read it, and records the replies
+ */
+export async function scanInboxForReplies(): Promise<{ threads: number; newReplies: number }> {
+  const { tab, created } = await openOrReuseTab(STARTUP_SCHOOL_INBOX_URL)
+  if (!tab.id) {
+    throw new Error("Could not open the Startup School inbox")
+  }
+
+  try {
+    await waitForTabComplete(tab.id, 30000)
+    const response = await sendTabMessage<{ threads: ScannedThread[] }>(
+      tab.id,
+      { action: "scanInbox" },
+      30000
+    )
+    const threads = response?.threads || []
+    const newReplies = await recordScannedThreads(threads)
+    return { threads: threads.length, newReplies }
+  } finally {
+    if (created) {
+      chrome.tabs.remove(tab.id).catch(() => {
+        // Tab already closed by the user
+      })
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { CustomerProfile, ReviewDraft } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+import { addDraftForReview, markDraftApproved } from "./reviewInbox"
+
+const pending: ReviewDraft = {
+  id: "review-a",
+  profileId: "a",
+  profileName: "Ann",
+  message: "Hi Ann",
+  originalMessage: "Hi Ann",
+  createdAt: 1,
+  status: "pending"
+}
+
+let store: Record<string, any>
+
+beforeEach(() => {
+  store = installFakeChrome({ reviewInbox: [pending] })
+})
+
+describe("review inbox writes", () => {
+  it("keeps both an approval and a draft added at the same time", async () => {
+    const profile = { id: "b", name: "Ben" } as CustomerProfile
+
+    const [, added] = await Promise.all([markDraftApproved("review-a"), addDraftForReview(profile, { text: "Hi Ben" })])
+
+    expect(store.reviewInbox.map((d: ReviewDraft) => [d.id, d.status])).toEqual([
+      ["review-a", "approved"],
+      [added.id, "pending"]
+    ])
+  })
+})
@@ -0,0 +1,119 @@
+import type { CustomerProfile, MessageDraft, ReviewDraft, SequenceStepRef } from "~/types"
+import { getReviewInbox, saveReviewInbox } from "~/utils/storage"
+
+// Decided drafts kept for prompt-quality review
+const MAX_DECIDED_DRAFTS = 300
+
+const REVIEW_INBOX_LOCK = "review-inbox"
+
+// Writes wait for the one before, so an approval and a new draft can't overwrite each other
+let writeChain: Promise<unknown> = Promise.resolve()
+
+/**
+ * Reads, changes and saves the inbox, one write at a time. `fn` returns the list to save.
+ * The chain orders writes within this context; the Web Lock orders them against the popup's.
+ */
+function updateInbox<T>(fn: (drafts: ReviewDraft[]) => { drafts: ReviewDraft[]; result: T }): Promise<T> {
+  const write = async () => {
+    const { drafts, result } = fn(await getReviewInbox())
+    await saveReviewInbox(drafts)
+    return result
+  }
+  const run = writeChain.then(() =>
+    typeof navigator !== "undefined" && navigator.locks ? navigator.locks.request(REVIEW_INBOX_LOCK, write) : write()
+  )
+  writeChain = run.catch(() => {})
+  return run
+}
+
+async function updateDraft(
+  draftId: string,
+  fn: (draft: ReviewDraft) => void
+): Promise<ReviewDraft | null> {
+  return updateInbox((drafts) => {
+    const draft = drafts.find((d) => d.id === draftId)
+    if (draft) fn(draft)
+    return { drafts, result: draft || null }
+  })
+}
+
+export async function addDraftForReview(
+  profile: CustomerProfile,
+  message: MessageDraft,
+  step?: SequenceStepRef
+): Promise<ReviewDraft> {
+  const draft: ReviewDraft = {
+    id: `review-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    profileId: profile.id,
+    profileName: profile.name,
+    message: message.text,
+    originalMessage: message.text,
+    facts: message.facts,
+    source: message.source,
+    model: message.source?.model,
+    createdAt: Date.now(),
+    status: "pending",
+    step
+  }
+
+  return updateInbox((drafts) => {
+    drafts.push(draft)
+
+    // Trim oldest decided drafts; pending ones are never dropped
+    const decided = drafts.filter((d) => d.status !== "pending")
+    if (decided.length <= MAX_DECIDED_DRAFTS) return { drafts, result: draft }
+
+    const drop = new Set(
+      decided
+        .sort((a, b) => (a.decidedAt || 0) - (b.decidedAt || 0))
+        .slice(0, decided.length - MAX_DECIDED_DRAFTS)
+        .map((d) => d.id)
+    )
+    return { drafts: drafts.filter((d) => !drop.has(d.id)), result: draft }
+  })
+}
+
+export async function getPendingDrafts(): Promise<ReviewDraft[]> {
+  const drafts = await getReviewInbox()
+  return drafts
+    .filter((d) => d.status === "pending")
+    .sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function editDraft(draftId: string, message: string): Promise<void> {
+  await updateDraft(draftId, (draft) => {
+    draft.message = message
+  })
+}
+
+export async function markDraftApproved(draftId: string): Promise<void> {
+  await updateDraft(draftId, (draft) => {
+    draft.status = "approved"
+    draft.decidedAt = Date.now()
+    draft.deliveryError = undefined
+  })
+}
+
+/**
+ * Approved but the send failed; stays pending so the reviewer can retry
+ */
+export async function markDraftDeliveryFailed(draftId: string, error: string): Promise<void> {
+  await updateDraft(draftId, (draft) => {
+    draft.deliveryError = error
+  })
+}
+
+export async function rejectDraft(draftId: string, reason: string): Promise<void> {
+  await updateDraft(draftId, (draft) => {
+    draft.status = "rejected"
+    draft.decidedAt = Date.now()
+    draft.rejectionReason = reason.trim() || "No reason given"
+  })
+}
+
+export async function getRejectedDrafts(): Promise<ReviewDraft[]> {
+  const drafts = await getReviewInbox()
+  return drafts
+    .filter((d) => d.status === "rejected")
+    .sort((a, b) => (b.decidedAt || 0) - (a.decidedAt || 0))
+}
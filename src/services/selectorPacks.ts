@@ -0,0 +1,120 @@
+import type {
+  ProfileField,
+  ProfileSelectorTable,
+  SelectorPack,
+  SelectorTestReport
+} from "~/types"
+import { PROFILE_FIELDS, SELECTOR_PACK_FORMAT_VERSION } from "~/utils/constants"
+
+/**
+ * Validates an imported selector pack (parsed JSON) and returns it in canonical shape.
+ * Throws with a readable message when the file is not a usable pack.
+ */
+export function parseSelectorPack(data: unknown): SelectorPack {
+  if (!data || typeof data !== "object") {
+    throw new Error("Selector pack must be a JSON object")
+  }
+
+  const pack = data as Record<string, any>
+  const formatVersion = Number(pack.formatVersion)
+  if (formatVersion !== SELECTOR_PACK_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported selector pack format ${pack.formatVersion ?? "(missing)"}; expected ${SELECTOR_PACK_FORMAT_VERSION}`
+    )
+  }
+
+  if (!pack.selectors || typeof pack.selectors !== "object") {
+    throw new Error("Selector pack is missing the \"selectors\" table")
+  }
+
+  const selectors = {} as ProfileSelectorTable
+  for (const field of PROFILE_FIELDS) {
+    const list = pack.selectors[field]
+    if (!Array.isArray(list) || list.some((s) => typeof s !== "string")) {
+      throw new Error(`Field "${field}" must be an array of CSS selector strings`)
+    }
+    selectors[field] = list.map((s: string) => s.trim()).filter(Boolean)
+  }
+
+  return {
+    formatVersion,
+    name: typeof pack.name === "string" && pack.name.trim() ? pack.name.trim() : "Imported selectors",
+    revision: Number.isFinite(Number(pack.revision)) ? Number(pack.revision) : 0,
+    updatedAt: typeof pack.updatedAt === "string" ? pack.updatedAt : new Date().toISOString(),
+    selectors
+  }
+}
+
+export function serializeSelectorPack(pack: SelectorPack): string {
+  return JSON.stringify(pack, null, 2)
+}
+
+/**
+ * Runs every selector of every field against the page and reports hits and misses.
+ *
+ * Must stay self-contained: it is injected with chrome.scripting.executeScript.
+ */
+export function testSelectorTable(
+  selectors: ProfileSelectorTable,
+  root?: Document
+): SelectorTestReport {
+  const doc = root || document
+  const report = {} as SelectorTestReport
+
+  for (const field of Object.keys(selectors) as ProfileField[]) {
+    const hits = selectors[field].map((selector) => {
+      let elements: Element[] = []
+      try {
+        elements = Array.from(doc.querySelectorAll(selector))
+      } catch {
+        // Invalid selector counts as a miss
+      }
+      const sample = elements
+        .map((el) => el.textContent?.trim() || "")
+        .find((text) => text.length > 0)
+      return {
+        selector,
+        matches: elements.length,
+        sample: sample ? sample.substring(0, 120) : undefined
+      }
+    })
+
+    const first = hits.find((h) => h.matches > 0 && h.sample)
+    report[field] = {
+      hit: Boolean(first),
+      matchedSelector: first?.selector,
+      value: first?.sample,
+      selectors: hits
+    }
+  }
+
+  return report
+}
+
+/**
+ * Picks the tab to test against: the active startupschool.org tab if there is one,
+ * otherwise any open startupschool.org tab (the options page itself is usually active)
+ */
+export async function findStartupSchoolTab(): Promise<chrome.tabs.Tab | null> {
+  const tabs = await chrome.tabs.query({
+    url: ["https://www.startupschool.org/*", "https://startupschool.org/*"]
+  })
+  return tabs.find((t) => t.active) || tabs[0] || null
+}
+
+export async function testSelectorPackOnTab(
+  tabId: number,
+  pack: SelectorPack
+): Promise<SelectorTestReport> {
+  const results = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: testSelectorTable,
+    args: [pack.selectors]
+  })
+
+  const report = results?.[0]?.result as SelectorTestReport | undefined
+  if (!report) {
+    throw new Error("Selector test returned no result")
+  }
+  return report
+}
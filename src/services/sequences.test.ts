@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import type { CustomerProfile } from "~/types"
+import { HOUR_MS } from "~/utils/constants"
+import { isRetryDue, nextRetryAt } from "./sequences"
+
+function profile(sendFailures?: CustomerProfile["sendFailures"]): CustomerProfile {
+  return {
+    id: "abc123",
+    name: "Jane Doe",
+    profileUrl: "https://www.startupschool.org/cofounder-matching/candidate/abc123",
+    collectedAt: new Date(0),
+    messageCount: 0,
+    sendFailures
+  }
+}
+
+describe("nextRetryAt", () => {
+  it("lets a profile without failed sends go now", () => {
+    expect(nextRetryAt(profile(), 3)).toBe(0)
+  })
+
+  it("doubles the wait with each failure", () => {
+    const lastFailedAt = 1_000_000
+    const waits = [1, 2, 3].map((count) => nextRetryAt(profile({ count, lastFailedAt }), 3)! - lastFailedAt)
+
+    expect(waits).toEqual([HOUR_MS / 2, HOUR_MS, 2 * HOUR_MS])
+  })
+
+  it("gives up once the first attempt and every retry have failed", () => {
+    expect(nextRetryAt(profile({ count: 3, lastFailedAt: 0 }), 3)).not.toBeNull()
+    expect(nextRetryAt(profile({ count: 4, lastFailedAt: 0 }), 3)).toBeNull()
+    expect(nextRetryAt(profile({ count: 1, lastFailedAt: 0 }), 0)).toBeNull()
+  })
+})
+
+describe("isRetryDue", () => {
+  it("holds a failing profile back until its backoff has passed", () => {
+    const failing = profile({ count: 1, lastFailedAt: 1_000_000 })
+
+    expect(isRetryDue(failing, 3, 1_000_000 + HOUR_MS / 4)).toBe(false)
+    expect(isRetryDue(failing, 3, 1_000_000 + HOUR_MS / 2)).toBe(true)
+  })
+
+  it("leaves out a profile whose retries are used up, however long ago it failed", () => {
+    expect(isRetryDue(profile({ count: 4, lastFailedAt: 0 }), 3, Date.now())).toBe(false)
+  })
+})
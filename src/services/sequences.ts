@@ -0,0 +1,167 @@
+import type {
+  AutomationSettings,
+  CustomerProfile,
+  Sequence,
+  SequenceState,
+  SequenceStep,
+  SequenceStepRef,
+  SequenceStopReason
+} from "~/types"
+import { DAY_MS, HOUR_MS } from "~/utils/constants"
+import { getSequences, updateStoredProfile } from "~/utils/storage"
+
+// Wait after the first failed send; it doubles with each further failure
+const RETRY_BACKOFF_MS = HOUR_MS / 2
+
+export interface DueStep extends SequenceStepRef {
+  step: SequenceStep
+  dueAt: number // epoch ms
+}
+
+export async function getActiveSequence(settings: AutomationSettings): Promise<Sequence> {
+  const sequences = await getSequences()
+  return sequences.find((s) => s.id === settings.activeSequenceId) || sequences[0]
+}
+
+/**
+ * Works out the next step a profile should receive, or null if the profile is done.
+ * `dueAt` may be in the future; callers decide whether it is due yet.
+ *
+ * Profiles messaged before sequences existed have no state; their last message
+ * counts as the first step.
+ */
+export function getNextStep(profile: CustomerProfile, sequence: Sequence): DueStep | null {
+  if (profile.lastReplyAt || sequence.steps.length === 0) return null
+
+  const state = profile.sequenceState
+  let lastIndex: number
+  let lastAt: number
+
+  if (state && state.sequenceId === sequence.id) {
+    if (state.stoppedReason) return null
+    lastIndex = state.stepIndex
+    lastAt = state.lastStepAt
+  } else if (state?.stoppedReason === "manual") {
+    // A manual stop holds across sequence switches
+    return null
+  } else if (profile.messageCount > 0 && profile.lastMessageSent) {
+    lastIndex = 0
+    lastAt = new Date(profile.lastMessageSent).getTime()
+  } else {
+    return {
+      sequenceId: sequence.id,
+      stepIndex: 0,
+      step: sequence.steps[0],
+      dueAt: 0
+    }
+  }
+
+  const nextIndex = lastIndex + 1
+  const step = sequence.steps[nextIndex]
+  if (!step) return null
+
+  return {
+    sequenceId: sequence.id,
+    stepIndex: nextIndex,
+    step,
+    dueAt: lastAt + step.delayDays * DAY_MS
+  }
+}
+
+export function isStepDue(due: DueStep | null, now: number = Date.now()): boolean {
+  return Boolean(due && due.dueAt <= now)
+}
+
+/**
+ * When automation may try a profile again after failed sends, or null once the first
+ * attempt and `retryAttempts` retries have all failed
+ */
+export function nextRetryAt(profile: CustomerProfile, retryAttempts: number): number | null {
+  const failures = profile.sendFailures
+  if (!failures) return 0
+  if (failures.count > retryAttempts) return null
+  return failures.lastFailedAt + RETRY_BACKOFF_MS * 2 ** (failures.count - 1)
+}
+
+export function isRetryDue(profile: CustomerProfile, retryAttempts: number, now: number = Date.now()): boolean {
+  const retryAt = nextRetryAt(profile, retryAttempts)
+  return retryAt !== null && retryAt <= now
+}
+
+export function findStep(sequences: Sequence[], ref: SequenceStepRef): SequenceStep | undefined {
+  return sequences.find((s) => s.id === ref.sequenceId)?.steps[ref.stepIndex]
+}
+
+/**
+ * Records that a step was sent; the sequence completes after its last step
+ */
+export async function advanceSequence(profile: CustomerProfile, ref: SequenceStepRef): Promise<void> {
+  const sequence = (await getSequences()).find((s) => s.id === ref.sequenceId)
+  const now = Date.now()
+  const isLast = !sequence || ref.stepIndex >= sequence.steps.length - 1
+
+  profile.sequenceState = {
+    sequenceId: ref.sequenceId,
+    stepIndex: ref.stepIndex,
+    lastStepAt: now,
+    stoppedAt: isLast ? now : undefined,
+    stoppedReason: isLast ? "completed" : undefined
+  }
+}
+
+function stoppedState(profile: CustomerProfile, reason: SequenceStopReason, at: number): SequenceState {
+  return {
+    sequenceId: profile.sequenceState?.sequenceId || "",
+    stepIndex: profile.sequenceState?.stepIndex ?? -1,
+    lastStepAt: profile.sequenceState?.lastStepAt ?? 0,
+    stoppedAt: at,
+    stoppedReason: reason
+  }
+}
+
+export async function stopSequence(profileId: string, reason: SequenceStopReason): Promise<void> {
+  await updateStoredProfile(profileId, (profile) => {
+    profile.sequenceState = stoppedState(profile, reason, Date.now())
+  })
+}
+
+/**
+ * A reply ends outreach to the profile for every sequence
+ */
+export async function markProfileReplied(profileId: string, repliedAt: Date = new Date()): Promise<void> {
+  await updateStoredProfile(profileId, (profile) => {
+    profile.lastReplyAt = repliedAt
+    profile.sequenceState = stoppedState(profile, "replied", repliedAt.getTime())
+  })
+}
+
+/**
+ * Puts a stopped profile back into the active sequence where it left off
+ */
+export async function resumeSequence(profileId: string): Promise<void> {
+  await updateStoredProfile(profileId, (profile) => {
+    profile.lastReplyAt = undefined
+    if (profile.sequenceState) {
+      profile.sequenceState = {
+        ...profile.sequenceState,
+        stoppedAt: undefined,
+        stoppedReason: undefined
+      }
+    }
+  })
+}
+
+export function createSequenceStep(): SequenceStep {
+  return {
+    id: `step-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    delayDays: 3
+  }
+}
+
+export function createSequence(name: string): Sequence {
+  return {
+    id: `seq-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    steps: [{ ...createSequenceStep(), delayDays: 0 }]
+  }
+}
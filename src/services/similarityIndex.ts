@@ -0,0 +1,75 @@
+import type { ConversationStore } from "~/types"
+import { getConversations } from "~/utils/storage"
+import { estimateSimilarity, minhash } from "~/utils/similarity"
+
+// Sent messages new drafts are compared against
+const RECENT_MESSAGE_COUNT = 100
+// Sent messages the dashboard's diversity score covers
+export const DIVERSITY_WINDOW = 20
+
+// Signatures by message id; sent text never changes, so entries never go stale
+const signatures = new Map<string, number[]>()
+
+interface IndexedMessage {
+  id: string
+  text: string
+  signature: number[]
+}
+
+function signatureFor(id: string, text: string): number[] {
+  let signature = signatures.get(id)
+  if (!signature) {
+    signature = minhash(text)
+    signatures.set(id, signature)
+  }
+  return signature
+}
+
+/**
+ * The most recent successfully sent messages across all threads, newest first
+ */
+function recentSent(conversations: ConversationStore, limit: number): IndexedMessage[] {
+  return Object.values(conversations)
+    .flatMap((thread) => thread.messages)
+    .filter((m) => m.direction === "outbound" && m.deliveryState === "sent" && m.text)
+    .sort((a, b) => b.at - a.at)
+    .slice(0, limit)
+    .map((m) => ({ id: m.id, text: m.text, signature: signatureFor(m.id, m.text) }))
+}
+
+/**
+ * The recent sent message most similar to a text, with the estimated similarity (0-1)
+ */
+export async function findClosestMessage(text: string): Promise<{ similarity: number; text?: string }> {
+  const own = minhash(text)
+  let closest: { similarity: number; text?: string } = { similarity: 0 }
+  for (const message of recentSent(await getConversations(), RECENT_MESSAGE_COUNT)) {
+    const similarity = estimateSimilarity(own, message.signature)
+    if (similarity > closest.similarity) {
+      closest = { similarity, text: message.text }
+    }
+  }
+  return closest
+}
+
+/**
+ * One minus the mean pairwise similarity of the last sent messages: 1 when no two share
+ * wording, 0 when all are the same. Null until there are two messages to compare.
+ */
+export function diversityScore(
+  conversations: ConversationStore,
+  count: number = DIVERSITY_WINDOW
+): { score: number; sampled: number } | null {
+  const messages = recentSent(conversations, count)
+  if (messages.length < 2) return null
+
+  let total = 0
+  let pairs = 0
+  for (let i = 0; i < messages.length; i++) {
+    for (let j = i + 1; j < messages.length; j++) {
+      total += estimateSimilarity(messages[i].signature, messages[j].signature)
+      pairs++
+    }
+  }
+  return { score: 1 - total / pairs, sampled: messages.length }
+}
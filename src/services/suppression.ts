@@ -0,0 +1,121 @@
+import type { CustomerProfile, SuppressionEntry, SuppressionReason } from "~/types"
+import { getSuppressionList, saveSuppressionList } from "~/utils/storage"
+import { generateProfileId } from "./extractor"
+import { removeProfileFromQueue } from "./outreachQueue"
+
+// Replies asking not to be contacted again
+const OPT_OUT_PATTERNS = [
+  /\bnot interested\b/i,
+  /\bno,? thanks?\b/i,
+  /\bunsubscribe\b/i,
+  /\bremove me\b/i,
+  /\bleave me alone\b/i,
+  /\b(?:stop|quit) (?:messaging|contacting|emailing|writing to|sending)\b/i,
+  /\b(?:don'?t|do not) (?:message|contact|email|write to) me\b/i,
+  /^\s*stop\s*[.!]*\s*$/i
+]
+
+// Any subset of these identifies a profile
+export interface SuppressionKeys {
+  profileId?: string
+  profileUrl?: string
+  email?: string
+}
+
+/**
+ * The phrase that makes a reply an opt-out, or null
+ */
+export function detectOptOut(text: string): string | null {
+  for (const pattern of OPT_OUT_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) return match[0].trim()
+  }
+  return null
+}
+
+// Query strings, fragments, case and trailing slashes don't change which profile a URL points to
+export function normalizeUrl(url?: string): string {
+  if (!url?.trim()) return ""
+  try {
+    const parsed = new URL(url.trim())
+    return `${parsed.host}${parsed.pathname}`.replace(/\/+$/, "").toLowerCase()
+  } catch {
+    return url.trim().replace(/\/+$/, "").toLowerCase()
+  }
+}
+
+function normalizeEmail(email?: string): string {
+  return email?.trim().toLowerCase() || ""
+}
+
+export function findSuppression(
+  list: SuppressionEntry[],
+  keys: SuppressionKeys
+): SuppressionEntry | undefined {
+  const url = normalizeUrl(keys.profileUrl)
+  const email = normalizeEmail(keys.email)
+  return list.find(
+    (entry) =>
+      (keys.profileId && entry.profileId === keys.profileId) ||
+      (url && normalizeUrl(entry.profileUrl) === url) ||
+      (email && normalizeEmail(entry.email) === email)
+  )
+}
+
+export async function getSuppression(keys: SuppressionKeys): Promise<SuppressionEntry | null> {
+  return findSuppression(await getSuppressionList(), keys) || null
+}
+
+/**
+ * Keys for a profile URL that hasn't been collected yet
+ */
+export function keysForUrl(url: string): SuppressionKeys {
+  return { profileId: generateProfileId(url), profileUrl: url }
+}
+
+export function profileKeys(profile: CustomerProfile): SuppressionKeys {
+  return { profileId: profile.id, profileUrl: profile.profileUrl, email: profile.email }
+}
+
+/**
+ * Adds an entry unless one already matches its keys, and drops the profile from the outreach queue.
+ * Returns the entry that now covers the keys.
+ */
+export async function addSuppression(
+  keys: SuppressionKeys & { name?: string },
+  reason: SuppressionReason,
+  note?: string
+): Promise<SuppressionEntry> {
+  const list = await getSuppressionList()
+  const existing = findSuppression(list, keys)
+  if (existing) return existing
+
+  const entry: SuppressionEntry = {
+    id: `dnc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    profileId: keys.profileId || (keys.profileUrl ? generateProfileId(keys.profileUrl) : undefined),
+    profileUrl: keys.profileUrl?.trim() || undefined,
+    email: normalizeEmail(keys.email) || undefined,
+    name: keys.name,
+    reason,
+    note,
+    addedAt: Date.now()
+  }
+  await saveSuppressionList([...list, entry])
+  if (entry.profileId) {
+    await removeProfileFromQueue(entry.profileId)
+  }
+  return entry
+}
+
+export async function suppressProfile(
+  profile: CustomerProfile,
+  reason: SuppressionReason,
+  note?: string
+): Promise<SuppressionEntry> {
+  return addSuppression({ ...profileKeys(profile), name: profile.name }, reason, note)
+}
+
+export async function removeSuppression(entryId: string): Promise<void> {
+  const list = await getSuppressionList()
+  await saveSuppressionList(list.filter((entry) => entry.id !== entryId))
+}
@@ -0,0 +1,33 @@
+/**
+ * In-memory stand-in for chrome.storage.local, installed on globalThis for tests
+ */
+// chrome.storage keeps JSON, so values go through it both ways, as in the browser
+const clone = (value: any) => JSON.parse(JSON.stringify(value))
+
+export function installFakeChrome(initial: Record<string, any> = {}): Record<string, any> {
+  const store: Record<string, any> = clone(initial)
+  const pick = (keys?: string | string[] | null) => {
+    if (keys == null) return clone(store)
+    const list = Array.isArray(keys) ? keys : [keys]
+    return Object.fromEntries(list.filter((k) => k in store).map((k) => [k, clone(store[k])]))
+  }
+
+  ;(globalThis as any).chrome = {
+    storage: {
+      local: {
+        get: async (keys?: string | string[] | null) => pick(keys),
+        set: async (items: Record<string, any>) => {
+          Object.assign(store, clone(items))
+        },
+        remove: async (keys: string | string[]) => {
+          for (const key of Array.isArray(keys) ? keys : [keys]) delete store[key]
+        },
+        clear: async () => {
+          for (const key of Object.keys(store)) delete store[key]
+        }
+      },
+      onChanged: { addListener: () => {}, removeListener: () => {} }
+    }
+  }
+  return store
+}
@@ -11,8 +11,41 @@ export interface CustomerProfile {
   collectedAt: Date
   lastMessageSent?: Date
   messageCount: number
+  provenance?: ProfileProvenance
+  sequenceState?: SequenceState
+  lastReplyAt?: Date
+  enrichment?: ProfileEnrichment
+  sendFailures?: SendFailures
 }
 
+// Sends that failed in a row since the last one that went out
+export interface SendFailures {
+  count: number
+  lastFailedAt: number // epoch ms
+}
+
+export interface ProfileAnalysis {
+  tone: string // one of ANALYSIS_TONES
+  keyPoints: string[]
+  suggestedInterests: Interest[]
+}
+
+// Cached AI analysis of a profile, used to steer message generation
+export interface ProfileEnrichment extends ProfileAnalysis {
+  model: string
+  analyzedAt: number // epoch ms
+  sourceHash: number // hash of the analyzed fields; a change triggers a new analysis
+}
+
+export type ProvenanceField = "name" | "country" | "age" | "bio" | "interests" | "email"
+
+export interface FieldProvenance {
+  source: string // selector or fallback that produced the value, e.g. "selector:.bio" or "fallback:meta-description"
+  confidence: number // 0..1
+}
+
+export type ProfileProvenance = Partial<Record<ProvenanceField, FieldProvenance>>
+
 export type AgeGroup = "18-25" | "26-35" | "36-45" | "46-55" | "56+" | "unknown"
 
 export type Interest =
@@ -31,8 +64,10 @@ export interface FilterSettings {
   interests?: Interest[]
   minAge?: number
   maxAge?: number
+  ignoreLowConfidence?: boolean
 }
 
+// Log of generated outputs (not reusable templates; see LibraryTemplate)
 export interface MessageTemplate {
   id: string
   content: string
@@ -44,6 +79,7 @@ export interface MessageTemplate {
   error?: string
 }
 
+// Flat view of outbound messages, derived from the conversation store
 export interface MessageHistory {
   id: string
   profileId: string
@@ -52,21 +88,144 @@ export interface MessageHistory {
   sentAt: Date
   success: boolean
   error?: string
+  failureReason?: DeliveryFailureReason
   openaiModel?: string
+  promptVersion?: string
+  sequenceId?: string
+  sequenceStep?: number
+  experimentId?: string
+  variantId?: string
+  checks?: CheckFinding[]
 }
 
+export type DeliveryFailureReason =
+  | "composer_not_found"
+  | "submit_disabled"
+  | "page_error"
+  | "blocked_by_check"
+
+export interface DeliveryResult {
+  success: boolean
+  reason?: DeliveryFailureReason
+  error?: string
+}
+
+// "auto" sends generated messages directly; "review" only drafts them into the review inbox
+export type AutomationMode = "auto" | "review"
+
+// "template+ai" renders the library template and has the AI adapt it to the recipient
+export type MessageSource = "ai" | "template" | "template+ai"
+
 export interface AutomationSettings {
   enabled: boolean
+  mode?: AutomationMode
   rateLimit: {
-    messagesPerHour: number
-    messagesPerDay: number
-    delayBetweenMessages: number // in milliseconds
+    messagesPerHour: number // rolling 60 minutes
+    messagesPerDay: number // rolling 24 hours
+    delayBetweenMessages: number // minimum spacing between sends, in milliseconds
+    spacingJitter?: number // 0..1, spacing varies by up to this fraction either way
+    burstLimit?: number // max sends inside burstWindow
+    burstWindow?: number // in milliseconds
+    perRecipientLimit?: number // max sends to one profile inside perRecipientWindow
+    perRecipientWindow?: number // in milliseconds
   }
-  openaiApiKey?: string
-  openaiModel: string
+  openaiApiKey?: string // legacy; read as the OpenAI provider's key when providers.openai has none
+  openaiModel: string // legacy; likewise the OpenAI provider's default model
+  provider?: LLMProviderId
+  providers?: Partial<Record<LLMProviderId, ProviderSettings>>
   messageVariation: boolean
   retryAttempts: number
   senderName?: string
+  ignoreLowConfidenceFields?: boolean
+  activeSequenceId?: string
+  messageSource?: MessageSource
+  templateId?: string // library template used when messageSource is not "ai"
+  promptProfiles?: PromptProfile[]
+  activePromptProfileId?: string
+  activeExperimentId?: string
+  enrichProfiles?: boolean // analyze profiles with the AI when they are saved
+  backfillInterests?: boolean // replace all-"Other" interests with the analysis' suggestions
+  messageChecks?: MessageCheckSettings // pre-send checks; missing fields use DEFAULT_MESSAGE_CHECKS
+}
+
+// Profile fields a prompt can include in {{profile_details}}
+export type PromptField = "name" | "country" | "ageGroup" | "interests" | "bio" | "analysis"
+
+// One saved revision of a prompt profile; never edited after it is created
+export interface PromptVersion {
+  version: number
+  systemPrompt: string
+  userTemplate: string // template syntax, plus {{profile_details}} and {{length_target}}
+  fields: PromptField[]
+  temperature: number
+  maxTokens: number
+  lengthTarget: string // e.g. "2-3 sentences"
+  createdAt: number
+}
+
+export interface PromptProfile {
+  id: string
+  name: string
+  versions: PromptVersion[] // oldest first; the last one is in use
+}
+
+// A generated message in parts; the sent text is assembled from them by services/ai
+export interface StructuredMessage {
+  subject: string
+  greeting: string // e.g. "Hi Sarah"
+  body: string
+  callToAction: string
+  facts: string[] // profile details the message refers to
+}
+
+// Text ready to send, with the facts the model said it used when it came from the AI
+export interface MessageDraft {
+  text: string
+  facts?: string[]
+  source?: DraftSource // unset for text a person wrote or edited
+}
+
+// How a draft was produced, recorded on the message it is sent as
+export interface DraftSource {
+  model?: string
+  promptVersion?: string
+  templateId?: string
+  experimentId?: string // set when an experiment variant shaped the draft
+  variantId?: string
+}
+
+export type MessageCheckRule =
+  | "placeholders"
+  | "unsupported_facts"
+  | "length"
+  | "banned_phrases"
+  | "near_duplicate"
+  | "wrong_name"
+
+// "flag" sends anyway and records the finding on the message
+export type MessageCheckAction = "block" | "flag" | "off"
+
+export interface MessageCheckSettings {
+  actions: Record<MessageCheckRule, MessageCheckAction>
+  minLength: number // characters, whole message
+  maxLength: number
+  bannedPhrases: string[]
+  duplicateThreshold: number // 0-1 similarity to a recent message
+}
+
+export interface CheckFinding {
+  rule: MessageCheckRule
+  action: "block" | "flag"
+  detail: string
+}
+
+export type LLMProviderId = "openai" | "anthropic" | "openai-compatible" | "mock"
+
+export interface ProviderSettings {
+  apiKey?: string
+  baseUrl?: string // openai-compatible only, e.g. http://localhost:11434/v1
+  model?: string
+  models?: string[] // last list fetched from the provider
 }
 
 export interface MessageStats {
@@ -76,3 +235,328 @@ export interface MessageStats {
   messagesToday: number
   messagesThisHour: number
 }
+
+export interface CollectionQueue {
+  pending: string[]
+  inProgress: string[]
+  completed: string[]
+  failed: { url: string; error: string }[]
+  startedAt: number
+  updatedAt: number
+}
+
+export interface CollectionProgress {
+  total: number
+  completed: number
+  failed: number
+  inProgress: number
+  done: boolean
+}
+
+export type ProfileField = "name" | "location" | "age" | "bio" | "interests" | "email"
+
+export type ProfileSelectorTable = Record<ProfileField, string[]>
+
+/**
+ * Unnormalized values read straight from a candidate page.
+ * Produced by the extraction engine, turned into a CustomerProfile by the caller.
+ */
+export interface RawProfileData {
+  name?: string
+  location?: string
+  age?: number
+  bio?: string
+  interests: string[]
+  email?: string
+  profileUrl: string
+  sources: Partial<Record<ProfileField, string>>
+}
+
+export interface SelectorPack {
+  formatVersion: number // pack file format, bumped on breaking shape changes
+  name: string
+  revision: number // incremented on every save
+  updatedAt: string
+  selectors: ProfileSelectorTable
+}
+
+export interface SelectorHit {
+  selector: string
+  matches: number
+  sample?: string
+}
+
+export interface SelectorFieldReport {
+  hit: boolean
+  matchedSelector?: string
+  value?: string
+  selectors: SelectorHit[]
+}
+
+export type SelectorTestReport = Record<ProfileField, SelectorFieldReport>
+
+export type OutreachItemStatus = "pending" | "paused"
+
+export interface OutreachQueueItem {
+  id: string
+  profileId: string
+  profileName: string
+  scheduledAt: number // epoch ms
+  status: OutreachItemStatus
+  draft?: string
+  draftFacts?: string[]
+  draftSource?: DraftSource
+  createdAt: number
+  step?: SequenceStepRef
+}
+
+export interface OutreachQueue {
+  items: OutreachQueueItem[]
+  paused: boolean
+}
+
+export interface EngineHeartbeat {
+  lastRunAt: number // epoch ms
+  trigger: string // alarm or event that woke the engine
+  outcome: "sent" | "drafted" | "failed" | "idle" | "error"
+  detail?: string
+}
+
+export type RateLimitRule = "daily" | "hourly" | "burst" | "spacing" | "recipient"
+
+export interface RateLimitDecision {
+  allowed: boolean
+  rule?: RateLimitRule
+  reason?: string
+  waitTime?: number // ms until the blocking rule clears
+  clearsAt?: number // epoch ms
+}
+
+export interface SendLogEntry {
+  at: number // epoch ms
+  recipientId?: string
+}
+
+export interface RateLimiterState {
+  log: SendLogEntry[]
+  nextAllowedAt?: number // earliest next send after jittered spacing
+}
+
+export type ReviewStatus = "pending" | "approved" | "rejected"
+
+export interface ReviewDraft {
+  id: string
+  profileId: string
+  profileName: string
+  message: string // current text, including reviewer edits
+  originalMessage: string // text as generated
+  facts?: string[] // facts the model said it used in originalMessage
+  source?: DraftSource // how originalMessage was produced
+  model?: string
+  createdAt: number
+  status: ReviewStatus
+  decidedAt?: number
+  rejectionReason?: string
+  deliveryError?: string // last failed send attempt after approval
+  step?: SequenceStepRef
+}
+
+export interface SequenceStep {
+  id: string
+  delayDays: number // days after the previous step; ignored for the first step
+  prompt?: string // extra instructions for the AI at this step
+  template?: string // fixed text sent instead of an AI message
+  templateId?: string // library template sent instead of an AI message
+}
+
+export interface Sequence {
+  id: string
+  name: string
+  steps: SequenceStep[]
+}
+
+export type SequenceStopReason = "replied" | "completed" | "manual"
+
+export interface SequenceState {
+  sequenceId: string
+  stepIndex: number // last step sent
+  lastStepAt: number // epoch ms
+  stoppedAt?: number
+  stoppedReason?: SequenceStopReason
+}
+
+// Which step of which sequence a queued or drafted message belongs to
+export interface SequenceStepRef {
+  sequenceId: string
+  stepIndex: number
+}
+
+export type MessageDirection = "inbound" | "outbound"
+
+// A message read off a startupschool.org conversation or inbox row
+export interface ScannedMessage {
+  text: string
+  direction: MessageDirection
+  sentAt?: number // epoch ms, when the page shows one
+}
+
+export interface ScannedThread {
+  profileUrl: string // candidate page the thread belongs to
+  profileName?: string
+  messages: ScannedMessage[]
+}
+
+export type DeliveryState = "sent" | "failed" | "received"
+
+export interface ConversationMessage {
+  id: string
+  direction: MessageDirection
+  text: string
+  at: number // epoch ms; for inbound messages without a page timestamp, when it was detected
+  deliveryState: DeliveryState
+  timestampEstimated?: boolean
+  error?: string
+  failureReason?: DeliveryFailureReason
+  model?: string
+  promptVersion?: string
+  templateId?: string // set when a fixed template produced the text instead of the AI
+  sequenceId?: string
+  sequenceStep?: number
+  experimentId?: string
+  variantId?: string
+  checks?: CheckFinding[] // pre-send check findings
+}
+
+export interface ConversationThread {
+  profileId: string
+  profileName: string
+  messages: ConversationMessage[] // oldest first
+  updatedAt: number
+}
+
+// Threads keyed by profile id
+export type ConversationStore = Record<string, ConversationThread>
+
+// Reusable message with {{variables}} and {{#if}} blocks, rendered by utils/templateEngine
+export interface LibraryTemplate {
+  id: string
+  name: string
+  body: string
+  createdAt: number
+  updatedAt: number
+}
+
+// A variant overrides the prompt, the template, or both (template personalized by that prompt)
+export interface ExperimentVariant {
+  id: string
+  name: string
+  promptProfileId?: string
+  templateId?: string
+}
+
+export interface Experiment {
+  id: string
+  name: string
+  variants: ExperimentVariant[]
+  createdAt: number
+  startedAt?: number
+  endedAt?: number
+}
+
+export interface ExperimentVariantResult {
+  variantId: string
+  name: string
+  sent: number
+  failed: number
+  contacted: number // distinct profiles with at least one sent message
+  replied: number // contacted profiles that replied afterwards
+  replyRate: number // 0..1
+}
+
+// Two-proportion z-test between the two best reply rates
+export interface ExperimentSignificance {
+  leaderId: string
+  runnerUpId: string
+  z: number
+  pValue: number
+  significant: boolean
+  enoughData: boolean
+}
+
+// "opt_out" entries are added automatically when a reply asks us to stop
+export type SuppressionReason = "manual" | "opt_out"
+
+// Do-not-contact entry; a profile matching any of its keys is never collected or messaged
+export interface SuppressionEntry {
+  id: string
+  profileId?: string
+  profileUrl?: string
+  email?: string
+  name?: string
+  reason: SuppressionReason
+  note?: string // e.g. the reply that triggered an opt-out
+  addedAt: number // epoch ms
+}
+
+// Everything a backup file carries. Settings never include API keys.
+export interface BackupData {
+  profiles: CustomerProfile[]
+  conversations: ConversationStore
+  messageTemplates: MessageTemplate[]
+  messageStats: MessageStats
+  filterSettings: FilterSettings
+  automationSettings: AutomationSettings
+  templateLibrary: LibraryTemplate[]
+  sequences: Sequence[]
+  experiments: Experiment[]
+  suppressionList: SuppressionEntry[]
+}
+
+export interface Backup {
+  formatVersion: number
+  schemaVersion: number // storage schema the data was exported from
+  exportedAt: string // ISO timestamp
+  data: BackupData
+}
+
+// "merge" adds to what is stored; "replace" swaps stored data for the backup's
+export type BackupImportMode = "merge" | "replace"
+
+// Which copy wins when a profile id is both stored and in the backup
+export type ProfileConflictPolicy = "keep_existing" | "use_imported" | "keep_newer"
+
+export interface BackupPreview {
+  mode: BackupImportMode
+  profiles: { added: number; conflicting: number; unchanged: number; removed: number }
+  conflicts: { id: string; name: string }[] // stored profiles that differ from the backup's copy
+  messages: { added: number; removed: number }
+  items: { added: number; removed: number } // templates, sequences, experiments and do-not-contact entries
+  replacesSettings: boolean
+}
+
+export type ProfileCsvColumn =
+  | "id"
+  | "name"
+  | "email"
+  | "country"
+  | "age"
+  | "ageGroup"
+  | "interests"
+  | "bio"
+  | "profileUrl"
+  | "collectedAt"
+  | "lastMessageSent"
+  | "messageCount"
+
+// Fields a CSV import can fill; the rest are derived or start fresh
+export type ProfileCsvImportField = "id" | "name" | "email" | "country" | "age" | "interests" | "bio" | "profileUrl"
+
+// Import field -> index of the CSV column it is read from
+export type ProfileCsvMapping = Partial<Record<ProfileCsvImportField, number>>
+
+export interface ProfileCsvImportResult {
+  profiles: CustomerProfile[] // new profiles, ready to save
+  duplicates: number // already stored, or repeated earlier in the file
+  suppressed: number // on the do-not-contact list
+  invalid: { row: number; reason: string }[] // row is 1-based and counts the header
+}
@@ -0,0 +1,37 @@
+import type { CustomerProfile, ProvenanceField } from "~/types"
+import { LOW_CONFIDENCE_THRESHOLD } from "~/utils/constants"
+
+/**
+ * True when the field was produced by a weak source.
+ * Fields without provenance (collected before it was recorded) count as trusted.
+ */
+export function isLowConfidence(
+  profile: CustomerProfile,
+  field: ProvenanceField
+): boolean {
+  const entry = profile.provenance?.[field]
+  return entry ? entry.confidence < LOW_CONFIDENCE_THRESHOLD : false
+}
+
+export function getLowConfidenceFields(profile: CustomerProfile): ProvenanceField[] {
+  return (Object.keys(profile.provenance || {}) as ProvenanceField[]).filter((field) =>
+    isLowConfidence(profile, field)
+  )
+}
+
+/**
+ * Returns a copy of the profile with low-confidence fields cleared
+ */
+export function withoutLowConfidenceFields(profile: CustomerProfile): CustomerProfile {
+  const trusted = { ...profile }
+  for (const field of getLowConfidenceFields(profile)) {
+    if (field === "name") continue // Always needed to address the message
+    if (field === "age") {
+      trusted.age = undefined
+      trusted.ageGroup = "unknown"
+    } else {
+      trusted[field] = undefined
+    }
+  }
+  return trusted
+}
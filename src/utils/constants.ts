@@ -1,3 +1,16 @@
+import type {
+  LLMProviderId,
+  MessageCheckRule,
+  MessageCheckSettings,
+  ProfileSelectorTable,
+  ProfileCsvColumn,
+  ProfileCsvImportField,
+  PromptField,
+  PromptProfile,
+  SelectorPack,
+  Sequence
+} from "~/types"
+
 export const COUNTRIES = [
   "United States",
   "United Kingdom",
@@ -52,3 +65,284 @@ export const OPENAI_MODELS = [
   "gpt-4-turbo",
   "gpt-3.5-turbo"
 ] as const
+
+export const LLM_PROVIDERS: Record<
+  LLMProviderId,
+  { label: string; needsApiKey: boolean; needsBaseUrl: boolean; models: readonly string[] }
+> = {
+  openai: { label: "OpenAI", needsApiKey: true, needsBaseUrl: false, models: OPENAI_MODELS },
+  anthropic: {
+    label: "Anthropic",
+    needsApiKey: true,
+    needsBaseUrl: false,
+    models: ["claude-haiku-4-5", "claude-sonnet-4-5", "claude-opus-4-1"]
+  },
+  // Ollama, LM Studio and other servers speaking the OpenAI chat API; models are fetched from the server
+  "openai-compatible": { label: "OpenAI-compatible", needsApiKey: false, needsBaseUrl: true, models: [] },
+  // Offline, deterministic output for trying the pipeline without an API
+  mock: { label: "Mock (offline)", needsApiKey: false, needsBaseUrl: false, models: ["mock-1"] }
+}
+
+/**
+ * Selector tables for every extracted field, tried in order.
+ * Shared by the startupschool content script and the executeScript fallback.
+ */
+export const DEFAULT_PROFILE_SELECTORS: ProfileSelectorTable = {
+  name: [
+    "h1",
+    ".profile-name",
+    "[data-name]",
+    ".user-name",
+    ".name",
+    "header h1",
+    ".profile-header h1",
+    ".user-profile h1",
+    ".candidate-name",
+    ".candidate-header h1",
+    "[data-candidate-name]",
+    ".cofounder-name",
+    "h2.candidate-name",
+    ".profile-title"
+  ],
+  location: [
+    ".location",
+    ".country",
+    "[data-country]",
+    ".profile-location",
+    ".user-location",
+    ".location-info",
+    "[data-location]",
+    ".geo-location",
+    ".candidate-location",
+    "[data-candidate-location]",
+    ".cofounder-location",
+    ".location-text",
+    "[title='Location']",
+    ".css-1jvurm9"
+  ],
+  age: [".age", "[data-age]", "[title='Age']"],
+  bio: [
+    ".bio",
+    ".description",
+    "[data-bio]",
+    ".profile-bio",
+    ".user-bio",
+    ".about",
+    ".about-section",
+    ".profile-about",
+    ".profile-description",
+    ".user-description",
+    ".cofounder-card__description",
+    ".profile-summary",
+    ".details-section",
+    "p.description",
+    "section.about",
+    ".bio-text",
+    ".candidate-bio",
+    ".candidate-description",
+    "[data-candidate-bio]",
+    ".cofounder-bio",
+    ".about-text",
+    ".summary",
+    ".candidate-summary",
+    "[data-testid='about']",
+    "[data-testid='bio']",
+    ".css-1tp1ukf", // table details blocks
+    ".css-vqx3x2", // intro paragraph
+    ".css-ruq4fr", // location/age row
+    ".css-106je9h" // extra paragraph block
+  ],
+  interests: [
+    ".interest",
+    ".tag",
+    ".badge",
+    "[data-interest]",
+    ".skill",
+    ".expertise",
+    ".topic",
+    ".category",
+    ".interest-tag",
+    ".tag-item",
+    "a.tag",
+    ".chip",
+    ".candidate-tag",
+    ".candidate-skill",
+    "[data-skill]",
+    ".expertise-tag",
+    ".technology-tag",
+    ".interest-chip",
+    ".topics li",
+    ".skills li",
+    ".interests li",
+    ".tags li",
+    ".css-1iujaz8", // shared interests tags
+    ".css-17813s4" // personal interests tags
+  ],
+  email: [
+    'a[href^="mailto:"]',
+    ".email",
+    "[data-email]",
+    ".contact-email",
+    ".user-email"
+  ]
+}
+
+export const PROFILE_FIELDS = [
+  "name",
+  "location",
+  "age",
+  "bio",
+  "interests",
+  "email"
+] as const
+
+export const SELECTOR_PACK_FORMAT_VERSION = 1
+
+export const BACKUP_FORMAT_VERSION = 1
+
+export const DEFAULT_SELECTOR_PACK: SelectorPack = {
+  formatVersion: SELECTOR_PACK_FORMAT_VERSION,
+  name: "Built-in Startup School selectors",
+  revision: 0,
+  updatedAt: new Date(0).toISOString(),
+  selectors: DEFAULT_PROFILE_SELECTORS
+}
+
+// Fields scored below this are shown as low confidence and can be ignored by filters and prompts
+export const LOW_CONFIDENCE_THRESHOLD = 0.6
+
+export const HOUR_MS = 60 * 60 * 1000
+export const DAY_MS = 24 * HOUR_MS
+
+// Fallbacks for rate-limit fields missing from older stored settings
+export const RATE_LIMIT_DEFAULTS = {
+  spacingJitter: 0.3,
+  burstLimit: 3,
+  burstWindow: 15 * 60 * 1000,
+  perRecipientLimit: 3,
+  perRecipientWindow: 30 * DAY_MS
+}
+
+// Intro on day 0, a nudge on day 5, a final note on day 12
+export const DEFAULT_SEQUENCE: Sequence = {
+  id: "default",
+  name: "Intro + two follow-ups",
+  steps: [
+    { id: "intro", delayDays: 0 },
+    {
+      id: "nudge",
+      delayDays: 5,
+      prompt: "This is a short, friendly follow-up to an earlier message that got no reply. Don't repeat the first message; add one new reason to connect."
+    },
+    {
+      id: "final",
+      delayDays: 7,
+      prompt: "This is the last follow-up. Keep it to one or two sentences, acknowledge they may be busy, and leave the door open without asking again."
+    }
+  ]
+}
+
+export const STARTUP_SCHOOL_INBOX_URL = "https://www.startupschool.org/cofounder-matching/inbox"
+
+export const MESSAGE_CHECK_RULES: Record<MessageCheckRule, string> = {
+  placeholders: "Leftover placeholders",
+  unsupported_facts: "Facts not in the profile",
+  length: "Message length",
+  banned_phrases: "Banned phrases",
+  near_duplicate: "Near-duplicate of a recent message",
+  wrong_name: "Wrong recipient name"
+}
+
+export const DEFAULT_MESSAGE_CHECKS: MessageCheckSettings = {
+  actions: {
+    placeholders: "block",
+    unsupported_facts: "flag",
+    length: "flag",
+    banned_phrases: "block",
+    near_duplicate: "flag",
+    wrong_name: "block"
+  },
+  minLength: 80,
+  maxLength: 1200,
+  bannedPhrases: ["as an AI", "guaranteed", "act now", "limited time offer", "click here", "risk-free"],
+  duplicateThreshold: 0.8
+}
+
+export const PROFILE_CSV_COLUMNS: Record<ProfileCsvColumn, string> = {
+  id: "ID",
+  name: "Name",
+  email: "Email",
+  country: "Country",
+  age: "Age",
+  ageGroup: "Age Group",
+  interests: "Interests",
+  bio: "Bio",
+  profileUrl: "Profile URL",
+  collectedAt: "Collected At",
+  lastMessageSent: "Last Message Sent",
+  messageCount: "Message Count"
+}
+
+export const PROFILE_CSV_IMPORT_FIELDS: ProfileCsvImportField[] = [
+  "name",
+  "profileUrl",
+  "email",
+  "country",
+  "age",
+  "interests",
+  "bio",
+  "id"
+]
+
+export const ANALYSIS_TONES = ["professional", "friendly", "casual", "technical", "enthusiastic"] as const
+
+export const PROMPT_FIELDS: PromptField[] = ["name", "country", "ageGroup", "interests", "bio", "analysis"]
+
+const BUILTIN_SYSTEM_PROMPT = [
+  "You are a helpful assistant that writes personalized, professional messages for networking on YCStartupSchool.",
+  "Your messages should be:",
+  "- Genuine and authentic (not spammy)",
+  "- Personalized based on the profile information",
+  "- Professional but friendly",
+  "- Concise ({{length_target}})",
+  "- Focused on building genuine connections",
+  "- Never use generic templates or spam-like language",
+  "- Vary your tone and approach naturally"
+].join("\n")
+
+const BUILTIN_USER_TEMPLATE = [
+  "Generate a personalized message for this YCStartupSchool member:",
+  "",
+  "{{profile_details}}",
+  "",
+  "Write a brief, personalized message that feels natural and genuine. Make it specific to their profile."
+].join("\n")
+
+// Version 1 is the prompt that was hard-coded before prompts became editable;
+// version 2 adds the cached profile analysis (tone and key points)
+export const DEFAULT_PROMPT_PROFILE: PromptProfile = {
+  id: "builtin",
+  name: "Built-in",
+  versions: [
+    {
+      version: 1,
+      systemPrompt: BUILTIN_SYSTEM_PROMPT,
+      userTemplate: BUILTIN_USER_TEMPLATE,
+      fields: ["name", "country", "ageGroup", "interests", "bio"],
+      temperature: 0.8,
+      maxTokens: 150,
+      lengthTarget: "2-3 sentences",
+      createdAt: 0
+    },
+    {
+      version: 2,
+      systemPrompt: BUILTIN_SYSTEM_PROMPT,
+      userTemplate: BUILTIN_USER_TEMPLATE,
+      fields: PROMPT_FIELDS,
+      temperature: 0.8,
+      maxTokens: 150,
+      lengthTarget: "2-3 sentences",
+      createdAt: 0
+    }
+  ]
+}
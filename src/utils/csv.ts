@@ -0,0 +1,67 @@
+/**
+ * RFC 4180 CSV: comma-separated, fields quoted with "" when they hold commas, quotes or line breaks
+ */
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * Undoes the quote prefix toCsv puts on formula-like cells
+ */
+export function unescapeCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n")
+}
+
+/**
+ * Parses CSV text into rows of cells. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, "") // Excel's byte order mark
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0].trim()) rows.push(row)
+    row = []
+    cell = ""
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) endRow()
+
+  return rows
+}
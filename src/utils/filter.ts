@@ -1,4 +1,5 @@
 import type { CustomerProfile, FilterSettings, AgeGroup } from "~/types"
+import { withoutLowConfidenceFields } from "~/utils/confidence"
 
 export function categorizeAgeGroup(age: number | undefined): AgeGroup {
   if (!age) return "unknown"
@@ -11,9 +12,14 @@ export function categorizeAgeGroup(age: number | undefined): AgeGroup {
 }
 
 export function matchesFilters(
-  profile: CustomerProfile,
+  candidate: CustomerProfile,
   filters: FilterSettings
 ): boolean {
+  // Weakly sourced values count as unknown rather than as a match
+  const profile = filters.ignoreLowConfidence
+    ? withoutLowConfidenceFields(candidate)
+    : candidate
+
   // Country filter
   if (filters.countries && filters.countries.length > 0) {
     if (!profile.country || !filters.countries.includes(profile.country)) {
@@ -0,0 +1,11 @@
+/**
+ * FNV-1a, 32-bit. Stable across sessions and cheap; not for anything security related.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,218 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import fs from "fs"
+import path from "path"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { CustomerProfile } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+import {
+  STORAGE_SCHEMA_VERSION_KEY,
+  applyMigrations,
+  migrateLegacyHistory,
+  migrateLegacyOpenAIKey,
+  threadsFromLegacy,
+  type Migration
+} from "./migrations"
+
+function loadSnapshot(name: string): Record<string, any> {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "__fixtures__", name), "utf8"))
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+  vi.spyOn(console, "error").mockImplementation(() => {})
+})
+
+describe("migrateLegacyHistory", () => {
+  it("builds conversation threads from a stored history snapshot", async () => {
+    const snapshot = loadSnapshot("storage-legacy-history.json")
+    const store = installFakeChrome(snapshot)
+
+    await migrateLegacyHistory()
+
+    expect(store.messageHistory).toBeUndefined()
+    expect(store.inboundReplies).toBeUndefined()
+    expect(store.conversations).toEqual(threadsFromLegacy(snapshot.messageHistory, snapshot.inboundReplies))
+    expect(store.conversations).toMatchSnapshot()
+  })
+
+  it("orders each thread oldest first and tracks the latest message", () => {
+    const { messageHistory, inboundReplies } = loadSnapshot("storage-legacy-history.json")
+    const thread = threadsFromLegacy(messageHistory, inboundReplies).abc123
+
+    expect(thread.messages.map((m) => m.direction)).toEqual(["outbound", "inbound", "outbound"])
+    expect(thread.messages.map((m) => m.deliveryState)).toEqual(["sent", "received", "failed"])
+    expect(thread.updatedAt).toBe(new Date("2023-11-15T23:13:20.000Z").getTime())
+  })
+
+  it("keeps conversations that already exist and only drops the old lists", async () => {
+    const conversations = { abc123: { profileId: "abc123", profileName: "Jane Doe", messages: [], updatedAt: 1 } }
+    const store = installFakeChrome({ ...loadSnapshot("storage-legacy-history.json"), conversations })
+
+    await migrateLegacyHistory()
+
+    expect(store.conversations).toEqual(conversations)
+    expect(store.messageHistory).toBeUndefined()
+  })
+
+  it("leaves storage alone when there is nothing to move", async () => {
+    const store = installFakeChrome({ conversations: {} })
+    await migrateLegacyHistory()
+    expect(store).toEqual({ conversations: {} })
+  })
+})
+
+describe("migrateLegacyOpenAIKey", () => {
+  it("moves the key and model into provider settings", async () => {
+    const store = installFakeChrome(loadSnapshot("storage-legacy-openai.json"))
+
+    await migrateLegacyOpenAIKey()
+
+    expect(store.automationSettings.openaiApiKey).toBeUndefined()
+    expect(store.automationSettings.providers).toEqual({ openai: { apiKey: "sk-legacy-key", model: "gpt-4o" } })
+    expect(store.automationSettings).toMatchSnapshot()
+  })
+
+  it("keeps what providers.openai already holds", async () => {
+    const snapshot = loadSnapshot("storage-legacy-openai.json")
+    snapshot.automationSettings.providers = {
+      openai: { apiKey: "sk-newer-key", model: "gpt-4.1-mini" },
+      anthropic: { apiKey: "sk-ant-key" }
+    }
+    const store = installFakeChrome(snapshot)
+
+    await migrateLegacyOpenAIKey()
+
+    expect(store.automationSettings.openaiApiKey).toBeUndefined()
+    expect(store.automationSettings.providers).toEqual({
+      openai: { apiKey: "sk-newer-key", model: "gpt-4.1-mini" },
+      anthropic: { apiKey: "sk-ant-key" }
+    })
+  })
+
+  it("fills only the missing parts of providers.openai", async () => {
+    const snapshot = loadSnapshot("storage-legacy-openai.json")
+    snapshot.automationSettings.providers = { openai: { baseUrl: "https://proxy.example.com/v1" } }
+    const store = installFakeChrome(snapshot)
+
+    await migrateLegacyOpenAIKey()
+
+    expect(store.automationSettings.providers.openai).toEqual({
+      baseUrl: "https://proxy.example.com/v1",
+      apiKey: "sk-legacy-key",
+      model: "gpt-4o"
+    })
+  })
+
+  it("leaves settings without a legacy key alone", async () => {
+    const settings = { enabled: false, providers: { openai: { apiKey: "sk-current" } } }
+    const store = installFakeChrome({ automationSettings: settings })
+    await migrateLegacyOpenAIKey()
+    expect(store.automationSettings).toEqual(settings)
+  })
+})
+
+describe("ensureProfileDatabase (v2)", () => {
+  // The profile database caches its connection, so each test gets a new database and modules
+  async function load() {
+    vi.resetModules()
+    return {
+      migrations: await import("./migrations"),
+      profileStore: await import("./profileStore")
+    }
+  }
+
+  beforeEach(() => {
+    ;(globalThis as any).indexedDB = new IDBFactory()
+  })
+
+  it("moves a stored profiles array into IndexedDB", async () => {
+    const store = installFakeChrome(loadSnapshot("storage-legacy-profiles.json"))
+    const { migrations, profileStore } = await load()
+
+    expect(await migrations.runMigrations()).toBe(migrations.STORAGE_SCHEMA_VERSION)
+
+    expect(store.profiles).toBeUndefined()
+    expect(store[STORAGE_SCHEMA_VERSION_KEY]).toBe(migrations.STORAGE_SCHEMA_VERSION)
+    const profiles = await profileStore.getAllProfiles()
+    expect(profiles[0].lastMessageSent).toBeInstanceOf(Date)
+    expect(profiles).toMatchSnapshot()
+  })
+
+  it("finishes a move that stopped after some profiles were written", async () => {
+    const snapshot = loadSnapshot("storage-legacy-profiles.json")
+    const { profiles: legacy, ...rest } = snapshot
+    const store = installFakeChrome(rest)
+
+    // The first run wrote one profile, which has since been messaged again, then the worker stopped
+    const written: CustomerProfile = { ...legacy[0], messageCount: 3 }
+    await (await load()).profileStore.putProfiles([written])
+    store.profiles = legacy
+
+    const { migrations, profileStore } = await load()
+    expect(await migrations.runMigrations()).toBe(migrations.STORAGE_SCHEMA_VERSION)
+
+    expect(store.profiles).toBeUndefined()
+    expect(store[STORAGE_SCHEMA_VERSION_KEY]).toBe(migrations.STORAGE_SCHEMA_VERSION)
+    const profiles = await profileStore.getAllProfiles()
+    expect(profiles.map((p) => [p.id, p.messageCount])).toEqual([
+      ["abc123", 3],
+      ["def456", 0]
+    ])
+  })
+})
+
+describe("applyMigrations", () => {
+  const step = (version: number, run: () => Promise<void> = async () => {}): Migration & { migrate: any } => ({
+    version,
+    description: `step ${version}`,
+    migrate: vi.fn(run)
+  })
+
+  it("runs every migration on fresh storage and records the version", async () => {
+    const store = installFakeChrome()
+    const migrations = [step(1), step(2), step(3)]
+
+    expect(await applyMigrations(migrations)).toBe(3)
+    expect(migrations.every((m) => m.migrate.mock.calls.length === 1)).toBe(true)
+    expect(store[STORAGE_SCHEMA_VERSION_KEY]).toBe(3)
+  })
+
+  it("skips migrations at or below the stored version", async () => {
+    installFakeChrome({ [STORAGE_SCHEMA_VERSION_KEY]: 2 })
+    const migrations = [step(1), step(2), step(3)]
+
+    expect(await applyMigrations(migrations)).toBe(3)
+    expect(migrations.map((m) => m.migrate.mock.calls.length)).toEqual([0, 0, 1])
+  })
+
+  it("stops at a failing step and keeps the version before it", async () => {
+    const store = installFakeChrome()
+    const migrations = [
+      step(1),
+      step(2, async () => {
+        throw new Error("quota exceeded")
+      }),
+      step(3)
+    ]
+
+    expect(await applyMigrations(migrations)).toBe(1)
+    expect(migrations[2].migrate).not.toHaveBeenCalled()
+    expect(store[STORAGE_SCHEMA_VERSION_KEY]).toBe(1)
+
+    // The next start retries from the failed step
+    migrations[1].migrate.mockImplementation(async () => {})
+    expect(await applyMigrations(migrations)).toBe(3)
+    expect(migrations[0].migrate).toHaveBeenCalledTimes(1)
+  })
+
+  it("refuses to migrate data from a newer schema", async () => {
+    const store = installFakeChrome({ [STORAGE_SCHEMA_VERSION_KEY]: 7 })
+    const migrations = [step(1), step(2)]
+
+    expect(await applyMigrations(migrations)).toBe(7)
+    expect(migrations.some((m) => m.migrate.mock.calls.length > 0)).toBe(false)
+    expect(store[STORAGE_SCHEMA_VERSION_KEY]).toBe(7)
+  })
+})
@@ -0,0 +1,150 @@
+import type { ConversationMessage, ConversationStore } from "~/types"
+import { ensureProfileDatabase } from "~/utils/profileStore"
+
+/**
+ * Versioned storage schema. Each migration upgrades stored data by one version and runs once,
+ * in order; the version is saved after each step, so a failed step is retried on the next start.
+ * Add a migration here whenever a stored shape changes in a way defaults alone can't cover.
+ */
+
+export const STORAGE_SCHEMA_VERSION_KEY = "storageSchemaVersion"
+
+export interface Migration {
+  version: number
+  description: string
+  migrate: () => Promise<void>
+}
+
+/**
+ * Builds conversation threads from the flat history and reply lists used before threads existed
+ */
+export function threadsFromLegacy(history: any[], replies: any[]): ConversationStore {
+  const store: ConversationStore = {}
+  const add = (profileId: string, profileName: string, message: ConversationMessage) => {
+    const thread = store[profileId] || (store[profileId] = { profileId, profileName, messages: [], updatedAt: 0 })
+    thread.messages.push(message)
+    thread.updatedAt = Math.max(thread.updatedAt, message.at)
+  }
+
+  for (const h of history) {
+    add(h.profileId, h.profileName, {
+      id: h.id,
+      direction: "outbound",
+      text: h.message || "",
+      at: new Date(h.sentAt).getTime() || 0,
+      deliveryState: h.success ? "sent" : "failed",
+      error: h.error,
+      failureReason: h.failureReason,
+      model: h.openaiModel,
+      sequenceId: h.sequenceId,
+      sequenceStep: h.sequenceStep
+    })
+  }
+  for (const r of replies) {
+    add(r.profileId, r.profileName, {
+      id: r.id,
+      direction: "inbound",
+      text: r.message,
+      at: r.receivedAt,
+      deliveryState: "received",
+      timestampEstimated: r.timestampEstimated
+    })
+  }
+
+  for (const thread of Object.values(store)) {
+    thread.messages.sort((a, b) => a.at - b.at)
+  }
+  return store
+}
+
+export async function migrateLegacyHistory(): Promise<void> {
+  const result = await chrome.storage.local.get(["conversations", "messageHistory", "inboundReplies"])
+  if (!result.messageHistory && !result.inboundReplies) return
+
+  if (!result.conversations) {
+    const store = threadsFromLegacy(result.messageHistory || [], result.inboundReplies || [])
+    await chrome.storage.local.set({ conversations: store })
+  }
+  await chrome.storage.local.remove(["messageHistory", "inboundReplies"])
+}
+
+// The key was kept in openaiApiKey before there were several providers
+export async function migrateLegacyOpenAIKey(): Promise<void> {
+  const { automationSettings: settings } = await chrome.storage.local.get("automationSettings")
+  if (!settings?.openaiApiKey) return
+
+  const openai = settings.providers?.openai || {}
+  const { openaiApiKey, ...rest } = settings
+  await chrome.storage.local.set({
+    automationSettings: {
+      ...rest,
+      providers: {
+        ...settings.providers,
+        openai: { ...openai, apiKey: openai.apiKey || openaiApiKey, model: openai.model || settings.openaiModel }
+      }
+    }
+  })
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Move message history and replies into conversation threads",
+    migrate: migrateLegacyHistory
+  },
+  {
+    version: 2,
+    description: "Move profiles from chrome.storage to IndexedDB",
+    migrate: ensureProfileDatabase
+  },
+  {
+    version: 3,
+    description: "Move the OpenAI key into provider settings",
+    migrate: migrateLegacyOpenAIKey
+  }
+]
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+let running: Promise<number> | null = null
+
+/**
+ * Runs the migrations above the stored version, in order. Exported for tests; use runMigrations.
+ */
+export async function applyMigrations(migrations: Migration[]): Promise<number> {
+  const latest = migrations[migrations.length - 1]?.version || 0
+  const result = await chrome.storage.local.get(STORAGE_SCHEMA_VERSION_KEY)
+  let version: number = result[STORAGE_SCHEMA_VERSION_KEY] || 0
+
+  if (version > latest) {
+    console.warn(`Stored data is schema v${version}, newer than this build's v${latest}; not migrating`)
+    return version
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= version) continue
+    try {
+      await migration.migrate()
+    } catch (error) {
+      console.error(`Storage migration v${migration.version} (${migration.description}) failed:`, error)
+      break
+    }
+    version = migration.version
+    await chrome.storage.local.set({ [STORAGE_SCHEMA_VERSION_KEY]: version })
+    console.log(`Storage migrated to v${version}: ${migration.description}`)
+  }
+  return version
+}
+
+/**
+ * Brings stored data up to the current schema. Concurrent calls share one run.
+ * Returns the schema version the data is at afterwards.
+ */
+export function runMigrations(): Promise<number> {
+  if (!running) {
+    running = applyMigrations(MIGRATIONS).finally(() => {
+      running = null
+    })
+  }
+  return running
+}
@@ -0,0 +1,96 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { CustomerProfile } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+
+function profile(id: string, lastMessageSent?: string): CustomerProfile {
+  return {
+    id,
+    name: `Founder ${id}`,
+    profileUrl: `https://www.startupschool.org/cofounder-matching/candidate/${id}`,
+    collectedAt: new Date("2024-01-01T00:00:00Z"),
+    messageCount: lastMessageSent ? 1 : 0,
+    lastMessageSent: lastMessageSent ? new Date(lastMessageSent) : undefined
+  }
+}
+
+// A fresh database and module per test, so each one opens (and migrates) from scratch
+async function loadStore() {
+  vi.resetModules()
+  return import("./profileStore")
+}
+
+beforeEach(() => {
+  ;(globalThis as any).indexedDB = new IDBFactory()
+  installFakeChrome()
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+describe("getProfilesContactedBetween", () => {
+  it("finds profiles by last-contacted date and leaves out never-messaged ones", async () => {
+    const store = await loadStore()
+    await store.putProfiles([
+      profile("a", "2024-02-01T00:00:00Z"),
+      profile("b", "2024-02-10T00:00:00Z"),
+      profile("c", "2024-03-01T00:00:00Z"),
+      profile("d")
+    ])
+
+    const contacted = await store.getProfilesContactedBetween(
+      new Date("2024-02-01T00:00:00Z"),
+      new Date("2024-02-15T00:00:00Z")
+    )
+
+    expect(contacted.map((p) => p.id)).toEqual(["a", "b"])
+    expect(contacted[0].lastMessageSent).toEqual(new Date("2024-02-01T00:00:00Z"))
+  })
+
+  it("runs up to now by default", async () => {
+    const store = await loadStore()
+    await store.putProfiles([profile("a", "2024-02-01T00:00:00Z"), profile("b", new Date().toISOString())])
+
+    const contacted = await store.getProfilesContactedBetween(new Date(Date.now() - 60000))
+
+    expect(contacted.map((p) => p.id)).toEqual(["b"])
+  })
+})
+
+describe("deleteProfiles", () => {
+  it("removes only the given profiles", async () => {
+    const store = await loadStore()
+    await store.putProfiles([profile("a"), profile("b"), profile("c")])
+
+    await store.deleteProfiles(["a", "c", "missing"])
+
+    expect((await store.getAllProfiles()).map((p) => p.id)).toEqual(["b"])
+  })
+})
+
+describe("moving profiles out of chrome.storage", () => {
+  it("moves the stored array into the database and removes it", async () => {
+    const storage = installFakeChrome({ profiles: [profile("a"), profile("b", "2024-02-01T00:00:00Z")] })
+    const store = await loadStore()
+
+    await store.ensureProfileDatabase()
+
+    expect((await store.getAllProfiles()).map((p) => p.id)).toEqual(["a", "b"])
+    expect(storage.profiles).toBeUndefined()
+  })
+
+  it("reruns over profiles already in the database, keeping the stored copies", async () => {
+    const first = await loadStore()
+    await first.putProfiles([{ ...profile("a"), messageCount: 3 }])
+
+    // A move interrupted after the database write, before the array was removed
+    const storage = installFakeChrome({ profiles: [profile("a"), profile("b")] })
+    const store = await loadStore()
+    await store.ensureProfileDatabase()
+
+    expect((await store.getAllProfiles()).map((p) => [p.id, p.messageCount])).toEqual([
+      ["a", 3],
+      ["b", 0]
+    ])
+    expect(storage.profiles).toBeUndefined()
+  })
+})
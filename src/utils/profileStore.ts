@@ -0,0 +1,204 @@
+import type { CustomerProfile } from "~/types"
+
+/**
+ * IndexedDB repository for profiles, indexed by country, interest and last-contacted date.
+ * Profiles used to live in one chrome.storage array that every write rewrote whole; they are
+ * moved here the first time the database is opened. Use the wrappers in utils/storage.
+ */
+
+const DB_NAME = "automated-messaging"
+const DB_VERSION = 1
+const PROFILE_STORE = "profiles"
+
+// IndexedDB has no change events, so every write bumps this chrome.storage key for listeners
+export const PROFILES_REVISION_KEY = "profilesRevision"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"))
+  })
+}
+
+// chrome.storage held dates as strings; IndexedDB keeps Date objects, which the index sorts on
+function reviveProfile(p: any): CustomerProfile {
+  return {
+    ...p,
+    collectedAt: new Date(p.collectedAt),
+    lastMessageSent: p.lastMessageSent ? new Date(p.lastMessageSent) : undefined,
+    lastReplyAt: p.lastReplyAt ? new Date(p.lastReplyAt) : undefined
+  }
+}
+
+async function bumpRevision(): Promise<void> {
+  await chrome.storage.local.set({ [PROFILES_REVISION_KEY]: Date.now() + Math.random() })
+}
+
+/**
+ * One-time move of the old chrome.storage array. A profile already in the database is kept,
+ * since it can only be newer; that also makes a migration interrupted halfway safe to rerun.
+ */
+async function migrateFromStorage(db: IDBDatabase): Promise<void> {
+  const { profiles } = await chrome.storage.local.get("profiles")
+  if (!Array.isArray(profiles)) return
+
+  if (profiles.length > 0) {
+    const tx = db.transaction(PROFILE_STORE, "readwrite")
+    const store = tx.objectStore(PROFILE_STORE)
+    for (const profile of profiles) {
+      // A duplicate key fails the request only: preventDefault keeps the transaction alive,
+      // stopPropagation keeps the error from reaching tx.onerror and failing the whole move
+      store.add(reviveProfile(profile)).onerror = (event) => {
+        event.preventDefault()
+        event.stopPropagation()
+      }
+    }
+    await transactionDone(tx)
+    console.log(`Moved ${profiles.length} profiles to IndexedDB`)
+  }
+
+  await chrome.storage.local.remove("profiles")
+  await bumpRevision()
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(PROFILE_STORE, { keyPath: "id" })
+        store.createIndex("country", "country")
+        store.createIndex("interests", "interests", { multiEntry: true })
+        store.createIndex("lastMessageSent", "lastMessageSent")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).then(async (db) => {
+      await migrateFromStorage(db)
+      return db
+    })
+    // Let the next call try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Opens the database, which moves any profiles still in chrome.storage into it
+ */
+export async function ensureProfileDatabase(): Promise<void> {
+  await openDatabase()
+}
+
+async function readStore<T>(fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return requestResult(fn(db.transaction(PROFILE_STORE, "readonly").objectStore(PROFILE_STORE)))
+}
+
+export async function getAllProfiles(): Promise<CustomerProfile[]> {
+  return (await readStore((store) => store.getAll())).map(reviveProfile)
+}
+
+export async function getProfileById(profileId: string): Promise<CustomerProfile | null> {
+  const profile = await readStore((store) => store.get(profileId))
+  return profile ? reviveProfile(profile) : null
+}
+
+export async function getProfilesByCountry(country: string): Promise<CustomerProfile[]> {
+  return (await readStore((store) => store.index("country").getAll(country))).map(reviveProfile)
+}
+
+export async function getProfilesByInterest(interest: string): Promise<CustomerProfile[]> {
+  return (await readStore((store) => store.index("interests").getAll(interest))).map(reviveProfile)
+}
+
+/**
+ * Profiles last messaged inside [from, to]. Never-messaged profiles aren't in the index.
+ */
+export async function getProfilesContactedBetween(from: Date, to: Date = new Date()): Promise<CustomerProfile[]> {
+  const range = IDBKeyRange.bound(from, to)
+  return (await readStore((store) => store.index("lastMessageSent").getAll(range))).map(reviveProfile)
+}
+
+/**
+ * Reads one profile, lets `fn` produce its replacement and writes it, all in one transaction.
+ * `fn` gets undefined for a missing profile and returns null to leave the store as it was.
+ * It must be synchronous: awaiting inside it would let the transaction commit early.
+ */
+export async function modifyProfile(
+  profileId: string,
+  fn: (existing: CustomerProfile | undefined) => CustomerProfile | null
+): Promise<CustomerProfile | null> {
+  const db = await openDatabase()
+  const tx = db.transaction(PROFILE_STORE, "readwrite")
+  const store = tx.objectStore(PROFILE_STORE)
+  const done = transactionDone(tx)
+
+  let result: CustomerProfile | null = null
+  const read = store.get(profileId)
+  read.onsuccess = () => {
+    result = fn(read.result ? reviveProfile(read.result) : undefined)
+    if (result) store.put(result)
+  }
+
+  await done
+  if (result) await bumpRevision()
+  return result
+}
+
+export async function putProfiles(profiles: CustomerProfile[]): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PROFILE_STORE, "readwrite")
+  const store = tx.objectStore(PROFILE_STORE)
+  for (const profile of profiles) {
+    store.put(reviveProfile(profile))
+  }
+  await transactionDone(tx)
+  await bumpRevision()
+}
+
+/**
+ * Swaps every stored profile for `profiles` in one transaction, so a failure leaves the old set
+ */
+export async function replaceAllProfiles(profiles: CustomerProfile[]): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PROFILE_STORE, "readwrite")
+  const store = tx.objectStore(PROFILE_STORE)
+  store.clear()
+  for (const profile of profiles) {
+    store.put(reviveProfile(profile))
+  }
+  await transactionDone(tx)
+  await bumpRevision()
+}
+
+export async function deleteProfiles(profileIds: string[]): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PROFILE_STORE, "readwrite")
+  const store = tx.objectStore(PROFILE_STORE)
+  for (const id of profileIds) {
+    store.delete(id)
+  }
+  await transactionDone(tx)
+  await bumpRevision()
+}
+
+export async function clearProfiles(): Promise<void> {
+  const db = await openDatabase()
+  const tx = db.transaction(PROFILE_STORE, "readwrite")
+  tx.objectStore(PROFILE_STORE).clear()
+  await transactionDone(tx)
+  await bumpRevision()
+}
@@ -10,6 +10,7 @@ export function serializeProfile(profile: CustomerProfile): any {
 
   const collected = safeDate(profile.collectedAt, true)
   const lastSent = safeDate(profile.lastMessageSent, false)
+  const lastReply = safeDate(profile.lastReplyAt, false)
 
   return {
     id: profile.id,
@@ -23,7 +24,13 @@ export function serializeProfile(profile: CustomerProfile): any {
     profileUrl: profile.profileUrl,
     collectedAt: collected ? collected.toISOString() : new Date().toISOString(),
     lastMessageSent: lastSent ? lastSent.toISOString() : undefined,
-    messageCount: profile.messageCount || 0
+    messageCount: profile.messageCount || 0,
+    provenance: profile.provenance ? { ...profile.provenance } : undefined,
+    sequenceState: profile.sequenceState ? { ...profile.sequenceState } : undefined,
+    lastReplyAt: lastReply ? lastReply.toISOString() : undefined,
+    enrichment: profile.enrichment
+      ? { ...profile.enrichment, keyPoints: [...profile.enrichment.keyPoints], suggestedInterests: [...profile.enrichment.suggestedInterests] }
+      : undefined
   }
 }
 
@@ -52,6 +59,14 @@ export function deserializeProfile(profileData: any): CustomerProfile {
         ? profileData.lastMessageSent
         : new Date(profileData.lastMessageSent))
       : undefined,
-    messageCount: profileData.messageCount || 0
+    messageCount: profileData.messageCount || 0,
+    provenance: profileData.provenance ? { ...profileData.provenance } : undefined,
+    sequenceState: profileData.sequenceState ? { ...profileData.sequenceState } : undefined,
+    lastReplyAt: profileData.lastReplyAt
+      ? (profileData.lastReplyAt instanceof Date
+        ? profileData.lastReplyAt
+        : new Date(profileData.lastReplyAt))
+      : undefined,
+    enrichment: profileData.enrichment ? { ...profileData.enrichment } : undefined
   }
 }
@@ -0,0 +1,59 @@
+import { hashString } from "./hash"
+
+// Hash functions per MinHash signature; estimates have a standard error of at most 1/16 at this size
+export const MINHASH_SIZE = 64
+
+/**
+ * Lowercased words with punctuation stripped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/**
+ * Overlapping runs of `size` words. Texts shorter than that give one shingle.
+ */
+export function shingles(text: string, size: number = 3): Set<string> {
+  const words = tokenize(text)
+  const result = new Set<string>()
+  if (words.length <= size) {
+    if (words.length > 0) result.add(words.join(" "))
+    return result
+  }
+  for (let i = 0; i <= words.length - size; i++) {
+    result.add(words.slice(i, i + size).join(" "))
+  }
+  return result
+}
+
+/**
+ * MinHash signature of a text's shingles. The i-th hash is derived from two base hashes
+ * (h1 + i * h2), which is as good as independent hashes for this purpose.
+ */
+export function minhash(text: string, size: number = MINHASH_SIZE): number[] {
+  const signature = new Array<number>(size).fill(0xffffffff)
+  for (const shingle of shingles(text)) {
+    const h1 = hashString(shingle)
+    const h2 = hashString(`${shingle}#`) | 1
+    for (let i = 0; i < size; i++) {
+      const h = (h1 + Math.imul(i, h2)) >>> 0
+      if (h < signature[i]) signature[i] = h
+    }
+  }
+  return signature
+}
+
+/**
+ * Estimated Jaccard similarity (0-1) of the shingle sets behind two signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  let same = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++
+  }
+  return a.length > 0 ? same / a.length : 0
+}
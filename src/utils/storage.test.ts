@@ -0,0 +1,58 @@
+import "fake-indexeddb/auto"
+import { beforeEach, describe, expect, it } from "vitest"
+import type { CustomerProfile } from "~/types"
+import { installFakeChrome } from "~/test/fakeChrome"
+import { getProfile, replaceProfiles, saveProfile, updateStoredProfile } from "./storage"
+
+const collected: CustomerProfile = {
+  id: "abc123",
+  name: "Jane Doe",
+  profileUrl: "https://www.startupschool.org/cofounder-matching/candidate/abc123",
+  collectedAt: new Date("2024-01-01T00:00:00Z"),
+  messageCount: 0
+}
+
+beforeEach(async () => {
+  installFakeChrome()
+  await replaceProfiles([])
+})
+
+describe("saveProfile", () => {
+  it("keeps the message count and last send when a profile is re-collected", async () => {
+    await saveProfile(collected)
+    await updateStoredProfile(collected.id, (p) => {
+      p.messageCount = 2
+      p.lastMessageSent = new Date("2024-01-05T00:00:00Z")
+    })
+
+    // What the content script saves when delivery opens the candidate page again
+    await saveProfile({ ...collected, bio: "Updated bio", collectedAt: new Date("2024-01-06T00:00:00Z") })
+    const stored = await getProfile(collected.id)
+
+    expect(stored!.bio).toBe("Updated bio")
+    expect(stored!.messageCount).toBe(2)
+    expect(stored!.lastMessageSent).toEqual(new Date("2024-01-05T00:00:00Z"))
+  })
+
+  it("counts every send even when each one re-collects the profile first", async () => {
+    await saveProfile(collected)
+    for (let i = 0; i < 3; i++) {
+      await saveProfile({ ...collected, collectedAt: new Date() })
+      await updateStoredProfile(collected.id, (p) => {
+        p.messageCount = (p.messageCount || 0) + 1
+      })
+    }
+
+    expect((await getProfile(collected.id))!.messageCount).toBe(3)
+  })
+  it("keeps the failed-send count when a profile is re-collected", async () => {
+    await saveProfile(collected)
+    await updateStoredProfile(collected.id, (p) => {
+      p.sendFailures = { count: 2, lastFailedAt: 1000 }
+    })
+
+    await saveProfile({ ...collected, collectedAt: new Date() })
+
+    expect((await getProfile(collected.id))!.sendFailures).toEqual({ count: 2, lastFailedAt: 1000 })
+  })
+})
@@ -4,20 +4,47 @@ import type {
   FilterSettings,
   MessageTemplate,
   MessageHistory,
-  MessageStats
+  MessageStats,
+  CollectionQueue,
+  SelectorPack,
+  OutreachQueue,
+  EngineHeartbeat,
+  ReviewDraft,
+  Sequence,
+  ConversationStore,
+  LibraryTemplate,
+  Experiment,
+  SuppressionEntry
 } from "~/types"
+import { DEFAULT_SELECTOR_PACK, DEFAULT_SEQUENCE, RATE_LIMIT_DEFAULTS } from "~/utils/constants"
+import { filterProfiles } from "~/utils/filter"
+import {
+  clearProfiles,
+  getAllProfiles,
+  getProfileById,
+  getProfilesByCountry,
+  getProfilesByInterest,
+  modifyProfile,
+  putProfiles,
+  replaceAllProfiles
+} from "~/utils/profileStore"
 
 const DEFAULT_SETTINGS: AutomationSettings = {
   enabled: false,
+  mode: "auto",
+  messageSource: "ai",
   rateLimit: {
     messagesPerHour: 5,
     messagesPerDay: 50,
-    delayBetweenMessages: 60000 // 1 minute
+    delayBetweenMessages: 60000, // 1 minute
+    ...RATE_LIMIT_DEFAULTS
   },
   openaiModel: "gpt-4o-mini",
   messageVariation: true,
   retryAttempts: 3,
-  senderName: ""
+  senderName: "",
+  enrichProfiles: true,
+  backfillInterests: false
 }
 
 const DEFAULT_FILTERS: FilterSettings = {
@@ -28,30 +55,61 @@ const DEFAULT_FILTERS: FilterSettings = {
 
 export async function getProfiles(): Promise<CustomerProfile[]> {
   try {
-    const result = await chrome.storage.local.get("profiles")
-    return (result.profiles || []).map((p: any) => ({
-      ...p,
-      collectedAt: new Date(p.collectedAt),
-      lastMessageSent: p.lastMessageSent ? new Date(p.lastMessageSent) : undefined
-    }))
+    return await getAllProfiles()
   } catch (error) {
     console.error("Error getting profiles:", error)
     return []
   }
 }
 
-export async function saveProfile(profile: CustomerProfile): Promise<void> {
+export async function getProfile(profileId: string): Promise<CustomerProfile | null> {
   try {
-    const profiles = await getProfiles()
-    const index = profiles.findIndex((p) => p.id === profile.id)
+    return await getProfileById(profileId)
+  } catch (error) {
+    console.error("Error getting profile:", error)
+    return null
+  }
+}
 
-    if (index >= 0) {
-      profiles[index] = profile
+/**
+ * Profiles matching the filters. Country and interest filters are answered from indexes;
+ * the rest of the filter runs on those candidates.
+ */
+export async function getProfilesMatching(filters: FilterSettings): Promise<CustomerProfile[]> {
+  try {
+    let candidates: CustomerProfile[]
+    if (filters.countries?.length) {
+      candidates = (await Promise.all(filters.countries.map(getProfilesByCountry))).flat()
+    } else if (filters.interests?.length) {
+      const byInterest = (await Promise.all(filters.interests.map(getProfilesByInterest))).flat()
+      candidates = Array.from(new Map(byInterest.map((p) => [p.id, p])).values())
     } else {
-      profiles.push(profile)
+      candidates = await getAllProfiles()
     }
+    return filterProfiles(candidates, filters)
+  } catch (error) {
+    console.error("Error querying profiles:", error)
+    return []
+  }
+}
 
-    await chrome.storage.local.set({ profiles })
+export async function saveProfile(profile: CustomerProfile): Promise<void> {
+  try {
+    await modifyProfile(profile.id, (existing) => {
+      if (!existing) return profile
+      // Re-collecting a profile must not reset where it is in its outreach sequence.
+      // Delivery opens the candidate page, so a re-collect can land mid-send: keep the higher count.
+      const lastSent = [profile.lastMessageSent, existing.lastMessageSent].filter(Boolean) as Date[]
+      return {
+        ...profile,
+        messageCount: Math.max(profile.messageCount || 0, existing.messageCount || 0),
+        lastMessageSent: lastSent.length ? new Date(Math.max(...lastSent.map((d) => new Date(d).getTime()))) : undefined,
+        sequenceState: profile.sequenceState ?? existing.sequenceState,
+        lastReplyAt: profile.lastReplyAt ?? existing.lastReplyAt,
+        enrichment: profile.enrichment ?? existing.enrichment,
+        sendFailures: profile.sendFailures ?? existing.sendFailures
+      }
+    })
   } catch (error) {
     console.error("Error saving profile:", error)
   }
@@ -59,16 +117,46 @@ export async function saveProfile(profile: CustomerProfile): Promise<void> {
 
 export async function saveProfiles(profiles: CustomerProfile[]): Promise<void> {
   try {
-    await chrome.storage.local.set({ profiles })
+    await putProfiles(profiles)
   } catch (error) {
     console.error("Error saving profiles:", error)
   }
 }
 
+export async function replaceProfiles(profiles: CustomerProfile[]): Promise<void> {
+  try {
+    await replaceAllProfiles(profiles)
+  } catch (error) {
+    console.error("Error replacing profiles:", error)
+  }
+}
+
+/**
+ * Reads, changes and writes back one stored profile in a single transaction.
+ * `fn` must be synchronous. Returns null if the profile isn't stored.
+ */
+export async function updateStoredProfile(
+  profileId: string,
+  fn: (profile: CustomerProfile) => void
+): Promise<CustomerProfile | null> {
+  try {
+    return await modifyProfile(profileId, (profile) => {
+      if (!profile) return null
+      fn(profile)
+      return profile
+    })
+  } catch (error) {
+    console.error("Error updating profile:", error)
+    return null
+  }
+}
+
 export async function getAutomationSettings(): Promise<AutomationSettings> {
   try {
     const result = await chrome.storage.local.get("automationSettings")
-    return { ...DEFAULT_SETTINGS, ...result.automationSettings }
+    const stored = result.automationSettings
+    // Nested, so a shallow merge would drop rate limit fields added after the settings were saved
+    return { ...DEFAULT_SETTINGS, ...stored, rateLimit: { ...DEFAULT_SETTINGS.rateLimit, ...stored?.rateLimit } }
   } catch (error) {
     console.error("Error getting settings:", error)
     return DEFAULT_SETTINGS
@@ -118,13 +206,58 @@ export async function getMessageTemplates(): Promise<MessageTemplate[]> {
   }
 }
 
+export async function saveMessageTemplates(templates: MessageTemplate[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ messageTemplates: templates })
+  } catch (error) {
+    console.error("Error saving templates:", error)
+  }
+}
+
+export async function getConversations(): Promise<ConversationStore> {
+  try {
+    const result = await chrome.storage.local.get("conversations")
+    return result.conversations || {}
+  } catch (error) {
+    console.error("Error getting conversations:", error)
+    return {}
+  }
+}
+
+export async function saveConversations(conversations: ConversationStore): Promise<void> {
+  try {
+    await chrome.storage.local.set({ conversations })
+  } catch (error) {
+    console.error("Error saving conversations:", error)
+  }
+}
+
 export async function getMessageHistory(): Promise<MessageHistory[]> {
   try {
-    const result = await chrome.storage.local.get("messageHistory")
-    return (result.messageHistory || []).map((h: any) => ({
-      ...h,
-      sentAt: new Date(h.sentAt)
-    })).sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime()) // Most recent first
+    const conversations = await getConversations()
+    return Object.values(conversations)
+      .flatMap((thread) =>
+        thread.messages
+          .filter((m) => m.direction === "outbound")
+          .map((m) => ({
+            id: m.id,
+            profileId: thread.profileId,
+            profileName: thread.profileName,
+            message: m.text,
+            sentAt: new Date(m.at),
+            success: m.deliveryState === "sent",
+            error: m.error,
+            failureReason: m.failureReason,
+            openaiModel: m.model,
+            promptVersion: m.promptVersion,
+            sequenceId: m.sequenceId,
+            sequenceStep: m.sequenceStep,
+            experimentId: m.experimentId,
+            variantId: m.variantId,
+            checks: m.checks
+          }))
+      )
+      .sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime()) // Most recent first
   } catch (error) {
     console.error("Error getting message history:", error)
     return []
@@ -161,9 +294,201 @@ export async function getMessageStats(): Promise<MessageStats> {
   }
 }
 
+export async function saveMessageStats(stats: MessageStats): Promise<void> {
+  try {
+    await chrome.storage.local.set({ messageStats: stats })
+  } catch (error) {
+    console.error("Error saving message stats:", error)
+  }
+}
+
+export async function getCollectionQueue(): Promise<CollectionQueue | null> {
+  try {
+    const result = await chrome.storage.local.get("collectionQueue")
+    return result.collectionQueue || null
+  } catch (error) {
+    console.error("Error getting collection queue:", error)
+    return null
+  }
+}
+
+export async function saveCollectionQueue(
+  queue: CollectionQueue | null
+): Promise<void> {
+  try {
+    if (queue) {
+      await chrome.storage.local.set({ collectionQueue: queue })
+    } else {
+      await chrome.storage.local.remove("collectionQueue")
+    }
+  } catch (error) {
+    console.error("Error saving collection queue:", error)
+  }
+}
+
+export async function getSelectorPack(): Promise<SelectorPack> {
+  try {
+    const result = await chrome.storage.local.get("selectorPack")
+    return result.selectorPack || DEFAULT_SELECTOR_PACK
+  } catch (error) {
+    console.error("Error getting selector pack:", error)
+    return DEFAULT_SELECTOR_PACK
+  }
+}
+
+export async function saveSelectorPack(pack: SelectorPack): Promise<SelectorPack> {
+  const saved: SelectorPack = {
+    ...pack,
+    revision: pack.revision + 1,
+    updatedAt: new Date().toISOString()
+  }
+  try {
+    await chrome.storage.local.set({ selectorPack: saved })
+  } catch (error) {
+    console.error("Error saving selector pack:", error)
+  }
+  return saved
+}
+
+export async function resetSelectorPack(): Promise<void> {
+  try {
+    await chrome.storage.local.remove("selectorPack")
+  } catch (error) {
+    console.error("Error resetting selector pack:", error)
+  }
+}
+
+export async function getOutreachQueue(): Promise<OutreachQueue> {
+  try {
+    const result = await chrome.storage.local.get("outreachQueue")
+    return result.outreachQueue || { items: [], paused: false }
+  } catch (error) {
+    console.error("Error getting outreach queue:", error)
+    return { items: [], paused: false }
+  }
+}
+
+export async function saveOutreachQueue(queue: OutreachQueue): Promise<void> {
+  try {
+    await chrome.storage.local.set({ outreachQueue: queue })
+  } catch (error) {
+    console.error("Error saving outreach queue:", error)
+  }
+}
+
+export async function getEngineHeartbeat(): Promise<EngineHeartbeat | null> {
+  try {
+    const result = await chrome.storage.local.get("engineHeartbeat")
+    return result.engineHeartbeat || null
+  } catch (error) {
+    console.error("Error getting engine heartbeat:", error)
+    return null
+  }
+}
+
+export async function saveEngineHeartbeat(heartbeat: EngineHeartbeat): Promise<void> {
+  try {
+    await chrome.storage.local.set({ engineHeartbeat: heartbeat })
+  } catch (error) {
+    console.error("Error saving engine heartbeat:", error)
+  }
+}
+
+export async function getReviewInbox(): Promise<ReviewDraft[]> {
+  try {
+    const result = await chrome.storage.local.get("reviewInbox")
+    return result.reviewInbox || []
+  } catch (error) {
+    console.error("Error getting review inbox:", error)
+    return []
+  }
+}
+
+export async function saveReviewInbox(drafts: ReviewDraft[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ reviewInbox: drafts })
+  } catch (error) {
+    console.error("Error saving review inbox:", error)
+  }
+}
+
+export async function getSequences(): Promise<Sequence[]> {
+  try {
+    const result = await chrome.storage.local.get("sequences")
+    const sequences: Sequence[] = result.sequences || []
+    return sequences.length > 0 ? sequences : [DEFAULT_SEQUENCE]
+  } catch (error) {
+    console.error("Error getting sequences:", error)
+    return [DEFAULT_SEQUENCE]
+  }
+}
+
+export async function saveSequences(sequences: Sequence[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ sequences })
+  } catch (error) {
+    console.error("Error saving sequences:", error)
+  }
+}
+
+export async function getTemplateLibrary(): Promise<LibraryTemplate[]> {
+  try {
+    const result = await chrome.storage.local.get("templateLibrary")
+    return result.templateLibrary || []
+  } catch (error) {
+    console.error("Error getting template library:", error)
+    return []
+  }
+}
+
+export async function saveTemplateLibrary(templates: LibraryTemplate[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ templateLibrary: templates })
+  } catch (error) {
+    console.error("Error saving template library:", error)
+  }
+}
+
+export async function getExperiments(): Promise<Experiment[]> {
+  try {
+    const result = await chrome.storage.local.get("experiments")
+    return result.experiments || []
+  } catch (error) {
+    console.error("Error getting experiments:", error)
+    return []
+  }
+}
+
+export async function saveExperiments(experiments: Experiment[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ experiments })
+  } catch (error) {
+    console.error("Error saving experiments:", error)
+  }
+}
+
+export async function getSuppressionList(): Promise<SuppressionEntry[]> {
+  try {
+    const result = await chrome.storage.local.get("suppressionList")
+    return result.suppressionList || []
+  } catch (error) {
+    console.error("Error getting suppression list:", error)
+    return []
+  }
+}
+
+export async function saveSuppressionList(suppressionList: SuppressionEntry[]): Promise<void> {
+  try {
+    await chrome.storage.local.set({ suppressionList })
+  } catch (error) {
+    console.error("Error saving suppression list:", error)
+  }
+}
+
 export async function clearAllData(): Promise<void> {
   try {
     await chrome.storage.local.clear()
+    await clearProfiles()
   } catch (error) {
     console.error("Error clearing data:", error)
   }
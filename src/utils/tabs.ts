@@ -0,0 +1,108 @@
+/**
+ * Strips hash and trailing slash so the same candidate page matches
+ * regardless of how the URL was collected
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, "")}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Finds an open tab showing the given URL, or opens a new background tab.
+ * `created` tells the caller whether it owns the tab and should close it.
+ */
+export async function openOrReuseTab(
+  url: string
+): Promise<{ tab: chrome.tabs.Tab; created: boolean }> {
+  const target = normalizeUrl(url)
+  const tabs = await chrome.tabs.query({})
+  const existing = tabs.find((t) => t.url && normalizeUrl(t.url) === target)
+
+  if (existing?.id) {
+    return { tab: existing, created: false }
+  }
+
+  const tab = await chrome.tabs.create({ url, active: false })
+  return { tab, created: true }
+}
+
+/**
+ * Resolves once the tab reports status "complete".
+ * Rejects after `timeoutMs` so a tab that never finishes loading can't stall the caller.
+ */
+export function waitForTabComplete(
+  tabId: number,
+  timeoutMs = 30000
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let settled = false
+
+    const finish = (error?: Error) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      chrome.tabs.onUpdated.removeListener(listener)
+      error ? reject(error) : resolve()
+    }
+
+    const listener = (updatedId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+      if (updatedId === tabId && changeInfo.status === "complete") {
+        finish()
+      }
+    }
+
+    const timer = setTimeout(
+      () => finish(new Error(`Tab did not finish loading within ${timeoutMs / 1000}s`)),
+      timeoutMs
+    )
+
+    chrome.tabs.onUpdated.addListener(listener)
+
+    // The tab may already be loaded (reused tab, or load finished before we subscribed)
+    chrome.tabs
+      .get(tabId)
+      .then((tab) => {
+        if (tab.status === "complete") finish()
+      })
+      .catch((error) => finish(error instanceof Error ? error : new Error(String(error))))
+  })
+}
+
+/**
+ * Sends a message to a tab's content scripts with a timeout.
+ * Retries while the content script has not registered its listener yet.
+ */
+export async function sendTabMessage<T = any>(
+  tabId: number,
+  message: any,
+  timeoutMs = 30000,
+  retries = 5
+): Promise<T> {
+  let lastError: unknown
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    try {
+      return await Promise.race([
+        chrome.tabs.sendMessage(tabId, message) as Promise<T>,
+        new Promise<T>((_, reject) =>
+          setTimeout(
+            () => reject(new Error(`Content script timeout after ${timeoutMs / 1000}s`)),
+            timeoutMs
+          )
+        )
+      ])
+    } catch (error) {
+      lastError = error
+      const text = error instanceof Error ? error.message : String(error)
+      // Only "no listener yet" is worth retrying; a timeout means the script is busy or hung
+      if (!text.includes("Receiving end does not exist")) break
+      await new Promise((r) => setTimeout(r, 1000))
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(String(lastError))
+}
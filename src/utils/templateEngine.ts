@@ -0,0 +1,164 @@
+import type { CustomerProfile, LibraryTemplate } from "~/types"
+
+/**
+ * Small mustache-style renderer for library templates.
+ *
+ *   {{name}}                          variable
+ *   {{#if bio_snippet}}...{{/if}}     block kept when the variable is non-empty
+ *   {{#if country}}...{{else}}...{{/if}}
+ *
+ * Blocks can nest. Unknown variables render as empty text and are reported by validateTemplate.
+ */
+
+export const TEMPLATE_VARIABLES = [
+  "name",
+  "first_name",
+  "country",
+  "interests",
+  "bio_snippet",
+  "age_group",
+  "sender_name"
+] as const
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]
+
+export interface TemplateContext {
+  senderName?: string
+  extra?: Record<string, string> // additional variables, e.g. for prompt templates
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string }
+  | { type: "if"; name: string; then: TemplateNode[]; else: TemplateNode[] }
+
+const TAG_PATTERN = /\{\{\s*(#if\s+(\w+)|else|\/if|(\w+))\s*\}\}/g
+
+const BIO_SNIPPET_LENGTH = 160
+
+function parse(body: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  // Each open block, with the branch currently being filled
+  const stack: { node: Extract<TemplateNode, { type: "if" }>; branch: TemplateNode[] }[] = []
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].branch : root)
+
+  let lastIndex = 0
+  for (const match of body.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      current().push({ type: "text", value: body.slice(lastIndex, match.index) })
+    }
+    lastIndex = match.index! + match[0].length
+
+    if (match[2]) {
+      const node: Extract<TemplateNode, { type: "if" }> = { type: "if", name: match[2], then: [], else: [] }
+      current().push(node)
+      stack.push({ node, branch: node.then })
+    } else if (match[1] === "else") {
+      const open = stack[stack.length - 1]
+      if (!open || open.branch === open.node.else) {
+        throw new Error("{{else}} without a matching {{#if}}")
+      }
+      open.branch = open.node.else
+    } else if (match[1] === "/if") {
+      if (!stack.pop()) {
+        throw new Error("{{/if}} without a matching {{#if}}")
+      }
+    } else {
+      current().push({ type: "var", name: match[3] })
+    }
+  }
+
+  if (lastIndex < body.length) {
+    current().push({ type: "text", value: body.slice(lastIndex) })
+  }
+  if (stack.length > 0) {
+    throw new Error(`{{#if ${stack[stack.length - 1].node.name}}} is never closed`)
+  }
+  return root
+}
+
+function snippet(text: string | undefined): string {
+  const clean = (text || "").replace(/\s+/g, " ").trim()
+  if (clean.length <= BIO_SNIPPET_LENGTH) return clean
+  const cut = clean.slice(0, BIO_SNIPPET_LENGTH)
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : cut.length)}...`
+}
+
+export function buildTemplateValues(
+  profile: CustomerProfile,
+  context: TemplateContext = {}
+): Record<string, string> {
+  const interests = (profile.interests || []).filter((i) => i !== "Other")
+  return {
+    name: profile.name?.trim() || "",
+    first_name: profile.name?.trim().split(/\s+/)[0] || "",
+    country: profile.country || "",
+    interests: interests.join(", "),
+    bio_snippet: snippet(profile.bio),
+    age_group: profile.ageGroup && profile.ageGroup !== "unknown" ? profile.ageGroup : "",
+    sender_name: context.senderName?.trim() || "",
+    ...context.extra
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, string>): string {
+  return nodes
+    .map((node) => {
+      if (node.type === "text") return node.value
+      if (node.type === "var") return values[node.name] ?? ""
+      return renderNodes(values[node.name] ? node.then : node.else, values)
+    })
+    .join("")
+}
+
+/**
+ * Renders a template for a profile. Throws on unbalanced blocks.
+ */
+export function renderTemplate(
+  body: string,
+  profile: CustomerProfile,
+  context: TemplateContext = {}
+): string {
+  const text = renderNodes(parse(body), buildTemplateValues(profile, context))
+  // Blocks that render empty leave blank lines behind
+  return text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim()
+}
+
+/**
+ * Lists problems with a template without rendering it
+ */
+export function validateTemplate(body: string, extraVariables: readonly string[] = []): string[] {
+  const errors: string[] = []
+  try {
+    parse(body)
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : "Invalid template")
+  }
+
+  const known = new Set<string>([...TEMPLATE_VARIABLES, ...extraVariables])
+  for (const match of body.matchAll(TAG_PATTERN)) {
+    const name = match[2] || match[3]
+    if (name && !known.has(name)) {
+      errors.push(`Unknown variable "${name}"`)
+    }
+  }
+  return Array.from(new Set(errors))
+}
+
+export function createLibraryTemplate(name: string): LibraryTemplate {
+  const now = Date.now()
+  return {
+    id: `tpl-${now}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    body: [
+      "Hi {{first_name}},",
+      "",
+      "{{#if interests}}I noticed you're working on {{interests}} and would love to compare notes.{{else}}I came across your profile and would love to connect.{{/if}}",
+      "",
+      "Best,",
+      "{{sender_name}}"
+    ].join("\n"),
+    createdAt: now,
+    updatedAt: now
+  }
+}